@@ -1,4 +1,5 @@
 // GapDetector.ts
+import { PageSize, TextItem, getDevicePixelRatio, makeRect } from './TextItem';
 
 export interface SimpleRect {
   left: number;
@@ -60,31 +61,21 @@ export class GapDetector {
   private readonly COVERAGE_WEIGHT = 0.5;
 
   /**
-   * Compatibility API: Accepts DOM spans and page element, normalizes by DPR,
+   * Compatibility API: Accepts text items and the page size, normalizes by DPR,
    * and delegates to detectGapsFromRects.
    */
-  public detectGaps(spans: HTMLSpanElement[], pageElement: HTMLElement): GapAnalysis {
-    const dpr = window.devicePixelRatio || 1;
-    const pageRectRaw = pageElement.getBoundingClientRect();
-    const pageRect = new DOMRect(
-      pageRectRaw.left / dpr,
-      pageRectRaw.top / dpr,
-      pageRectRaw.width / dpr,
-      pageRectRaw.height / dpr
+  public detectGaps(items: TextItem[], pageSize: PageSize, dpr: number = getDevicePixelRatio()): GapAnalysis {
+    const pageRect = makeRect(0, 0, pageSize.width / dpr, pageSize.height / dpr);
+    const rects: SimpleRect[] = items.map(item =>
+      makeRect(item.rect.left / dpr, item.rect.top / dpr, item.rect.width / dpr, item.rect.height / dpr)
     );
-
-    const rects: DOMRect[] = spans.map(s => {
-      const r = s.getBoundingClientRect();
-      return new DOMRect(r.left / dpr, r.top / dpr, r.width / dpr, r.height / dpr);
-    });
-
     return this.detectGapsFromRects(rects, pageRect);
   }
 
   /**
    * Preferred API: Accepts normalized span rects and page rect.
    */
-  public detectGapsFromRects(spanRects: DOMRect[], pageRect: DOMRect): GapAnalysis {
+  public detectGapsFromRects(spanRects: SimpleRect[], pageRect: SimpleRect): GapAnalysis {
     if (!spanRects || spanRects.length === 0) {
       return {
         verticalBoundaries: [],
@@ -135,7 +126,7 @@ export class GapDetector {
   // Core computations
   // -----------------------------
 
-  private estimateAverageLineHeight(spanRects: DOMRect[]): number {
+  private estimateAverageLineHeight(spanRects: SimpleRect[]): number {
     if (!spanRects || spanRects.length === 0) return 15;
     const heights = spanRects.map(r => r.height).filter(h => h > 3);
     if (!heights.length) return 15;
@@ -149,8 +140,8 @@ export class GapDetector {
    * Keep API so you can later swap with a more advanced segmenter if needed.
    */
   private segmentVerticalLayouts(
-    spanRects: DOMRect[],
-    pageRect: DOMRect,
+    spanRects: SimpleRect[],
+    pageRect: SimpleRect,
     avgLineHeight: number
   ): Array<{ top: number; bottom: number; left: number; right: number }> {
     return [{
@@ -170,8 +161,8 @@ export class GapDetector {
    *  - Compute strip confidence from coverage and stability
    */
   private detectStripsAndBands(
-    spanRects: DOMRect[],
-    pageRect: DOMRect,
+    spanRects: SimpleRect[],
+    pageRect: SimpleRect,
     avgLine: number
   ): { verticalStrips: VerticalStrip[]; horizontalBands: HorizontalBand[] } {
     const bandStep = Math.max(6, avgLine * this.BAND_STEP_FACTOR);
@@ -344,7 +335,7 @@ export class GapDetector {
     return out;
   }
 
-  private createColumnsFromBoundaries(boundaries: GapBoundary[], pageRect: DOMRect): SimpleRect[] {
+  private createColumnsFromBoundaries(boundaries: GapBoundary[], pageRect: SimpleRect): SimpleRect[] {
     if (!boundaries?.length) return [{
       left: pageRect.left,
       top: pageRect.top,
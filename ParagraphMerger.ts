@@ -1,6 +1,7 @@
 // ParagraphMerger.ts
 import type { VerticalStrip, HorizontalBand } from './GapDetector';
 import type { SpanInfo } from './Snapshot';
+import type { TextItem } from './TextItem';
 import type { LayoutSettings } from './layout-modal';
 
 interface RectLike {
@@ -109,7 +110,7 @@ export class ParagraphMerger {
   }
 
   // 1) Initial span-to-paragraph grouping (math-aware), no DOM calls
-  public mergeIntoParagraphsFromInfos(spanInfos: Map<HTMLSpanElement, SpanInfo>): HTMLSpanElement[][] {
+  public mergeIntoParagraphsFromInfos(spanInfos: Map<TextItem, SpanInfo>): TextItem[][] {
     const spans = [...spanInfos.keys()];
     const ordered = spans.sort((a, b) => {
       const ia = spanInfos.get(a)!.rect;
@@ -117,8 +118,8 @@ export class ParagraphMerger {
       return ia.top - ib.top || ia.left - ib.left;
     });
 
-    const paragraphs: HTMLSpanElement[][] = [];
-    let current: HTMLSpanElement[] = [];
+    const paragraphs: TextItem[][] = [];
+    let current: TextItem[] = [];
 
     for (let i = 0; i < ordered.length; i++) {
       const cur = ordered[i];
@@ -187,19 +188,19 @@ export class ParagraphMerger {
 
   // 2) Split paragraphs if they cross vertical strips (with noise gating)
   public validateParagraphsAgainstStripsFromInfos(
-    paragraphs: HTMLSpanElement[][],
-    spanInfos: Map<HTMLSpanElement, SpanInfo>,
+    paragraphs: TextItem[][],
+    spanInfos: Map<TextItem, SpanInfo>,
     verticalStrips: VerticalStrip[] = [],
     lineHeight: number = 0,
     viewportWidth: number
-  ): HTMLSpanElement[][] {
+  ): TextItem[][] {
     // OVERHAUL: If forcing linear merge, skip all column splitting
     if (this.forceLinearMerge) {
       return paragraphs;
     }
 
     if (!verticalStrips?.length) return paragraphs;
-    const results: HTMLSpanElement[][] = [];
+    const results: TextItem[][] = [];
 
     const filteredStrips = this.filterStrips(verticalStrips, viewportWidth);
 
@@ -215,14 +216,14 @@ export class ParagraphMerger {
 
   // 3) Merge vertically stacked paragraphs within the same column and style, respecting gaps
   public mergeParagraphsFromInfos(
-    paragraphs: HTMLSpanElement[][],
-    spanInfos: Map<HTMLSpanElement, SpanInfo>,
+    paragraphs: TextItem[][],
+    spanInfos: Map<TextItem, SpanInfo>,
     lineHeight: number,
     verticalStrips: VerticalStrip[] = [],
     horizontalBands: HorizontalBand[] = [],
     viewportWidth: number
-  ): HTMLSpanElement[][] {
-    const merged: HTMLSpanElement[][] = [];
+  ): TextItem[][] {
+    const merged: TextItem[][] = [];
     const used = new Set<number>();
     const filteredStrips = this.filterStrips(verticalStrips, viewportWidth);
 
@@ -281,17 +282,17 @@ export class ParagraphMerger {
 
   // 3.5) Merge stacked column-aligned paragraphs (final stacked pass)
   public mergeStackedColumnParagraphsFromInfos(
-    paragraphs: HTMLSpanElement[][],
-    spanInfos: Map<HTMLSpanElement, SpanInfo>,
+    paragraphs: TextItem[][],
+    spanInfos: Map<TextItem, SpanInfo>,
     lineHeight: number,
     verticalStrips: VerticalStrip[] = [],
     horizontalBands: HorizontalBand[] = [],
     viewportWidth: number
-  ): HTMLSpanElement[][] {
+  ): TextItem[][] {
     if (!paragraphs.length) return paragraphs;
 
     type PInfo = {
-      spans: HTMLSpanElement[];
+      spans: TextItem[];
       bbox: RectLike;
       style: SpanInfo['style'];
       isMath: boolean;
@@ -379,16 +380,16 @@ export class ParagraphMerger {
 
   // 4) Single-pass nested/overlap merging, math-aware, respecting strips
   public mergeNestedParagraphsOnceFromInfos(
-    paragraphs: HTMLSpanElement[][],
-    spanInfos: Map<HTMLSpanElement, SpanInfo>,
+    paragraphs: TextItem[][],
+    spanInfos: Map<TextItem, SpanInfo>,
     verticalStrips: VerticalStrip[] = [],
     horizontalBands: HorizontalBand[] = [],
     viewportWidth: number
-  ): { paragraphs: HTMLSpanElement[][]; changed: boolean } {
+  ): { paragraphs: TextItem[][]; changed: boolean } {
     if (!paragraphs.length) return { paragraphs, changed: false };
 
     type PInfo = {
-      spans: HTMLSpanElement[];
+      spans: TextItem[];
       bbox: RectLike;
       style: SpanInfo['style'];
       isMath: boolean;
@@ -406,7 +407,7 @@ export class ParagraphMerger {
 
     let changed = false;
     const used = new Set<number>();
-    const out: HTMLSpanElement[][] = [];
+    const out: TextItem[][] = [];
 
     for (let i = 0; i < infos.length; i++) {
       if (used.has(i)) continue;
@@ -472,12 +473,12 @@ export class ParagraphMerger {
 
   // 5) Inline ligature/fragment stitching at same baseline
   public stitchInlineLigaturesFromInfos(
-    paragraphs: HTMLSpanElement[][],
-    spanInfos: Map<HTMLSpanElement, SpanInfo>
-  ): HTMLSpanElement[][] {
+    paragraphs: TextItem[][],
+    spanInfos: Map<TextItem, SpanInfo>
+  ): TextItem[][] {
     if (!paragraphs.length) return paragraphs;
 
-    const results: HTMLSpanElement[][] = [];
+    const results: TextItem[][] = [];
 
     for (const p of paragraphs) {
       if (p.length < 2) { results.push(p); continue; }
@@ -486,8 +487,8 @@ export class ParagraphMerger {
         .map(s => ({ s, info: spanInfos.get(s)! }))
         .sort((a, b) => a.info.rect.top - b.info.rect.top || a.info.rect.left - b.info.rect.left);
 
-      const stitched: HTMLSpanElement[] = [];
-      let group: HTMLSpanElement[] = [ordered[0].s];
+      const stitched: TextItem[] = [];
+      let group: TextItem[] = [ordered[0].s];
 
       for (let i = 1; i < ordered.length; i++) {
         const prevI = ordered[i - 1].info;
@@ -522,12 +523,12 @@ export class ParagraphMerger {
    * back into their parent paragraphs.
    */
   public mergeNestedInlineSpansFromInfos(
-    paragraphs: HTMLSpanElement[][],
-    spanInfos: Map<HTMLSpanElement, SpanInfo>
-  ): HTMLSpanElement[][] {
+    paragraphs: TextItem[][],
+    spanInfos: Map<TextItem, SpanInfo>
+  ): TextItem[][] {
     if (!paragraphs.length) return paragraphs;
 
-    const results: HTMLSpanElement[][] = [];
+    const results: TextItem[][] = [];
 
     for (const paragraph of paragraphs) {
       if (paragraph.length <= 1) {
@@ -543,8 +544,8 @@ export class ParagraphMerger {
         return rectA.top - rectB.top || rectA.left - rectB.left;
       });
 
-      const lines: HTMLSpanElement[][] = [];
-      let currentLine: HTMLSpanElement[] = [];
+      const lines: TextItem[][] = [];
+      let currentLine: TextItem[] = [];
       let currentLineTop = -Infinity;
       const lineHeightTolerance = paraStyle.fontSize * this.splitLineHeightTol;
 
@@ -567,7 +568,7 @@ export class ParagraphMerger {
         lines.push(currentLine);
       }
 
-      const mergedSpans: HTMLSpanElement[] = [];
+      const mergedSpans: TextItem[] = [];
       for (const line of lines) {
         if (line.length <= 1) {
           mergedSpans.push(...line);
@@ -578,7 +579,7 @@ export class ParagraphMerger {
           return spanInfos.get(a)!.rect.left - spanInfos.get(b)!.rect.left;
         });
 
-        let currentGroup: HTMLSpanElement[] = [lineSpans[0]];
+        let currentGroup: TextItem[] = [lineSpans[0]];
 
         for (let i = 1; i < lineSpans.length; i++) {
           const prevSpan = currentGroup[currentGroup.length - 1];
@@ -633,9 +634,9 @@ export class ParagraphMerger {
   }
 
   private mergeSpanGroup(
-    spans: HTMLSpanElement[],
-    spanInfos: Map<HTMLSpanElement, SpanInfo>
-  ): HTMLSpanElement[] {
+    spans: TextItem[],
+    spanInfos: Map<TextItem, SpanInfo>
+  ): TextItem[] {
     return spans.sort((a, b) => {
       const rectA = spanInfos.get(a)!.rect;
       const rectB = spanInfos.get(b)!.rect;
@@ -698,7 +699,7 @@ export class ParagraphMerger {
     return true;
   }
 
-  private getParaBbox(spans: HTMLSpanElement[], infos: Map<HTMLSpanElement, SpanInfo>): RectLike {
+  private getParaBbox(spans: TextItem[], infos: Map<TextItem, SpanInfo>): RectLike {
     let left = Infinity, top = Infinity, right = -Infinity, bottom = -Infinity;
 
     for (const s of spans) {
@@ -826,11 +827,11 @@ export class ParagraphMerger {
   }
 
   private splitParagraphByStrips(
-    paragraph: HTMLSpanElement[],
-    infos: Map<HTMLSpanElement, SpanInfo>,
+    paragraph: TextItem[],
+    infos: Map<TextItem, SpanInfo>,
     strips: VerticalStrip[],
     lineHeight: number = 0
-  ): HTMLSpanElement[][] {
+  ): TextItem[][] {
     if (!paragraph.length || !strips.length) return [paragraph];
 
     const paraBbox = this.getParaBbox(paragraph, infos);
@@ -842,7 +843,7 @@ export class ParagraphMerger {
 
     const columnBoundaries: number[] = [];
     let currentLineTop = -Infinity;
-    let currentLineSpans: { span: HTMLSpanElement; rect: RectLike }[] = [];
+    let currentLineSpans: { span: TextItem; rect: RectLike }[] = [];
 
     for (const span of sorted) {
       const rect = infos.get(span)!.rect;
@@ -878,7 +879,7 @@ export class ParagraphMerger {
       regions.push({ left: boundaries[i], right: boundaries[i + 1] });
     }
 
-    const buckets: HTMLSpanElement[][] = regions.map(() => []);
+    const buckets: TextItem[][] = regions.map(() => []);
     for (const span of sorted) {
       const rect = infos.get(span)!.rect;
       const cx = (rect.left + rect.right) / 2;
@@ -891,7 +892,7 @@ export class ParagraphMerger {
       }
     }
 
-    const groups: HTMLSpanElement[][] = [];
+    const groups: TextItem[][] = [];
     for (const bucket of buckets) {
       if (bucket.length === 0) continue;
       bucket.sort((a, b) => {
@@ -906,7 +907,7 @@ export class ParagraphMerger {
   }
 
   private processLineForColumnBoundaries(
-    lineSpans: { span: HTMLSpanElement; rect: RectLike }[],
+    lineSpans: { span: TextItem; rect: RectLike }[],
     columnBoundaries: number[],
     lineHeight: number
   ) {
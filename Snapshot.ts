@@ -1,4 +1,6 @@
 // Snapshot.ts
+import { ItemRect, TextItem, getDevicePixelRatio, makeRect } from './TextItem';
+
 export interface NormalizedStyle {
   fontFamily: string;
   fontSize: number;    // normalized by DPR
@@ -10,8 +12,8 @@ export interface NormalizedStyle {
 }
 
 export interface SpanInfo {
-  span: HTMLSpanElement;
-  rect: DOMRect;       // normalized by DPR
+  item: TextItem;
+  rect: ItemRect;      // normalized by DPR
   style: NormalizedStyle;
   isMathElement: boolean;
   mathContext: 'equation' | 'inline' | 'none';
@@ -45,15 +47,6 @@ function parseColorToRGB(color: string): [number, number, number] {
   return [0, 0, 0];
 }
 
-function normalizeWeight(weight: string): number {
-  const num = parseInt(weight as any, 10);
-  if (!isNaN(num)) return num;
-  const w = (weight || '').toLowerCase();
-  if (w === 'bold') return 700;
-  if (w === 'normal') return 400;
-  return 400;
-}
-
 export function isMathContentFont(fontFamily: string): boolean {
   return MATH_FONT_RE.test(fontFamily || '');
 }
@@ -71,46 +64,47 @@ export function determineMathContext(text: string, fontFamily: string): 'equatio
   return 'none';
 }
 
-export function buildSnapshot(spans: HTMLSpanElement[]): Map<HTMLSpanElement, SpanInfo> {
-  const dpr = window.devicePixelRatio || 1;
-  const map = new Map<HTMLSpanElement, SpanInfo>();
+/**
+ * Normalizes text items for the layout stack: rects and font sizes are divided by the
+ * device pixel ratio, colors parsed and math content flagged. Pure; runs without a DOM.
+ */
+export function buildSnapshot(items: TextItem[], dpr: number = getDevicePixelRatio()): Map<TextItem, SpanInfo> {
+  const map = new Map<TextItem, SpanInfo>();
 
-  for (const s of spans) {
-    const rectRaw = s.getBoundingClientRect();
-    const rect = new DOMRect(
-      rectRaw.left / dpr,
-      rectRaw.top / dpr,
-      rectRaw.width / dpr,
-      rectRaw.height / dpr
+  for (const item of items) {
+    const rect = makeRect(
+      item.rect.left / dpr,
+      item.rect.top / dpr,
+      item.rect.width / dpr,
+      item.rect.height / dpr
     );
-    const style = window.getComputedStyle(s);
-    const fontSize = (parseFloat(style.fontSize) || 12) / dpr;
-    const fontWeight = normalizeWeight(style.fontWeight);
-    const colorRGB = parseColorToRGB(style.color);
-    const text = s.textContent || '';
-    const isMath = isMathElementText(text, style.fontFamily);
-    const mathContext = determineMathContext(text, style.fontFamily);
+    const fontSize = (item.fontSize || 12) / dpr;
+    const fontWeight = item.fontWeight;
+    const colorRGB = parseColorToRGB(item.color);
+    const text = item.text || '';
+    const isMath = isMathElementText(text, item.fontFamily);
+    const mathContext = determineMathContext(text, item.fontFamily);
     const fontSizeRounded = Math.round(fontSize * 2) / 2; // 0.5px rounding
     const styleSig = [
-      style.fontFamily,
+      item.fontFamily,
       fontSizeRounded.toFixed(1),
       fontWeight,
-      style.fontStyle,
+      item.fontStyle,
       `${colorRGB[0]},${colorRGB[1]},${colorRGB[2]}`
     ].join('|');
 
     const normStyle: NormalizedStyle = {
-      fontFamily: style.fontFamily,
+      fontFamily: item.fontFamily,
       fontSize,
       fontWeight,
-      fontStyle: style.fontStyle,
-      color: style.color,
+      fontStyle: item.fontStyle,
+      color: item.color,
       colorRGB,
       styleSig
     };
 
-    map.set(s, {
-      span: s,
+    map.set(item, {
+      item,
       rect,
       style: normStyle,
       isMathElement: isMath,
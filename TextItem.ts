@@ -0,0 +1,83 @@
+// TextItem.ts
+// Plain-data text items: the input of the layout stack (Snapshot, ParagraphMerger,
+// GapDetector, LayoutDetector). Nothing here needs a DOM except the adapter at the end,
+// so layout detection can run on headless pages or on fixture JSON in Node.
+
+export interface ItemRect {
+  left: number;
+  top: number;
+  right: number;
+  bottom: number;
+  width: number;
+  height: number;
+}
+
+/**
+ * One run of text on a page. Coordinates are CSS pixels relative to the page's
+ * top-left corner; fontSize is in the same pixels.
+ */
+export interface TextItem {
+  text: string;
+  rect: ItemRect;
+  fontFamily: string;
+  fontSize: number;
+  fontWeight: number;  // 100-900
+  fontStyle: string;   // 'normal' | 'italic' | 'oblique'
+  color: string;       // CSS color string
+  /** The text layer span this item was read from, when it came from the DOM. */
+  element?: HTMLSpanElement;
+}
+
+export interface PageSize {
+  width: number;
+  height: number;
+}
+
+export function makeRect(left: number, top: number, width: number, height: number): ItemRect {
+  return { left, top, width, height, right: left + width, bottom: top + height };
+}
+
+export function normalizeFontWeight(weight: string | number): number {
+  if (typeof weight === 'number') return weight;
+  const num = parseInt(weight, 10);
+  if (!isNaN(num)) return num;
+  const w = (weight || '').toLowerCase();
+  if (w === 'bold') return 700;
+  return 400;
+}
+
+/**
+ * Device pixel ratio of the current window, or 1 outside a browser.
+ */
+export function getDevicePixelRatio(): number {
+  return typeof window !== 'undefined' ? window.devicePixelRatio || 1 : 1;
+}
+
+// === DOM Adapter ===
+
+/**
+ * Reads a rendered text layer span into a TextItem. `pageRect` is the client rect
+ * of the span's `.page` element.
+ */
+export function textItemFromSpan(span: HTMLSpanElement, pageRect: DOMRect): TextItem {
+  const r = span.getBoundingClientRect();
+  const style = window.getComputedStyle(span);
+  return {
+    text: span.textContent || '',
+    rect: makeRect(r.left - pageRect.left, r.top - pageRect.top, r.width, r.height),
+    fontFamily: style.fontFamily,
+    fontSize: parseFloat(style.fontSize) || 12,
+    fontWeight: normalizeFontWeight(style.fontWeight),
+    fontStyle: style.fontStyle,
+    color: style.color,
+    element: span,
+  };
+}
+
+/**
+ * Reads text layer spans into TextItems relative to their page element.
+ */
+export function readTextItems(spans: HTMLSpanElement[], pageElement: HTMLElement): TextItem[] {
+  const pageRect = pageElement.getBoundingClientRect();
+  return spans.map(span => textItemFromSpan(span, pageRect));
+}
\ No newline at end of file
@@ -0,0 +1,489 @@
+// box-editor.ts
+import { ButtonComponent, Notice, TFile } from 'obsidian';
+import type OpenRouterTranslatorPlugin from './main';
+import type { RevisionInfo } from './types';
+import { markFailedSegment, splitTranslationProportionally } from './processing';
+import { escapeHtml } from './html-text';
+
+// Constants
+const OVERLAY_SELECTOR = '.pdf-text-overlay-reflow';
+const HANDLE_CLASS = 'pdf-overlay-box-handle';
+const MIN_BOX_PX = 12;
+const LINE_TOLERANCE_PX = 3; // Spans whose vertical centers are this close share a line
+const WORD_GAP_RATIO = 0.15; // Gap (relative to line height) below which same-line spans are one word
+
+interface BoxSnapshot {
+    cssText: string;
+    originalText: string | null;
+    fontSizes: string | null;
+    html: string;
+}
+
+interface DragState {
+    el: HTMLElement;
+    mode: 'move' | 'resize';
+    startX: number;
+    startY: number;
+    left: number;
+    top: number;
+    width: number;
+    height: number;
+}
+
+interface TextLine {
+    top: number;
+    bottom: number;
+    spans: { span: HTMLElement; rect: DOMRect }[];
+}
+
+function normalizeText(text: string | null): string {
+    return (text || '').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * OverlayBoxEditor
+ *
+ * Edit mode for the overlay boxes of one page: drag a box to move it, drag its corner to resize it,
+ * Alt+click to split it at the nearest line and Shift+click two boxes to merge them. A box's source
+ * text is re-read from the text layer under it. Saving writes the page and can retranslate the boxes
+ * whose source text changed; cancelling restores the boxes as they were.
+ */
+export class OverlayBoxEditor {
+    private readonly plugin: OpenRouterTranslatorPlugin;
+    private isActive = false;
+    private cleanup = new Set<() => void>();
+    private pageElement: HTMLElement | null = null;
+    private container: HTMLElement | null = null;
+    private textLayer: HTMLElement | null = null;
+    private pdfFile: TFile | null = null;
+    private snapshots = new Map<HTMLElement, BoxSnapshot>();
+    private created = new Set<HTMLElement>();
+    private removed: HTMLElement[] = [];
+    private changed = new Set<HTMLElement>(); // Boxes whose source text changed
+    private selected: HTMLElement[] = [];
+    private drag: DragState | null = null;
+    private retranslate = false;
+
+    constructor(plugin: OpenRouterTranslatorPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Opens the editor on a page, by default the current one.
+     */
+    public start(pageElement?: HTMLElement): void {
+        if (!this.plugin.settings.manualRefinementMode) {
+            new Notice('Turn on "Manual Paragraph Refinement" in settings to edit overlay boxes.');
+            return;
+        }
+        if (this.isActive) {
+            new Notice('The box editor is already open. Save or cancel it first.');
+            return;
+        }
+        const file = this.plugin.app.workspace.getActiveFile();
+        if (!file || file.extension !== 'pdf') {
+            new Notice('Please open a PDF first.');
+            return;
+        }
+        const page = pageElement ?? this.plugin.overlay.getCurrentPageElement();
+        const container = page?.querySelector<HTMLElement>('.pdf-text-overlay-container');
+        const textLayer = page?.querySelector<HTMLElement>('.textLayer');
+        if (!page || !container || !textLayer || !container.querySelector(OVERLAY_SELECTOR)) {
+            new Notice('No overlays on this page to edit.');
+            return;
+        }
+
+        this.isActive = true;
+        this.pageElement = page;
+        this.container = container;
+        this.textLayer = textLayer;
+        this.pdfFile = file;
+        this.boxes().forEach(el => this.prepareBox(el));
+        this.createToolbar();
+
+        const onMouseDown = (event: MouseEvent) => this.onMouseDown(event);
+        const onMouseMove = (event: MouseEvent) => this.onMouseMove(event);
+        const onMouseUp = () => this.onMouseUp();
+        const blockOverlayEvent = (event: Event) => {
+            if (!(event.target as HTMLElement).closest(OVERLAY_SELECTOR)) return;
+            event.preventDefault();
+            event.stopPropagation();
+        };
+        const onKeyDown = (event: KeyboardEvent) => {
+            if (event.key === 'Escape') this.cancel();
+        };
+        container.addEventListener('mousedown', onMouseDown, true);
+        container.addEventListener('dblclick', blockOverlayEvent, true);
+        container.addEventListener('contextmenu', blockOverlayEvent, true);
+        document.addEventListener('mousemove', onMouseMove);
+        document.addEventListener('mouseup', onMouseUp);
+        document.addEventListener('keydown', onKeyDown);
+        this.cleanup.add(() => {
+            container.removeEventListener('mousedown', onMouseDown, true);
+            container.removeEventListener('dblclick', blockOverlayEvent, true);
+            container.removeEventListener('contextmenu', blockOverlayEvent, true);
+            document.removeEventListener('mousemove', onMouseMove);
+            document.removeEventListener('mouseup', onMouseUp);
+            document.removeEventListener('keydown', onKeyDown);
+        });
+    }
+
+    private boxes(): HTMLElement[] {
+        return Array.from(this.container?.querySelectorAll<HTMLElement>(OVERLAY_SELECTOR) ?? []);
+    }
+
+    /**
+     * Remembers a box's state for cancelling and adds the edit outline and resize handle.
+     */
+    private prepareBox(el: HTMLElement): void {
+        if (!this.snapshots.has(el) && !this.created.has(el)) {
+            this.snapshots.set(el, {
+                cssText: el.style.cssText,
+                originalText: el.getAttribute('data-original-text'),
+                fontSizes: el.getAttribute('data-original-font-sizes'),
+                html: el.querySelector('div')?.innerHTML ?? '',
+            });
+        }
+        el.style.outline = '1px dashed var(--interactive-accent)';
+        el.style.cursor = 'move';
+        if (el.querySelector(`.${HANDLE_CLASS}`)) return;
+        const handle = el.createDiv({ cls: HANDLE_CLASS });
+        Object.assign(handle.style, {
+            position: 'absolute',
+            right: '0',
+            bottom: '0',
+            width: '8px',
+            height: '8px',
+            background: 'var(--interactive-accent)',
+            cursor: 'nwse-resize',
+        });
+    }
+
+    private releaseBox(el: HTMLElement): void {
+        el.querySelector(`.${HANDLE_CLASS}`)?.remove();
+        el.style.outline = '';
+        el.style.cursor = '';
+    }
+
+    private createToolbar(): void {
+        const toolbar = this.pageElement!.createDiv({ cls: 'pdf-overlay-box-toolbar' });
+        Object.assign(toolbar.style, {
+            position: 'absolute',
+            top: '4px',
+            left: '50%',
+            transform: 'translateX(-50%)',
+            zIndex: '1000',
+            display: 'flex',
+            gap: '6px',
+            alignItems: 'center',
+            padding: '4px 8px',
+            fontSize: '12px',
+            background: 'var(--background-primary)',
+            border: '1px solid var(--background-modifier-border)',
+            borderRadius: '6px',
+            pointerEvents: 'auto',
+        });
+        toolbar.createSpan({ text: 'Drag to move, drag the corner to resize, Alt+click to split, Shift+click two boxes to merge.' });
+        new ButtonComponent(toolbar).setButtonText('Merge').onClick(() => this.merge());
+        const label = toolbar.createEl('label');
+        const checkbox = label.createEl('input', { type: 'checkbox' });
+        checkbox.checked = this.retranslate;
+        checkbox.addEventListener('change', () => { this.retranslate = checkbox.checked; });
+        label.appendText(' Retranslate changed boxes');
+        new ButtonComponent(toolbar).setButtonText('Save').setCta().onClick(() => void this.save());
+        new ButtonComponent(toolbar).setButtonText('Cancel').onClick(() => this.cancel());
+        this.cleanup.add(() => toolbar.remove());
+    }
+
+    // === Mouse Handling ===
+
+    private onMouseDown(event: MouseEvent): void {
+        const el = (event.target as HTMLElement).closest<HTMLElement>(OVERLAY_SELECTOR);
+        if (!el || event.button !== 0) return;
+        event.preventDefault();
+        event.stopPropagation();
+
+        if (event.altKey) {
+            this.split(el, event.clientY);
+            return;
+        }
+        if (event.shiftKey) {
+            this.setSelection(this.selected.includes(el) ? this.selected.filter(box => box !== el) : [...this.selected, el]);
+            return;
+        }
+        this.setSelection([el]);
+        const mode = (event.target as HTMLElement).classList.contains(HANDLE_CLASS) ? 'resize' : 'move';
+        this.drag = { el, mode, startX: event.clientX, startY: event.clientY, ...this.boxRect(el) };
+    }
+
+    private onMouseMove(event: MouseEvent): void {
+        if (!this.drag) return;
+        const { el, mode, startX, startY, left, top, width, height } = this.drag;
+        const dx = event.clientX - startX;
+        const dy = event.clientY - startY;
+        if (mode === 'move') {
+            el.style.left = `${Math.max(0, left + dx)}px`;
+            el.style.top = `${Math.max(0, top + dy)}px`;
+        } else {
+            el.style.width = `${Math.max(MIN_BOX_PX, width + dx)}px`;
+            el.style.height = `${Math.max(MIN_BOX_PX, height + dy)}px`;
+        }
+    }
+
+    private onMouseUp(): void {
+        if (!this.drag) return;
+        const { el } = this.drag;
+        this.drag = null;
+        const text = this.joinText(this.spansUnder(el.getBoundingClientRect()));
+        if (!text || text === normalizeText(el.getAttribute('data-original-text'))) return;
+        el.setAttribute('data-original-text', text);
+        this.changed.add(el);
+    }
+
+    private setSelection(boxes: HTMLElement[]): void {
+        this.boxes().forEach(el => {
+            el.style.outline = boxes.includes(el) ? '2px solid var(--interactive-accent)' : '1px dashed var(--interactive-accent)';
+        });
+        this.selected = boxes;
+    }
+
+    // === Split and Merge ===
+
+    /**
+     * Splits a box at the line break closest to `clientY`. The source text is divided by line
+     * and the translation in proportion to it.
+     */
+    private split(el: HTMLElement, clientY: number): void {
+        const boxClientRect = el.getBoundingClientRect();
+        const lines = this.groupLines(this.spansUnder(boxClientRect));
+        if (lines.length < 2) {
+            new Notice('This box has only one line of text; nothing to split.');
+            return;
+        }
+
+        let splitIndex = 1;
+        let bestDistance = Infinity;
+        for (let i = 1; i < lines.length; i++) {
+            const boundary = (lines[i - 1].bottom + lines[i].top) / 2;
+            if (Math.abs(clientY - boundary) < bestDistance) {
+                bestDistance = Math.abs(clientY - boundary);
+                splitIndex = i;
+            }
+        }
+        const offset = (lines[splitIndex - 1].bottom + lines[splitIndex].top) / 2 - boxClientRect.top;
+        const headText = this.joinText(lines.slice(0, splitIndex).flatMap(line => line.spans));
+        const tailText = this.joinText(lines.slice(splitIndex).flatMap(line => line.spans));
+        const inner = el.querySelector('div');
+        const [headHtml, tailHtml] = splitTranslationProportionally(inner?.innerHTML ?? '', headText.length / (headText.length + tailText.length));
+
+        const { left, top, width, height } = this.boxRect(el);
+        el.style.height = `${offset}px`;
+        el.setAttribute('data-original-text', headText);
+        if (inner) inner.innerHTML = headHtml;
+        this.changed.add(el);
+
+        let fontSizes: number[] = [];
+        try {
+            fontSizes = JSON.parse(el.getAttribute('data-original-font-sizes') || '[]');
+        } catch {
+            // Keep the default size
+        }
+        const pageNumber = parseInt(this.pageElement?.dataset.pageNumber || '0', 10);
+        const tail = this.plugin.overlay.createOverlayElement(
+            new DOMRect(left, top + offset, width, height - offset), tailHtml, tailText, fontSizes, pageNumber, this.pdfFile!, el.style.fontFamily || undefined
+        );
+        tail.style.fontSize = el.style.fontSize;
+        el.after(tail);
+        this.created.add(tail);
+        this.changed.add(tail);
+        this.prepareBox(tail);
+        this.setSelection([el, tail]);
+    }
+
+    /**
+     * Merges the two selected boxes into the upper one, which keeps its id and history.
+     */
+    private merge(): void {
+        if (this.selected.length !== 2) {
+            new Notice('Shift+click two boxes to merge them.');
+            return;
+        }
+        const [first, second] = [...this.selected].sort((a, b) => this.boxRect(a).top - this.boxRect(b).top || this.boxRect(a).left - this.boxRect(b).left);
+        const a = this.boxRect(first);
+        const b = this.boxRect(second);
+        const left = Math.min(a.left, b.left);
+        const top = Math.min(a.top, b.top);
+        Object.assign(first.style, {
+            left: `${left}px`,
+            top: `${top}px`,
+            width: `${Math.max(a.left + a.width, b.left + b.width) - left}px`,
+            height: `${Math.max(a.top + a.height, b.top + b.height) - top}px`,
+        });
+
+        const firstInner = first.querySelector('div');
+        const secondHtml = second.querySelector('div')?.innerHTML ?? '';
+        if (firstInner) firstInner.innerHTML = `${firstInner.innerHTML} ${secondHtml}`.trim();
+        first.setAttribute('data-original-text', normalizeText(`${first.getAttribute('data-original-text') || ''} ${second.getAttribute('data-original-text') || ''}`));
+        try {
+            const sizes = [first, second].flatMap(el => JSON.parse(el.getAttribute('data-original-font-sizes') || '[]'));
+            if (sizes.length > 0) first.setAttribute('data-original-font-sizes', JSON.stringify(sizes));
+        } catch {
+            // Keep the upper box's sizes
+        }
+        this.changed.add(first);
+        this.changed.delete(second);
+
+        this.releaseBox(second);
+        second.remove();
+        if (this.created.delete(second)) this.plugin.overlay.removeOverlayElement(second);
+        else this.removed.push(second);
+        this.setSelection([first]);
+    }
+
+    // === Text Layer ===
+
+    /**
+     * Leaf spans of the text layer whose centers lie inside the rect, in reading order.
+     */
+    private spansUnder(rect: DOMRect): { span: HTMLElement; rect: DOMRect }[] {
+        return Array.from(this.textLayer?.querySelectorAll<HTMLElement>('span') ?? [])
+            .filter(span => !span.querySelector('span') && !!span.textContent?.trim())
+            .map(span => ({ span, rect: span.getBoundingClientRect() }))
+            .filter(({ rect: r }) => {
+                const x = r.left + r.width / 2;
+                const y = r.top + r.height / 2;
+                return x >= rect.left && x <= rect.right && y >= rect.top && y <= rect.bottom;
+            });
+    }
+
+    private groupLines(spans: { span: HTMLElement; rect: DOMRect }[]): TextLine[] {
+        const lines: TextLine[] = [];
+        const sorted = [...spans].sort((a, b) => (a.rect.top + a.rect.bottom) - (b.rect.top + b.rect.bottom));
+        for (const entry of sorted) {
+            const center = (entry.rect.top + entry.rect.bottom) / 2;
+            const line = lines.find(l => Math.abs((l.top + l.bottom) / 2 - center) <= LINE_TOLERANCE_PX);
+            if (line) {
+                line.spans.push(entry);
+                line.top = Math.min(line.top, entry.rect.top);
+                line.bottom = Math.max(line.bottom, entry.rect.bottom);
+            } else {
+                lines.push({ top: entry.rect.top, bottom: entry.rect.bottom, spans: [entry] });
+            }
+        }
+        lines.forEach(line => line.spans.sort((a, b) => a.rect.left - b.rect.left));
+        return lines.sort((a, b) => a.top - b.top);
+    }
+
+    /**
+     * Joins spans line by line. Spans on one line with almost no gap between them are parts of one word.
+     */
+    private joinText(spans: { span: HTMLElement; rect: DOMRect }[]): string {
+        let text = '';
+        this.groupLines(spans).forEach(line => {
+            line.spans.forEach((entry, i) => {
+                const previous = line.spans[i - 1];
+                const gap = previous ? entry.rect.left - previous.rect.right : Infinity;
+                const joined = previous && gap < (line.bottom - line.top) * WORD_GAP_RATIO;
+                text += (text && !joined ? ' ' : '') + (entry.span.textContent || '');
+            });
+        });
+        return normalizeText(text);
+    }
+
+    private boxRect(el: HTMLElement): { left: number; top: number; width: number; height: number } {
+        return {
+            left: parseFloat(el.style.left) || 0,
+            top: parseFloat(el.style.top) || 0,
+            width: parseFloat(el.style.width) || el.offsetWidth,
+            height: parseFloat(el.style.height) || el.offsetHeight,
+        };
+    }
+
+    // === Save and Cancel ===
+
+    /**
+     * Writes the edited page. Boxes with a new source text are retranslated when that option is on;
+     * otherwise split or merged translations are kept as manual edits.
+     */
+    private async save(): Promise<void> {
+        const pageElement = this.pageElement!;
+        const container = this.container!;
+        const textLayer = this.textLayer!;
+        const pdfFile = this.pdfFile!;
+        const retranslate = this.retranslate;
+        const changed = [...this.changed].filter(el => el.isConnected);
+        const edited = changed.filter(el => this.snapshots.get(el)?.html !== el.querySelector('div')?.innerHTML);
+        const removed = this.removed;
+        this.finish();
+        removed.forEach(el => this.plugin.overlay.removeOverlayElement(el));
+
+        try {
+            if (retranslate && changed.length > 0) {
+                const notice = new Notice(`Retranslating ${changed.length} box(es)...`, 0);
+                let failed = 0;
+                try {
+                    for (const el of changed) {
+                        const source = el.getAttribute('data-original-text') || '';
+                        if (!source.trim()) continue;
+                        const revision: RevisionInfo = { source: 'machine', timestamp: Date.now(), model: this.plugin.translation.getModelLabel() };
+                        try {
+                            const translated = await this.plugin.processor.translateSegment(source, pdfFile);
+                            this.plugin.overlay.replaceOverlayText(el, translated, revision);
+                        } catch (error: any) {
+                            // The box keeps its new geometry and shows its source marked, to be retried later
+                            this.plugin.logDebug('Retranslating an edited box failed:', error);
+                            this.plugin.overlay.replaceOverlayText(el, markFailedSegment(escapeHtml(source)), revision);
+                            failed++;
+                        }
+                    }
+                } finally {
+                    notice.hide();
+                }
+                if (failed > 0) new Notice(`⚠️ ${failed} box(es) could not be retranslated. Right-click them to retry.`);
+            } else {
+                edited.forEach(el => this.plugin.overlay.replaceOverlayText(el, el.querySelector('div')?.innerHTML ?? '', { source: 'manual', timestamp: Date.now() }));
+            }
+
+            const pageNumber = parseInt(pageElement.dataset.pageNumber || '0', 10);
+            const positionData = this.plugin.storage.extractPositionData(textLayer, container);
+            await this.plugin.storage.updatePageOverlaysAndWrite(pdfFile, { [pageNumber]: positionData });
+            new Notice(`✅ Saved ${positionData.length} box(es) on page ${pageNumber}.`);
+        } catch (error: any) {
+            console.error('PDF Translator: Saving edited boxes failed:', error);
+            new Notice(`⚠️ Saving the boxes failed: ${error.message || 'Unknown error'}`);
+        }
+    }
+
+    private cancel(): void {
+        const container = this.container;
+        this.boxes().forEach(el => this.releaseBox(el));
+        this.created.forEach(el => this.plugin.overlay.removeOverlayElement(el));
+        this.removed.forEach(el => container?.appendChild(el));
+        this.snapshots.forEach((snapshot, el) => {
+            el.style.cssText = snapshot.cssText;
+            if (snapshot.originalText !== null) el.setAttribute('data-original-text', snapshot.originalText);
+            if (snapshot.fontSizes !== null) el.setAttribute('data-original-font-sizes', snapshot.fontSizes);
+            else el.removeAttribute('data-original-font-sizes');
+            const inner = el.querySelector('div');
+            if (inner) inner.innerHTML = snapshot.html;
+        });
+        this.finish();
+    }
+
+    private finish(): void {
+        this.boxes().forEach(el => this.releaseBox(el));
+        this.cleanup.forEach(fn => fn());
+        this.cleanup.clear();
+        this.snapshots.clear();
+        this.created.clear();
+        this.removed = [];
+        this.changed.clear();
+        this.selected = [];
+        this.drag = null;
+        this.pageElement = null;
+        this.container = null;
+        this.textLayer = null;
+        this.pdfFile = null;
+        this.isActive = false;
+    }
+}
\ No newline at end of file
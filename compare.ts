@@ -0,0 +1,210 @@
+// compare.ts
+import { App, ButtonComponent, Modal, Notice, TFile, sanitizeHTMLToDom } from 'obsidian';
+import type OpenRouterTranslatorPlugin from './main';
+import type { ModelChoice, TranslationUnit } from './types';
+import { containsFailedSegment } from './processing';
+
+// Constants
+const MIN_MODELS = 2;
+const MAX_MODELS = 3; // More columns no longer fit side by side
+
+/**
+ * Formats a model choice as "provider:model", the form used in settings.
+ */
+export function formatModelChoice(choice: ModelChoice): string {
+    return `${choice.provider}:${choice.model}`;
+}
+
+/**
+ * Parses one "provider:model" per line. The model part may contain colons itself
+ * (e.g. "ollama:llama3:8b"), so lines are split at the first one. Invalid lines are skipped.
+ */
+export function parseModelChoices(text: string): ModelChoice[] {
+    return text.split('\n')
+        .map(line => line.trim())
+        .map(line => {
+            const separator = line.indexOf(':');
+            if (separator <= 0) return null;
+            return { provider: line.slice(0, separator).trim(), model: line.slice(separator + 1).trim() };
+        })
+        .filter((choice): choice is ModelChoice => !!choice && !!choice.model);
+}
+
+interface ModelColumn {
+    model: ModelChoice;
+    lines: string[];
+}
+
+/**
+ * Translates a page or a selected region with several provider/model combinations
+ * and lets the user pick the best translation per segment before it is saved.
+ */
+export class ModelComparison {
+    private plugin: OpenRouterTranslatorPlugin;
+
+    constructor(plugin: OpenRouterTranslatorPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * The comparison models from settings, or null (with a notice) when fewer than two are configured.
+     */
+    getComparisonModels(): ModelChoice[] | null {
+        const models = this.plugin.settings.comparisonModels.slice(0, MAX_MODELS);
+        if (models.length < MIN_MODELS) {
+            new Notice(`⚠️ Add at least ${MIN_MODELS} models under "Comparison Models" in settings.`, 5000);
+            return null;
+        }
+        return models;
+    }
+
+    /**
+     * Translates the units with each comparison model and shows the results side by side.
+     * Resolves to the chosen line per unit, or null when cancelled or no model returned a translation.
+     */
+    async chooseTranslations(units: TranslationUnit[], options: { pageNumber?: number; pdfFile?: TFile | null } = {}): Promise<string[] | null> {
+        const models = this.getComparisonModels();
+        if (!models) return null;
+
+        // Each call carries its own model, so all models translate at the same time
+        new Notice(`Translating ${units.length} segment(s) with ${models.map(formatModelChoice).join(', ')}...`, 3000);
+        const results = await Promise.all(models.map(async (model): Promise<ModelColumn | null> => {
+            try {
+                return { model, lines: await this.plugin.processor.executeTranslation(units, { ...options, model }) };
+            } catch (error: any) {
+                console.error(`PDF Translator: Comparison with ${formatModelChoice(model)} failed:`, error);
+                new Notice(`⚠️ ${formatModelChoice(model)} failed: ${error.message}`, 5000);
+                return null;
+            }
+        }));
+        const columns = results.filter((column): column is ModelColumn => column !== null);
+
+        if (columns.length === 0) {
+            new Notice('⚠️ None of the comparison models returned a translation.');
+            return null;
+        }
+        return new Promise(resolve => new CompareModelsModal(this.plugin.app, units, columns, resolve).open());
+    }
+
+    /**
+     * Compares the models on the visible page and replaces the page's saved overlays with the chosen translations.
+     */
+    async comparePage(): Promise<void> {
+        const file = this.plugin.app.workspace.getActiveFile();
+        if (!file || file.extension !== 'pdf') {
+            new Notice('Please open a PDF first.');
+            return;
+        }
+        if (!this.getComparisonModels()) return;
+
+        const pageElement = this.plugin.overlay.getCurrentPageElement();
+        const textLayer = pageElement?.querySelector<HTMLElement>('.textLayer');
+        if (!pageElement || !textLayer) {
+            new Notice('Text layer not found. Wait for PDF to fully render.');
+            return;
+        }
+        const units = this.plugin.processor.prepareTranslationUnits(textLayer, pageElement);
+        if (!units || units.length === 0) {
+            new Notice('No valid text to translate.', 2000);
+            return;
+        }
+
+        const pageNumber = parseInt(pageElement.dataset.pageNumber || '0', 10);
+        const lines = await this.chooseTranslations(units, { pageNumber: pageNumber || undefined, pdfFile: file });
+        if (!lines) return;
+
+        const pdfViewer = pageElement.closest('.pdfViewer, #viewer') as HTMLElement | null;
+        const scale = parseFloat(pdfViewer?.style.getPropertyValue('--scale-factor') || '1') || 1;
+        const items = this.plugin.processor.buildPositionData(pageElement, lines.join('\n'), scale, units);
+        if (items.length === 0) {
+            new Notice('⚠️ Could not place the chosen translations on the page.');
+            return;
+        }
+        // A paragraph may combine sentences picked from different models
+        const models = this.getComparisonModels() ?? [];
+        items.forEach(item => { item.revision = { ...item.revision!, model: models.map(formatModelChoice).join(' / ') }; });
+
+        await this.plugin.storage.updatePageOverlaysAndWrite(file, { [pageNumber]: items });
+        this.plugin.clearAllOverlays();
+        await this.plugin.storage.loadSavedOverlayForCurrentPage(file, true);
+        new Notice(`✅ Saved ${items.length} overlay(s) from the model comparison.`);
+    }
+}
+
+/**
+ * Shows each model's translation of every segment in its own column. One translation
+ * per segment is selected, by default the first one that did not fail.
+ */
+class CompareModelsModal extends Modal {
+    private units: TranslationUnit[];
+    private columns: ModelColumn[];
+    private onChoose: (lines: string[] | null) => void;
+    private radios: HTMLInputElement[][] = []; // [segment][column]
+    private chosen = false;
+
+    constructor(app: App, units: TranslationUnit[], columns: ModelColumn[], onChoose: (lines: string[] | null) => void) {
+        super(app);
+        this.units = units;
+        this.columns = columns;
+        this.onChoose = onChoose;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText('Compare Models');
+        this.modalEl.style.width = '90vw';
+        contentEl.createEl('p', { text: 'Pick the translation to keep for each segment.' });
+
+        const table = contentEl.createEl('table');
+        table.style.width = '100%';
+        const headerRow = table.createEl('thead').createEl('tr');
+        headerRow.createEl('th', { text: 'Original' });
+        this.columns.forEach((column, columnIndex) => {
+            const th = headerRow.createEl('th', { text: formatModelChoice(column.model) });
+            new ButtonComponent(th.createDiv()).setButtonText('Use all').onClick(() => {
+                this.radios.forEach(row => { row[columnIndex].checked = true; });
+            });
+        });
+
+        const body = table.createEl('tbody');
+        this.units.forEach((unit, segmentIndex) => {
+            const row = body.createEl('tr');
+            this.createCell(row, unit.text);
+            const defaultColumn = Math.max(0, this.columns.findIndex(column => this.isUsable(column.lines[segmentIndex])));
+            this.radios.push(this.columns.map((column, columnIndex) => {
+                const label = this.createCell(row, column.lines[segmentIndex] || '').createEl('label');
+                const radio = label.createEl('input', { type: 'radio', attr: { name: `compare-segment-${segmentIndex}` } });
+                radio.checked = columnIndex === defaultColumn;
+                label.appendText(' Use this');
+                return radio;
+            }));
+        });
+
+        const buttonContainer = contentEl.createDiv({ cls: 'translator-button-container' });
+        new ButtonComponent(buttonContainer).setButtonText('Apply').setCta().onClick(() => {
+            this.chosen = true;
+            this.onChoose(this.units.map((unit, segmentIndex) => {
+                const columnIndex = Math.max(0, this.radios[segmentIndex].findIndex(radio => radio.checked));
+                return this.columns[columnIndex].lines[segmentIndex] || unit.text;
+            }));
+            this.close();
+        });
+        new ButtonComponent(buttonContainer).setButtonText('Cancel').onClick(() => this.close());
+    }
+
+    onClose() {
+        this.contentEl.empty();
+        if (!this.chosen) this.onChoose(null);
+    }
+
+    private createCell(row: HTMLElement, html: string): HTMLElement {
+        const cell = row.createEl('td');
+        cell.style.verticalAlign = 'top';
+        cell.createDiv().appendChild(sanitizeHTMLToDom(html));
+        return cell;
+    }
+
+    private isUsable(line: string | undefined): boolean {
+        return !!line && line !== 'Translation missing' && !containsFailedSegment(line);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,62 @@
+// display-mode.ts
+import { App, FuzzySuggestModal, Notice, TFile } from 'obsidian';
+import type OpenRouterTranslatorPlugin from './main';
+import type { OverlayDisplayMode } from './types';
+
+// Constants
+const FRONTMATTER_KEY = 'overlay-display';
+const DEFAULT_MODE: OverlayDisplayMode = 'overlay';
+const MODE_LABELS: Record<OverlayDisplayMode, string> = {
+    'overlay': 'Translation over the original',
+    'hover-original': 'Translation, original text on hover',
+    'original-popover': 'Original, translation on hover',
+};
+
+function isDisplayMode(value: unknown): value is OverlayDisplayMode {
+    return typeof value === 'string' && value in MODE_LABELS;
+}
+
+/**
+ * The display mode stored as `overlay-display` in a translation file's frontmatter.
+ */
+export function readDisplayMode(app: App, translationFile: TFile | null): OverlayDisplayMode {
+    const raw = translationFile ? app.metadataCache.getFileCache(translationFile)?.frontmatter?.[FRONTMATTER_KEY] : undefined;
+    return isDisplayMode(raw) ? raw : DEFAULT_MODE;
+}
+
+/**
+ * Lets the user pick how the overlays of a PDF are shown. The choice is saved in the
+ * PDF's translation file and applied right away.
+ */
+export class DisplayModeModal extends FuzzySuggestModal<OverlayDisplayMode> {
+    private plugin: OpenRouterTranslatorPlugin;
+    private pdfFile: TFile;
+
+    constructor(app: App, plugin: OpenRouterTranslatorPlugin, pdfFile: TFile) {
+        super(app);
+        this.plugin = plugin;
+        this.pdfFile = pdfFile;
+        this.setPlaceholder('Show the overlays of this PDF as...');
+    }
+
+    getItems(): OverlayDisplayMode[] {
+        return Object.keys(MODE_LABELS) as OverlayDisplayMode[];
+    }
+
+    getItemText(mode: OverlayDisplayMode): string {
+        return MODE_LABELS[mode];
+    }
+
+    async onChooseItem(mode: OverlayDisplayMode): Promise<void> {
+        const saved = await this.plugin.storage.updateFrontmatter(this.pdfFile, frontmatter => {
+            if (mode === DEFAULT_MODE) delete frontmatter[FRONTMATTER_KEY];
+            else frontmatter[FRONTMATTER_KEY] = mode;
+        });
+        if (!saved) {
+            new Notice('⚠️ This PDF has no translation file yet. Translate a page first.');
+            return;
+        }
+        this.plugin.overlay.setDisplayMode(this.pdfFile, mode);
+        new Notice(`✅ Overlay display: ${MODE_LABELS[mode]}`);
+    }
+}
\ No newline at end of file
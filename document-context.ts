@@ -0,0 +1,112 @@
+// document-context.ts
+import { Notice, TFile } from 'obsidian';
+import type OpenRouterTranslatorPlugin from './main';
+
+// Constants
+const SUMMARY_SOURCE_MAX_CHARS = 8000; // Original text sent when generating a summary
+const CONTEXT_ITEM_MAX_CHARS = 1200; // Per previous-page paragraph, keeps the context short
+
+/**
+ * Read-only context sent along with a page translation.
+ */
+export interface DocumentContext {
+    text: string;
+    estimatedTokens: number;
+}
+
+/**
+ * Rough token estimate (~4 characters per token). Good enough for progress and budget display.
+ */
+export function estimateTokens(text: string): number {
+    return Math.ceil(text.length / 4);
+}
+
+function truncate(text: string, maxChars: number): string {
+    return text.length > maxChars ? `…${text.slice(text.length - maxChars)}` : text;
+}
+
+/**
+ * Builds document-level context for page translations: the last paragraph(s) of the
+ * previous page (original and translation, read from the saved overlay) and the
+ * document summary stored as `summary` in the translation file's frontmatter.
+ */
+export class DocumentContextBuilder {
+    private plugin: OpenRouterTranslatorPlugin;
+
+    constructor(plugin: OpenRouterTranslatorPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Returns the context for translating `pageNumber`, or null when context mode is off
+     * or there is nothing to add.
+     */
+    async buildForPage(pdfFile: TFile, pageNumber: number): Promise<DocumentContext | null> {
+        if (!this.plugin.settings.useDocumentContext) return null;
+
+        const saved = await this.plugin.storage.readSavedOverlayForFile(pdfFile);
+        const summary = saved ? this.getSummary(saved.mdFile) : '';
+        const previousItems = saved?.overlay.pageOverlays[pageNumber - 1] ?? [];
+        const tail = previousItems
+            .filter(item => (item.textContent || '').trim() && (item.translatedText || '').trim())
+            .slice(-Math.max(1, this.plugin.settings.contextParagraphs));
+
+        if (!summary && tail.length === 0) return null;
+
+        const parts: string[] = ['Context (read-only; use it for consistency, do not translate or output it):'];
+        if (summary) {
+            parts.push(`Document summary: ${summary}`);
+        }
+        if (tail.length > 0) {
+            parts.push(`End of the previous page (page ${pageNumber - 1}):`);
+            tail.forEach(item => {
+                parts.push(`Original: ${truncate(item.textContent.trim(), CONTEXT_ITEM_MAX_CHARS)}`);
+                parts.push(`Translation: ${truncate(item.translatedText.trim().replace(/<br>/g, ' '), CONTEXT_ITEM_MAX_CHARS)}`);
+            });
+        }
+
+        const text = parts.join('\n');
+        return { text, estimatedTokens: estimateTokens(text) };
+    }
+
+    private getSummary(mdFile: TFile): string {
+        const raw = this.plugin.app.metadataCache.getFileCache(mdFile)?.frontmatter?.['summary'];
+        return typeof raw === 'string' ? raw.trim() : '';
+    }
+
+    /**
+     * Asks the model for a short summary of the already translated pages (original text)
+     * and stores it as `summary` in the translation file's frontmatter.
+     */
+    async generateSummary(pdfFile: TFile): Promise<void> {
+        const saved = await this.plugin.storage.readSavedOverlayForFile(pdfFile);
+        if (!saved) {
+            new Notice('Translate at least one page before generating a summary.');
+            return;
+        }
+
+        const pageNumbers = Object.keys(saved.overlay.pageOverlays).map(Number).sort((a, b) => a - b);
+        let sourceText = '';
+        for (const page of pageNumbers) {
+            for (const item of saved.overlay.pageOverlays[page]) {
+                sourceText += (item.textContent || '').trim() + '\n';
+            }
+            if (sourceText.length >= SUMMARY_SOURCE_MAX_CHARS) break;
+        }
+        sourceText = sourceText.slice(0, SUMMARY_SOURCE_MAX_CHARS);
+
+        new Notice('Generating document summary...');
+        try {
+            const systemPrompt = `Summarize the following document excerpt in ${this.plugin.translation.getTargetLangName()} in at most 3 sentences. ` +
+                'Mention the subject and key terminology. Output only the summary.';
+            const summary = (await this.plugin.translation.makeApiCall(systemPrompt, sourceText, { pdfPath: pdfFile.path })).replace(/\s+/g, ' ').trim();
+            await this.plugin.app.fileManager.processFrontMatter(saved.mdFile, (fm) => {
+                fm['summary'] = summary;
+            });
+            new Notice(`✅ Summary saved to ${saved.mdFile.basename}.`);
+        } catch (error: any) {
+            console.error('Summary generation failed:', error);
+            new Notice(`⚠️ Summary generation failed: ${error.message}`);
+        }
+    }
+}
\ No newline at end of file
@@ -0,0 +1,408 @@
+// exporter.ts
+import { App, Modal, Notice, Setting, TFile, normalizePath } from 'obsidian';
+import type OpenRouterTranslatorPlugin from './main';
+import type { OverlayPositionData, SavedOverlay } from './types';
+import { unwrapFailedSegments } from './processing';
+import { decodeEntities, escapeHtml } from './html-text';
+
+export type ExportFormat = 'markdown' | 'html' | 'epub';
+export type ExportLayout = 'translation' | 'side-by-side' | 'interleaved';
+
+const FORMAT_EXTENSIONS: Record<ExportFormat, string> = { markdown: 'md', html: 'html', epub: 'epub' };
+const LAYOUT_NAMES: Record<ExportLayout, string> = {
+    'translation': 'Translation only',
+    'side-by-side': 'Side by side',
+    'interleaved': 'Interleaved (original, then translation)',
+};
+
+/**
+ * One paragraph of the export: original plain text and the translation as a
+ * sanitized HTML fragment (only <b>, <i> and <br> are kept).
+ */
+interface ExportBlock {
+    original: string;
+    translationHtml: string;
+}
+
+interface ExportPage {
+    page: number;
+    blocks: ExportBlock[];
+}
+
+// === Text Helpers ===
+
+/**
+ * Keeps <b>, <i> and <br> from a translated fragment and escapes everything else.
+ * Entities produced by spansToHtml (&amp; etc.) are decoded first so they are not double-escaped.
+ */
+function sanitizeTranslationHtml(html: string): string {
+    return decodeEntities(html)
+        .split(/(<\/?[bi]>|<br\s*\/?>)/gi)
+        .map(part => /^(<\/?[bi]>|<br\s*\/?>)$/i.test(part) ? part.toLowerCase().replace(/<br\s*\/?>/, '<br/>') : escapeHtml(part))
+        .join('')
+        .trim();
+}
+
+function htmlToMarkdown(html: string): string {
+    return html
+        .replace(/<b>([\s\S]*?)<\/b>/g, '**$1**')
+        .replace(/<i>([\s\S]*?)<\/i>/g, '*$1*')
+        .replace(/<\/?[bi]>/g, '')
+        .replace(/<br\/>/g, '\n')
+        .replace(/&lt;/g, '<').replace(/&gt;/g, '>').replace(/&quot;/g, '"').replace(/&amp;/g, '&');
+}
+
+/**
+ * Orders a page's boxes for reading. Boxes spanning both halves of the page split it into
+ * bands; within a band the left column is read before the right column.
+ */
+function sortByReadingOrder(items: OverlayPositionData[]): OverlayPositionData[] {
+    const isFullWidth = (item: OverlayPositionData) => item.relativeRect.width > 0.55;
+    const byTop = [...items].sort((a, b) => a.relativeRect.top - b.relativeRect.top);
+
+    const ordered: OverlayPositionData[] = [];
+    let band: OverlayPositionData[] = [];
+    const flushBand = () => {
+        const center = (item: OverlayPositionData) => item.relativeRect.left + item.relativeRect.width / 2;
+        ordered.push(...band.filter(i => center(i) < 0.5), ...band.filter(i => center(i) >= 0.5));
+        band = [];
+    };
+    for (const item of byTop) {
+        if (isFullWidth(item)) {
+            flushBand();
+            ordered.push(item);
+        } else {
+            band.push(item);
+        }
+    }
+    flushBand();
+    return ordered;
+}
+
+// === Minimal ZIP writer (store only), used for EPUB ===
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+function crc32(data: Uint8Array): number {
+    let crc = 0xffffffff;
+    for (let i = 0; i < data.length; i++) crc = CRC_TABLE[(crc ^ data[i]) & 0xff] ^ (crc >>> 8);
+    return (crc ^ 0xffffffff) >>> 0;
+}
+
+/**
+ * Builds an uncompressed ZIP archive. EPUB requires the `mimetype` entry first and
+ * stored, which this satisfies as long as it is passed first.
+ */
+function buildZip(files: { name: string; content: string }[]): ArrayBuffer {
+    const encoder = new TextEncoder();
+    const localParts: Uint8Array[] = [];
+    const centralParts: Uint8Array[] = [];
+    let offset = 0;
+
+    for (const file of files) {
+        const name = encoder.encode(file.name);
+        const data = encoder.encode(file.content);
+        const crc = crc32(data);
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);
+        local.setUint16(4, 20, true);          // version needed
+        local.setUint16(6, 0x0800, true);      // UTF-8 names
+        local.setUint16(8, 0, true);           // stored
+        local.setUint32(14, crc, true);
+        local.setUint32(18, data.length, true);
+        local.setUint32(22, data.length, true);
+        local.setUint16(26, name.length, true);
+        localParts.push(new Uint8Array(local.buffer), name, data);
+
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, 0x02014b50, true);
+        central.setUint16(4, 20, true);
+        central.setUint16(6, 20, true);
+        central.setUint16(8, 0x0800, true);
+        central.setUint16(10, 0, true);
+        central.setUint32(16, crc, true);
+        central.setUint32(20, data.length, true);
+        central.setUint32(24, data.length, true);
+        central.setUint16(28, name.length, true);
+        central.setUint32(42, offset, true);
+        centralParts.push(new Uint8Array(central.buffer), name);
+
+        offset += 30 + name.length + data.length;
+    }
+
+    const centralSize = centralParts.reduce((sum, part) => sum + part.length, 0);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, files.length, true);
+    end.setUint16(10, files.length, true);
+    end.setUint32(12, centralSize, true);
+    end.setUint32(16, offset, true);
+
+    const parts = [...localParts, ...centralParts, new Uint8Array(end.buffer)];
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let position = 0;
+    for (const part of parts) {
+        result.set(part, position);
+        position += part.length;
+    }
+    return result.buffer;
+}
+
+/**
+ * Turns the saved overlay of a PDF into a clean bilingual reading document
+ * (Markdown, standalone HTML or EPUB) in one of three layouts.
+ */
+export class BilingualExporter {
+    private plugin: OpenRouterTranslatorPlugin;
+
+    constructor(plugin: OpenRouterTranslatorPlugin) {
+        this.plugin = plugin;
+    }
+
+    async export(pdfFile: TFile, format: ExportFormat, layout: ExportLayout): Promise<void> {
+        const saved = await this.plugin.storage.readSavedOverlayForFile(pdfFile);
+        if (!saved) {
+            new Notice('No saved translation found for this PDF.');
+            return;
+        }
+
+        const pages = this.collectPages(saved.overlay, layout);
+        const title = `${pdfFile.basename} (${this.plugin.translation.getTargetLangName()})`;
+        const path = this.getExportPath(pdfFile, format, layout);
+
+        try {
+            if (format === 'epub') {
+                await this.plugin.storage.writeBinaryFile(path, this.buildEpub(pdfFile, title, pages, layout));
+            } else {
+                const content = format === 'markdown'
+                    ? this.buildMarkdown(pdfFile, title, pages, layout)
+                    : this.buildHtml(pdfFile, title, pages, layout);
+                await this.plugin.storage.writeTextFile(path, content);
+            }
+            new Notice(`✅ Exported ${pages.length} page(s) to ${path}`);
+        } catch (error: any) {
+            console.error('Bilingual export failed:', error);
+            new Notice(`⚠️ Export failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Segments that failed to translate are left out when the original is printed next to
+     * the translation, and shown in the original otherwise.
+     */
+    private collectPages(overlay: SavedOverlay, layout: ExportLayout): ExportPage[] {
+        return Object.keys(overlay.pageOverlays)
+            .map(Number)
+            .sort((a, b) => a - b)
+            .map(page => ({
+                page,
+                blocks: sortByReadingOrder(overlay.pageOverlays[page])
+                    .map(item => ({
+                        original: (item.textContent || '').trim(),
+                        translationHtml: sanitizeTranslationHtml(unwrapFailedSegments(item.translatedText || '', layout === 'translation')),
+                    }))
+                    .filter(block => block.original || block.translationHtml),
+            }))
+            .filter(page => page.blocks.length > 0);
+    }
+
+    private getExportPath(pdfFile: TFile, format: ExportFormat, layout: ExportLayout): string {
+        const dir = (this.plugin.settings.storageLocation || pdfFile.parent?.path || '').replace(/\/+$/, '');
+        const suffix = layout === 'translation' ? 'translation' : `bilingual-${layout}`;
+        return normalizePath(`${dir && dir !== '/' ? dir + '/' : ''}${pdfFile.basename}.${suffix}.${FORMAT_EXTENSIONS[format]}`);
+    }
+
+    /**
+     * Link that opens the PDF at a page in Obsidian; works from exported HTML/EPUB files too.
+     */
+    private getPageUri(pdfFile: TFile, page: number): string {
+        const vault = encodeURIComponent(this.plugin.app.vault.getName());
+        return `obsidian://open?vault=${vault}&file=${encodeURIComponent(`${pdfFile.path}#page=${page}`)}`;
+    }
+
+    // === Markdown ===
+
+    private buildMarkdown(pdfFile: TFile, title: string, pages: ExportPage[], layout: ExportLayout): string {
+        let md = `# ${title}\n\nSource: [[${pdfFile.path}]]\n`;
+        const cell = (text: string) => text.replace(/\|/g, '\\|').replace(/\n/g, '<br>');
+
+        for (const { page, blocks } of pages) {
+            md += `\n## Page ${page}\n\n[[${pdfFile.path}#page=${page}|→ View page ${page}]]\n\n`;
+            if (layout === 'side-by-side') {
+                md += '| Original | Translation |\n| --- | --- |\n';
+                blocks.forEach(b => { md += `| ${cell(b.original)} | ${cell(htmlToMarkdown(b.translationHtml))} |\n`; });
+                continue;
+            }
+            for (const block of blocks) {
+                if (layout === 'interleaved' && block.original) {
+                    md += block.original.split('\n').map(line => `> ${line}`).join('\n') + '\n\n';
+                }
+                md += `${htmlToMarkdown(block.translationHtml).replace(/\n/g, '  \n')}\n\n`;
+            }
+        }
+        return md;
+    }
+
+    // === HTML / XHTML ===
+
+    private renderPageBody(pdfFile: TFile, { page, blocks }: ExportPage, layout: ExportLayout): string {
+        let html = `<section class="page" id="page-${page}">\n<h2><a href="${escapeHtml(this.getPageUri(pdfFile, page))}">Page ${page}</a></h2>\n`;
+        for (const block of blocks) {
+            const original = escapeHtml(block.original).replace(/\n/g, '<br/>');
+            if (layout === 'side-by-side') {
+                html += `<div class="pair"><p class="original">${original}</p><p class="translation">${block.translationHtml}</p></div>\n`;
+            } else {
+                if (layout === 'interleaved' && original) html += `<p class="original">${original}</p>\n`;
+                html += `<p class="translation">${block.translationHtml}</p>\n`;
+            }
+        }
+        return html + '</section>\n';
+    }
+
+    private static readonly STYLES = `
+body { font-family: Georgia, serif; line-height: 1.6; max-width: 60em; margin: 2em auto; padding: 0 1em; }
+h2 { border-bottom: 1px solid #ccc; font-size: 1.1em; margin-top: 2em; }
+h2 a { color: inherit; text-decoration: none; }
+.original { color: #666; font-size: 0.92em; }
+.pair { display: grid; grid-template-columns: 1fr 1fr; gap: 1.5em; }
+.pair p { margin: 0.4em 0; }
+`;
+
+    private buildHtml(pdfFile: TFile, title: string, pages: ExportPage[], layout: ExportLayout): string {
+        const toc = pages.map(p => `<a href="#page-${p.page}">${p.page}</a>`).join(' · ');
+        return `<!DOCTYPE html>
+<html lang="${escapeHtml(this.plugin.settings.targetLanguage)}">
+<head>
+<meta charset="utf-8"/>
+<title>${escapeHtml(title)}</title>
+<style>${BilingualExporter.STYLES}</style>
+</head>
+<body>
+<h1>${escapeHtml(title)}</h1>
+<nav>Pages: ${toc}</nav>
+${pages.map(page => this.renderPageBody(pdfFile, page, layout)).join('')}
+</body>
+</html>
+`;
+    }
+
+    // === EPUB ===
+
+    private buildEpub(pdfFile: TFile, title: string, pages: ExportPage[], layout: ExportLayout): ArrayBuffer {
+        const lang = escapeHtml(this.plugin.settings.targetLanguage);
+        const safeTitle = escapeHtml(title);
+        const id = `urn:uuid:${crypto.randomUUID()}`;
+        const xhtml = (heading: string, body: string) => `<?xml version="1.0" encoding="utf-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops" xml:lang="${lang}">
+<head><title>${heading}</title><link rel="stylesheet" href="style.css"/></head>
+<body>
+${body}
+</body>
+</html>
+`;
+
+        const chapters = pages.map(page => ({
+            file: `page-${page.page}.xhtml`,
+            page: page.page,
+            content: xhtml(`Page ${page.page}`, this.renderPageBody(pdfFile, page, layout)),
+        }));
+
+        const nav = xhtml(safeTitle, `<nav epub:type="toc" id="toc"><h1>${safeTitle}</h1><ol>
+${chapters.map(c => `<li><a href="${c.file}">Page ${c.page}</a></li>`).join('\n')}
+</ol></nav>`);
+
+        const opf = `<?xml version="1.0" encoding="utf-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" xml:lang="${lang}">
+<metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+<dc:identifier id="book-id">${id}</dc:identifier>
+<dc:title>${safeTitle}</dc:title>
+<dc:language>${lang}</dc:language>
+<meta property="dcterms:modified">${new Date().toISOString().replace(/\.\d+Z$/, 'Z')}</meta>
+</metadata>
+<manifest>
+<item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav"/>
+<item id="css" href="style.css" media-type="text/css"/>
+${chapters.map((c, i) => `<item id="p${i}" href="${c.file}" media-type="application/xhtml+xml"/>`).join('\n')}
+</manifest>
+<spine>
+${chapters.map((_, i) => `<itemref idref="p${i}"/>`).join('\n')}
+</spine>
+</package>
+`;
+
+        const container = `<?xml version="1.0" encoding="utf-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+<rootfiles><rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml"/></rootfiles>
+</container>
+`;
+
+        return buildZip([
+            { name: 'mimetype', content: 'application/epub+zip' },
+            { name: 'META-INF/container.xml', content: container },
+            { name: 'OEBPS/content.opf', content: opf },
+            { name: 'OEBPS/nav.xhtml', content: nav },
+            { name: 'OEBPS/style.css', content: BilingualExporter.STYLES },
+            ...chapters.map(c => ({ name: `OEBPS/${c.file}`, content: c.content })),
+        ]);
+    }
+}
+
+/**
+ * Asks for format and layout, then exports the PDF's saved translation.
+ */
+export class ExportTranslationModal extends Modal {
+    private plugin: OpenRouterTranslatorPlugin;
+    private file: TFile;
+    private format: ExportFormat = 'markdown';
+    private layout: ExportLayout = 'side-by-side';
+
+    constructor(app: App, plugin: OpenRouterTranslatorPlugin, file: TFile) {
+        super(app);
+        this.plugin = plugin;
+        this.file = file;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.titleEl.setText('Export Translation');
+        contentEl.createEl('p', { text: `File: ${this.file.basename}` });
+
+        new Setting(contentEl)
+            .setName('Format')
+            .addDropdown(dd => dd
+                .addOptions({ markdown: 'Markdown', html: 'HTML (standalone)', epub: 'EPUB' })
+                .setValue(this.format)
+                .onChange(v => { this.format = v as ExportFormat; }));
+
+        new Setting(contentEl)
+            .setName('Layout')
+            .addDropdown(dd => dd
+                .addOptions(LAYOUT_NAMES)
+                .setValue(this.layout)
+                .onChange(v => { this.layout = v as ExportLayout; }));
+
+        new Setting(contentEl)
+            .addButton(btn => btn
+                .setButtonText('Export')
+                .setCta()
+                .onClick(async () => {
+                    this.close();
+                    await this.plugin.exporter.export(this.file, this.format, this.layout);
+                }));
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
\ No newline at end of file
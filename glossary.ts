@@ -0,0 +1,256 @@
+// glossary.ts
+import { TFile, normalizePath } from 'obsidian';
+import type OpenRouterTranslatorPlugin from './main';
+import type { TranslationUnit } from './types';
+import { hashString } from './translation-memory';
+import { htmlToPlainText } from './html-text';
+
+/**
+ * A required translation for a term.
+ */
+export interface GlossaryEntry {
+    source: string;
+    target: string;
+    note?: string;
+}
+
+/**
+ * A translated line that is missing the required translation of a term found in its source.
+ */
+export interface GlossaryIssue {
+    lineIndex: number;
+    entry: GlossaryEntry;
+}
+
+/**
+ * The glossary that applies to one PDF, as loaded for one translation call.
+ */
+export interface LoadedGlossary {
+    entries: GlossaryEntry[];
+    /** Identifies the entries; empty when there are none. Included in cache keys. */
+    signature: string;
+}
+
+// === Parsing ===
+
+/**
+ * Splits one CSV line, honouring double-quoted fields and "" escapes.
+ */
+function splitCsvLine(line: string, delimiter: string): string[] {
+    const fields: string[] = [];
+    let current = '';
+    let inQuotes = false;
+    for (let i = 0; i < line.length; i++) {
+        const ch = line[i];
+        if (inQuotes) {
+            if (ch === '"' && line[i + 1] === '"') { current += '"'; i++; }
+            else if (ch === '"') inQuotes = false;
+            else current += ch;
+        } else if (ch === '"') {
+            inQuotes = true;
+        } else if (ch === delimiter) {
+            fields.push(current.trim());
+            current = '';
+        } else {
+            current += ch;
+        }
+    }
+    fields.push(current.trim());
+    return fields;
+}
+
+/**
+ * Parses a CSV (or semicolon/tab separated) term list: `source,target[,note]`.
+ * A first row of `source,target` style headers is skipped.
+ */
+export function parseCsvGlossary(content: string): GlossaryEntry[] {
+    const lines = content.split(/\r?\n/).filter(l => l.trim() && !l.trim().startsWith('#'));
+    if (lines.length === 0) return [];
+    const delimiter = lines[0].includes('\t') ? '\t' : (lines[0].includes(';') && !lines[0].includes(',') ? ';' : ',');
+
+    const entries: GlossaryEntry[] = [];
+    lines.forEach((line, index) => {
+        const [source, target, note] = splitCsvLine(line, delimiter);
+        if (!source || !target) return;
+        if (index === 0 && /^(source|term)$/i.test(source) && /^(target|translation)$/i.test(target)) return;
+        entries.push({ source, target, note: note || undefined });
+    });
+    return entries;
+}
+
+/**
+ * Parses a markdown term list. Accepts table rows (`| source | target | note |`)
+ * and list items (`- source = target`, `- source: target`, `- source -> target`, `- source → target`).
+ * Frontmatter and headings are ignored.
+ */
+export function parseMarkdownGlossary(content: string): GlossaryEntry[] {
+    const body = content.replace(/^---\n[\s\S]*?\n---\n?/, '');
+    const entries: GlossaryEntry[] = [];
+    let tableHeaderSeen = false;
+
+    for (const rawLine of body.split(/\r?\n/)) {
+        const line = rawLine.trim();
+        if (!line || line.startsWith('#')) continue;
+
+        if (line.startsWith('|')) {
+            const cells = line.replace(/^\||\|$/g, '').split('|').map(c => c.trim());
+            if (cells.every(c => /^:?-+:?$/.test(c))) continue; // separator row
+            if (!tableHeaderSeen) { tableHeaderSeen = true; continue; }
+            const [source, target, note] = cells;
+            if (source && target) entries.push({ source, target, note: note || undefined });
+            continue;
+        }
+
+        const item = line.match(/^[-*+]\s+(.+?)\s*(?:=|:|->|→)\s*(.+)$/);
+        if (item) {
+            const [target, note] = item[2].split(/\s+\/\/\s+/);
+            entries.push({ source: item[1].trim(), target: target.trim(), note: note?.trim() || undefined });
+        }
+    }
+    return entries;
+}
+
+export function parseGlossary(content: string, extension: string): GlossaryEntry[] {
+    return ['csv', 'tsv'].includes(extension.toLowerCase())
+        ? parseCsvGlossary(content)
+        : parseMarkdownGlossary(content);
+}
+
+// === Matching ===
+
+function escapeRegex(text: string): string {
+    return text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+/**
+ * Case-insensitive whole-word containment test. Word boundaries are only
+ * enforced on sides where the term itself starts/ends with a word character.
+ */
+function containsTerm(text: string, term: string): boolean {
+    const startBoundary = /^\w/.test(term) ? '(?<![\\p{L}\\p{N}_])' : '';
+    const endBoundary = /\w$/.test(term) ? '(?![\\p{L}\\p{N}_])' : '';
+    return new RegExp(`${startBoundary}${escapeRegex(term)}${endBoundary}`, 'iu').test(text);
+}
+
+/**
+ * Loads the global glossary (settings) and the per-PDF glossary (frontmatter of the
+ * PDF's translation file), and provides prompt injection and post-translation checks.
+ *
+ * Per-PDF glossaries are linked from the `.translations.md` frontmatter:
+ *   glossary: "[[Terms.csv]]"        (a single link or path, or a list of them)
+ * Entries from the per-PDF glossary override global entries for the same term.
+ */
+export class GlossaryManager {
+    private plugin: OpenRouterTranslatorPlugin;
+    private fileCache: Map<string, { mtime: number; entries: GlossaryEntry[] }> = new Map();
+
+    constructor(plugin: OpenRouterTranslatorPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Loads the glossary that applies to the given PDF (or the active file). Callers keep the
+     * result for the prompts and checks of their own translation call.
+     */
+    async loadForPdf(pdfFile?: TFile | null): Promise<LoadedGlossary> {
+        const pdf = pdfFile ?? this.plugin.app.workspace.getActiveFile();
+        const byTerm = new Map<string, GlossaryEntry>();
+
+        const addAll = (entries: GlossaryEntry[]) => entries.forEach(e => byTerm.set(e.source.toLowerCase(), e));
+
+        if (this.plugin.settings.glossaryPath) {
+            addAll(await this.readGlossaryFile(this.plugin.settings.glossaryPath, ''));
+        }
+        if (pdf && pdf.extension === 'pdf') {
+            for (const link of this.getLinkedGlossaries(pdf)) {
+                addAll(await this.readGlossaryFile(link.path, link.sourcePath));
+            }
+        }
+
+        // Longest terms first, so "neural network" is listed before "network"
+        const entries = Array.from(byTerm.values()).sort((a, b) => b.source.length - a.source.length);
+        const signature = entries.length > 0
+            ? hashString(entries.map(e => `${e.source}\u0000${e.target}`).join('\n'))
+            : '';
+        return { entries, signature };
+    }
+
+    private getLinkedGlossaries(pdf: TFile): { path: string; sourcePath: string }[] {
+        const mdPath = this.plugin.pdfToMdMap.get(pdf.path);
+        if (!mdPath) return [];
+        const mdFile = this.plugin.app.vault.getAbstractFileByPath(mdPath);
+        if (!(mdFile instanceof TFile)) return [];
+
+        const raw = this.plugin.app.metadataCache.getFileCache(mdFile)?.frontmatter?.['glossary'];
+        const values: unknown[] = Array.isArray(raw) ? raw : raw ? [raw] : [];
+        return values
+            .filter((v): v is string => typeof v === 'string' && v.trim().length > 0)
+            .map(v => ({ path: v.trim().replace(/^\[\[|\]\]$/g, '').split('|')[0].trim(), sourcePath: mdFile.path }));
+    }
+
+    private async readGlossaryFile(linkPath: string, sourcePath: string): Promise<GlossaryEntry[]> {
+        const { vault, metadataCache } = this.plugin.app;
+        const resolved = metadataCache.getFirstLinkpathDest(linkPath, sourcePath)
+            ?? vault.getAbstractFileByPath(normalizePath(linkPath));
+        if (!(resolved instanceof TFile)) {
+            this.plugin.logDebug(`Glossary file not found: ${linkPath}`);
+            return [];
+        }
+
+        const cached = this.fileCache.get(resolved.path);
+        if (cached && cached.mtime === resolved.stat.mtime) return cached.entries;
+
+        try {
+            const entries = parseGlossary(await vault.read(resolved), resolved.extension);
+            this.fileCache.set(resolved.path, { mtime: resolved.stat.mtime, entries });
+            this.plugin.logDebug(`Loaded ${entries.length} glossary entries from ${resolved.path}`);
+            return entries;
+        } catch (error) {
+            console.error(`Failed to read glossary ${resolved.path}:`, error);
+            return [];
+        }
+    }
+
+    // === Prompt Injection ===
+
+    /**
+     * Returns the glossary entries whose source term occurs in the given text.
+     */
+    getMatchingEntries(glossary: LoadedGlossary, text: string): GlossaryEntry[] {
+        if (glossary.entries.length === 0) return [];
+        const plain = htmlToPlainText(text);
+        return glossary.entries.filter(entry => containsTerm(plain, entry.source));
+    }
+
+    /**
+     * Formats the entries that occur in the text for the {glossary} prompt placeholder.
+     * Returns an empty string when no term matches, so prompts stay unchanged.
+     */
+    formatForPrompt(glossary: LoadedGlossary, text: string): string {
+        const matches = this.getMatchingEntries(glossary, text);
+        if (matches.length === 0) return '';
+        const lines = matches.map(e => `- ${e.source} → ${e.target}${e.note ? ` (${e.note})` : ''}`);
+        return `Use these required translations for the following terms:\n${lines.join('\n')}`;
+    }
+
+    // === Checking ===
+
+    /**
+     * Flags translated lines that miss the required translation of a term occurring in their source.
+     */
+    checkTranslations(glossary: LoadedGlossary, units: TranslationUnit[], translatedLines: string[]): GlossaryIssue[] {
+        if (glossary.entries.length === 0) return [];
+        const issues: GlossaryIssue[] = [];
+        units.forEach((unit, i) => {
+            const line = translatedLines[i];
+            if (!line || line === 'Translation missing') return;
+            const plainLine = htmlToPlainText(line);
+            for (const entry of this.getMatchingEntries(glossary, unit.text)) {
+                if (!plainLine.toLowerCase().includes(entry.target.toLowerCase())) {
+                    issues.push({ lineIndex: i, entry });
+                }
+            }
+        });
+        return issues;
+    }
+}
\ No newline at end of file
@@ -0,0 +1,135 @@
+// grid-detector.ts
+// Projection-profile grid detection: finds full-width horizontal and full-height
+// vertical whitespace gutters on a page from the rects of its text spans.
+import { ItemRect } from './TextItem';
+
+export interface GridLine {
+  position: number; // y for horizontal lines, x for vertical lines
+  start: number;
+  end: number;
+}
+
+export interface GridAnalysis {
+  horizontalLines: GridLine[];
+  verticalLines: GridLine[];
+}
+
+export interface GridSettings {
+  minHorizontalGapLineHeightMultiplier: number;
+  projectionProfileThreshold: number;
+}
+
+interface ProfileGap {
+  start: number;
+  length: number;
+}
+
+const defaultGridSettings: GridSettings = {
+  minHorizontalGapLineHeightMultiplier: 1.5,
+  projectionProfileThreshold: 1, // A very low threshold; any pixel presence counts.
+};
+
+export class GridDetector {
+  private settings: GridSettings;
+
+  constructor(options: Partial<GridSettings> = {}) {
+    this.settings = { ...defaultGridSettings, ...options };
+  }
+
+  /**
+   * Analyzes a set of rectangles to detect grid-like structures.
+   *
+   * @param rects - The bounding rectangles of all text spans on the page.
+   * @param pageRect - The bounding rectangle for the entire page.
+   * @param estimatedLineHeight - The estimated line height, used for dynamic thresholding.
+   * @returns A GridAnalysis object, or null if no grid is detected.
+   */
+  public detectGrid(rects: ItemRect[], pageRect: ItemRect, estimatedLineHeight: number): GridAnalysis | null {
+    if (!rects || rects.length < 2) {
+      return null;
+    }
+
+    const horizontalProfile = this.createProjectionProfile(rects, pageRect, 'horizontal');
+    const verticalProfile = this.createProjectionProfile(rects, pageRect, 'vertical');
+
+    const minGapHeight = estimatedLineHeight * this.settings.minHorizontalGapLineHeightMultiplier;
+    const horizontalGaps = this.findGapsInProfile(horizontalProfile, minGapHeight);
+    const verticalGaps = this.findGapsInProfile(verticalProfile, estimatedLineHeight);
+
+    const horizontalLines = horizontalGaps.map(gap => ({
+      position: pageRect.top + gap.start + gap.length / 2, // Midpoint of the gap
+      start: pageRect.left,
+      end: pageRect.right,
+    }));
+    const verticalLines = verticalGaps.map(gap => ({
+      position: pageRect.left + gap.start + gap.length / 2, // Midpoint
+      start: pageRect.top,
+      end: pageRect.bottom,
+    }));
+
+    if (horizontalLines.length === 0) {
+      return null;
+    }
+    return { horizontalLines, verticalLines };
+  }
+
+  /**
+   * Creates a projection profile (a histogram of pixel occupancy).
+   * @param rects - The rectangles to project.
+   * @param pageRect - The bounds of the page.
+   * @param orientation - 'horizontal' to scan rows, 'vertical' to scan columns.
+   * @returns An array of numbers representing the profile.
+   */
+  private createProjectionProfile(rects: ItemRect[], pageRect: ItemRect, orientation: 'horizontal' | 'vertical'): number[] {
+    const isHorizontal = orientation === 'horizontal';
+    const profileSize = Math.ceil(isHorizontal ? pageRect.height : pageRect.width);
+    const profile: number[] = new Array(profileSize).fill(0);
+    const offset = isHorizontal ? pageRect.top : pageRect.left;
+
+    for (const rect of rects) {
+      const start = Math.floor((isHorizontal ? rect.top : rect.left) - offset);
+      const end = Math.ceil((isHorizontal ? rect.bottom : rect.right) - offset);
+      const value = isHorizontal ? rect.width : rect.height;
+      for (let i = start; i < end; i++) {
+        if (i >= 0 && i < profileSize) {
+          profile[i] += value;
+        }
+      }
+    }
+    return profile;
+  }
+
+  /**
+   * Finds continuous sequences of near-zero values in a profile.
+   * @param profile - The projection profile array.
+   * @param minGapSize - The minimum length for a gap to be considered significant.
+   * @returns An array of detected gaps with their start and length.
+   */
+  private findGapsInProfile(profile: number[], minGapSize: number): ProfileGap[] {
+    const gaps: ProfileGap[] = [];
+    let gapStart = -1;
+
+    for (let i = 0; i < profile.length; i++) {
+      if (profile[i] < this.settings.projectionProfileThreshold) {
+        if (gapStart === -1) {
+          gapStart = i;
+        }
+      } else if (gapStart !== -1) {
+        const gapLength = i - gapStart;
+        if (gapLength >= minGapSize) {
+          gaps.push({ start: gapStart, length: gapLength });
+        }
+        gapStart = -1;
+      }
+    }
+
+    // A gap running to the end of the page
+    if (gapStart !== -1) {
+      const gapLength = profile.length - gapStart;
+      if (gapLength >= minGapSize) {
+        gaps.push({ start: gapStart, length: gapLength });
+      }
+    }
+    return gaps;
+  }
+}
\ No newline at end of file
@@ -0,0 +1,183 @@
+// headless.ts
+import { TFile, loadPdfJs } from 'obsidian';
+import type OpenRouterTranslatorPlugin from './main';
+import type { PageItems } from './processing';
+import { makeRect, type TextItem } from './TextItem';
+
+// Constants
+const HEADLESS_RENDER_SCALE = 1.5; // Close to the viewer's usual zoom, which the layout thresholds are tuned for
+const DEFAULT_ASCENT = 0.8; // Share of the font height above the baseline when pdf.js reports none
+const TEXT_LAYER_COLOR = 'rgba(0, 0, 0, 0)'; // What the viewer's transparent text layer spans report
+const BOLD_FONT_RE = /bold|black|heavy|semibold|demi/i;
+const ITALIC_FONT_RE = /italic|oblique/i;
+
+interface FontStyle {
+    bold: boolean;
+    italic: boolean;
+}
+
+/**
+ * Translates pages of a PDF without the PDF viewer. Pages are loaded with pdf.js and
+ * their text content becomes TextItems in viewport coordinates, which go through the
+ * same layout stack as a rendered viewer page. Results are written straight to the
+ * translation file.
+ *
+ * One session serves one job: open(), translatePage() for each page, close().
+ */
+export class HeadlessPdfSession {
+    private plugin: OpenRouterTranslatorPlugin;
+    private pdfjs: any = null;
+    private pdfDoc: any = null;
+    private loadedPages = new Map<number, PageItems>();
+    readonly file: TFile;
+    numPages = 0;
+
+    constructor(plugin: OpenRouterTranslatorPlugin, file: TFile) {
+        this.plugin = plugin;
+        this.file = file;
+    }
+
+    async open(): Promise<void> {
+        this.pdfjs = await loadPdfJs();
+        const data = new Uint8Array(await this.plugin.app.vault.readBinary(this.file));
+        this.pdfDoc = await this.pdfjs.getDocument({ data }).promise;
+        this.numPages = this.pdfDoc.numPages;
+        this.plugin.logDebug(`Headless session opened for ${this.file.path} (${this.numPages} pages).`);
+    }
+
+    /**
+     * Translates one page and saves its overlays. Returns the number of saved overlays
+     * (0 for pages without text). `onContextTokens` receives the document context tokens spent.
+     */
+    async translatePage(pageNumber: number, onContextTokens?: (tokens: number) => void): Promise<number> {
+        if (!this.pdfDoc) throw new Error('Headless session is not open.');
+
+        const page = await this.loadPage(pageNumber);
+        // A paragraph running over the page break can only be stitched with the next page's text
+        const nextPage = this.plugin.settings.stitchCrossPageParagraphs && pageNumber < this.numPages
+            ? await this.loadPage(pageNumber + 1)
+            : null;
+        this.dropPagesBefore(pageNumber);
+
+        if (page.items.length === 0) {
+            this.plugin.logDebug(`Headless: page ${pageNumber} has no text.`);
+            return 0;
+        }
+
+        const translation = await this.plugin.processor.translatePageItems(page, { pageNumber, pdfFile: this.file, nextPage, onContextTokens });
+        if (!translation) return 0;
+
+        const pageArea = makeRect(0, 0, page.size.width, page.size.height);
+        const items = this.plugin.processor.buildPositionDataFromTranslation(translation, pageNumber, HEADLESS_RENDER_SCALE, pageArea);
+        if (items.length === 0) throw new Error('No overlay data could be built for this page.');
+
+        await this.plugin.storage.updatePageOverlaysAndWrite(this.file, { [pageNumber]: items });
+        return items.length;
+    }
+
+    /**
+     * Counts the characters of text on a page range, for cost estimates. Reads only the
+     * text content; nothing is rendered.
+     */
+    async countTextCharacters(startPage: number, endPage: number): Promise<number> {
+        if (!this.pdfDoc) throw new Error('Headless session is not open.');
+        let chars = 0;
+        for (let pageNumber = Math.max(1, startPage); pageNumber <= Math.min(endPage, this.numPages); pageNumber++) {
+            const page = await this.pdfDoc.getPage(pageNumber);
+            try {
+                const content = await page.getTextContent();
+                chars += content.items.reduce((sum: number, item: any) => sum + (typeof item.str === 'string' ? item.str.trim().length : 0), 0);
+            } finally {
+                page.cleanup();
+            }
+        }
+        return chars;
+    }
+
+    close(): void {
+        this.loadedPages.clear();
+        this.pdfDoc?.destroy();
+        this.pdfDoc = null;
+    }
+
+    // === Page Loading ===
+
+    private dropPagesBefore(pageNumber: number): void {
+        for (const n of this.loadedPages.keys()) {
+            if (n < pageNumber) this.loadedPages.delete(n);
+        }
+    }
+
+    /**
+     * Reads a page's text content into text items, positioned and sized like pdf.js
+     * positions its text layer spans at HEADLESS_RENDER_SCALE.
+     */
+    private async loadPage(pageNumber: number): Promise<PageItems> {
+        const existing = this.loadedPages.get(pageNumber);
+        if (existing) return existing;
+
+        const page = await this.pdfDoc.getPage(pageNumber);
+        try {
+            const viewport = page.getViewport({ scale: HEADLESS_RENDER_SCALE });
+            const content = await page.getTextContent();
+            const textItems = content.items.filter((item: any) => typeof item.str === 'string' && item.str.trim());
+            const fontStyles = await this.loadFontStyles(page, new Set(textItems.map((item: any) => item.fontName)));
+
+            const items: TextItem[] = [];
+            for (const item of textItems) {
+                const textItem = this.toTextItem(item, content.styles[item.fontName] || {}, fontStyles.get(item.fontName), viewport);
+                if (textItem) items.push(textItem);
+            }
+
+            const loaded: PageItems = { items, size: { width: viewport.width, height: viewport.height } };
+            this.loadedPages.set(pageNumber, loaded);
+            return loaded;
+        } finally {
+            page.cleanup();
+        }
+    }
+
+    private toTextItem(item: any, style: any, fontStyle: FontStyle | undefined, viewport: any): TextItem | null {
+        const tx = this.pdfjs.Util.transform(viewport.transform, item.transform);
+        // Overlays are axis-aligned boxes, so rotated and vertical text is left out
+        if (style.vertical || Math.abs(Math.atan2(tx[1], tx[0])) > 0.01) return null;
+
+        const fontHeight = Math.hypot(tx[2], tx[3]);
+        const ascent = style.ascent ? style.ascent : style.descent ? 1 + style.descent : DEFAULT_ASCENT;
+        const width = item.width * viewport.scale;
+        if (fontHeight <= 0 || width <= 0) return null;
+
+        return {
+            text: item.str,
+            rect: makeRect(tx[4], tx[5] - fontHeight * ascent, width, fontHeight),
+            fontFamily: style.fontFamily || 'sans-serif',
+            fontSize: fontHeight,
+            fontWeight: fontStyle?.bold ? 700 : 400,
+            fontStyle: fontStyle?.italic ? 'italic' : 'normal',
+            color: TEXT_LAYER_COLOR,
+        };
+    }
+
+    /**
+     * Reads bold/italic from the page's font objects. pdf.js only resolves fonts while
+     * building the operator list; without them all text is treated as regular.
+     */
+    private async loadFontStyles(page: any, fontNames: Set<string>): Promise<Map<string, FontStyle>> {
+        const styles = new Map<string, FontStyle>();
+        try {
+            await page.getOperatorList();
+            for (const name of fontNames) {
+                if (!page.commonObjs.has(name)) continue;
+                const font = page.commonObjs.get(name);
+                const fullName = String(font?.name || '');
+                styles.set(name, {
+                    bold: !!font?.bold || !!font?.black || BOLD_FONT_RE.test(fullName),
+                    italic: !!font?.italic || ITALIC_FONT_RE.test(fullName),
+                });
+            }
+        } catch (error) {
+            this.plugin.logDebug('Headless: could not read font styles.', error);
+        }
+        return styles;
+    }
+}
\ No newline at end of file
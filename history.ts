@@ -0,0 +1,141 @@
+// history.ts
+import { App, ButtonComponent, Modal, Notice, sanitizeHTMLToDom } from 'obsidian';
+import type OpenRouterTranslatorPlugin from './main';
+import type { OverlayPositionData, RevisionInfo, TranslationRevision } from './types';
+import { OVERLAY_ID_ATTRIBUTE } from './storage';
+
+// Constants
+export const REVISION_ATTRIBUTE = 'data-revision'; // Overlay attribute holding the RevisionInfo of its text
+const MAX_HISTORY = 10; // Earlier translations kept per item; older ones are dropped
+
+/**
+ * Reads the revision stored on an overlay element, for building its saved data.
+ */
+export function readRevisionAttribute(el: HTMLElement): Pick<OverlayPositionData, 'revision'> {
+    const raw = el.getAttribute(REVISION_ATTRIBUTE);
+    if (!raw) return {};
+    try {
+        return { revision: JSON.parse(raw) };
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Stores where an overlay's current text came from; it is saved with the overlay.
+ */
+export function setRevisionAttribute(el: HTMLElement, revision?: RevisionInfo): void {
+    if (revision) el.setAttribute(REVISION_ATTRIBUTE, JSON.stringify(revision));
+    else el.removeAttribute(REVISION_ATTRIBUTE);
+}
+
+/**
+ * Returns `next` with the history of `previous`, the saved version of the same item.
+ * When the text changed, the previous text is added to the history.
+ */
+export function recordRevision(previous: OverlayPositionData, next: OverlayPositionData): OverlayPositionData {
+    const history = next.history ?? previous.history ?? [];
+    const revision = next.revision ?? previous.revision;
+    if (!previous.translatedText || previous.translatedText === next.translatedText) {
+        return { ...next, revision, history: history.length > 0 ? history : undefined };
+    }
+    const entry: TranslationRevision = { source: 'machine', ...previous.revision, translatedText: previous.translatedText };
+    return { ...next, revision, history: [...history, entry].slice(-MAX_HISTORY) };
+}
+
+function sourceKey(item: OverlayPositionData): string {
+    return (item.textContent || '').replace(/<[^>]+>/g, ' ').replace(/\s+/g, ' ').trim();
+}
+
+/**
+ * Matches the new items of a page with its saved items, by id or else by identical source text,
+ * so that a retranslated page keeps each item's id and history.
+ */
+export function carryOverHistory(previous: OverlayPositionData[], next: OverlayPositionData[]): OverlayPositionData[] {
+    const unmatched = new Set(previous);
+    const matchFor = (item: OverlayPositionData) => {
+        const byId = item.id ? previous.find(old => old.id === item.id) : undefined;
+        if (byId) return unmatched.has(byId) ? byId : undefined;
+        const key = sourceKey(item);
+        return key ? [...unmatched].find(old => sourceKey(old) === key) : undefined;
+    };
+    return next.map(item => {
+        const match = matchFor(item);
+        if (!match) return item;
+        unmatched.delete(match);
+        return recordRevision(match, { ...item, id: match.id ?? item.id });
+    });
+}
+
+function describeRevision(revision: RevisionInfo | undefined): string {
+    if (!revision) return 'Unknown origin';
+    const source = { machine: 'Machine translation', manual: 'Manual edit', import: 'Import' }[revision.source] ?? revision.source;
+    const parts = [source];
+    if (revision.model) parts.push(revision.model);
+    parts.push(revision.timestamp ? new Date(revision.timestamp).toLocaleString() : 'date unknown');
+    return parts.join(' · ');
+}
+
+/**
+ * Lists the current and earlier translations of a saved overlay, newest first,
+ * and restores the one the user picks.
+ */
+export class RevisionHistoryModal extends Modal {
+    private plugin: OpenRouterTranslatorPlugin;
+    private overlayEl: HTMLElement;
+
+    constructor(app: App, plugin: OpenRouterTranslatorPlugin, overlayEl: HTMLElement) {
+        super(app);
+        this.plugin = plugin;
+        this.overlayEl = overlayEl;
+    }
+
+    async onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText('Translation History');
+        contentEl.createEl('p', { text: 'Loading...' });
+
+        const pdfFile = this.app.workspace.getActiveFile();
+        const id = this.overlayEl.getAttribute(OVERLAY_ID_ATTRIBUTE);
+        const pageNumber = parseInt(this.overlayEl.closest<HTMLElement>('.page')?.dataset.pageNumber || '0', 10);
+        const saved = pdfFile && id ? await this.plugin.storage.readSavedOverlayForFile(pdfFile) : null;
+        const item = saved?.overlay.pageOverlays[pageNumber]?.find(entry => entry.id === id);
+        contentEl.empty();
+        if (!item) {
+            contentEl.createEl('p', { text: 'This overlay is not saved yet. Save the page to start its history.' });
+            return;
+        }
+
+        const current = contentEl.createDiv({ cls: 'translator-job-row' });
+        current.createEl('h4', { text: `Current: ${describeRevision(item.revision)}` });
+        current.createDiv().appendChild(sanitizeHTMLToDom(item.translatedText));
+
+        const history = [...(item.history ?? [])].reverse();
+        if (history.length === 0) {
+            contentEl.createEl('p', { text: 'No earlier translations.' });
+            return;
+        }
+        for (const entry of history) {
+            const row = contentEl.createDiv({ cls: 'translator-job-row' });
+            const header = row.createDiv({ cls: 'translator-button-container' });
+            header.createEl('h4', { text: describeRevision(entry) });
+            new ButtonComponent(header).setButtonText('Revert').onClick(async () => {
+                this.close();
+                const inner = this.overlayEl.querySelector('div');
+                if (!inner || !this.overlayEl.isConnected) {
+                    new Notice('⚠️ The overlay is no longer shown.');
+                    return;
+                }
+                const { translatedText, ...revision } = entry;
+                inner.empty();
+                inner.appendChild(sanitizeHTMLToDom(translatedText));
+                await this.plugin.overlay.saveEditedOverlay(this.overlayEl, revision);
+            });
+            row.createDiv().appendChild(sanitizeHTMLToDom(entry.translatedText));
+        }
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
\ No newline at end of file
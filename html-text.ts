@@ -0,0 +1,20 @@
+// html-text.ts
+// Helpers for the small HTML subset that overlay texts are stored in (<b>, <i>, <br>
+// and the entities escapeHtml produces).
+
+export function escapeHtml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#039;');
+}
+
+export function decodeEntities(text: string): string {
+    return text
+        .replace(/&nbsp;/g, ' ').replace(/&lt;/g, '<').replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"').replace(/&#0?39;/g, "'").replace(/&amp;/g, '&');
+}
+
+/**
+ * Plain text of an overlay's HTML, with line breaks turned into spaces and whitespace collapsed.
+ */
+export function htmlToPlainText(html: string): string {
+    return decodeEntities(html.replace(/<br\s*\/?>/gi, ' ').replace(/<[^>]+>/g, '')).replace(/\s+/g, ' ').trim();
+}
\ No newline at end of file
@@ -0,0 +1,608 @@
+// job-queue.ts
+import { App, ButtonComponent, Modal, Notice, TFile } from 'obsidian';
+import type OpenRouterTranslatorPlugin from './main';
+import { HeadlessPdfSession } from './headless';
+import { DEFAULT_RATE_LIMITS } from './providers';
+import type { RateLimitSettings } from './types';
+
+// Constants
+const MAX_PAGE_ATTEMPTS = 3;
+const RETRY_BASE_DELAY = 1500; // ms, doubled after each failed attempt
+const SPRINT_DELAY = 0; // No time window: the provider's rate limiter paces the requests
+const MAX_KEPT_OVERLAYS = 5; // Viewer mode: overlays left in the DOM while a job runs
+
+export type JobStatus = 'queued' | 'running' | 'paused' | 'done' | 'cancelled';
+
+/**
+ * A batch translation of a page range. Stored in plugin data and updated after
+ * every page, so a job interrupted by a restart continues with its pending pages.
+ */
+export interface TranslationJob {
+    id: string;
+    pdfPath: string;
+    startPage: number;
+    endPage: number;
+    pending: number[];
+    done: number[];
+    failed: { page: number; error: string }[];
+    status: JobStatus;
+    /** Delay between pages in ms when the job is spread over a time window; unused when the provider has a per-minute quota. */
+    pacingDelay: number;
+    contextTokens: number;
+    createdAt: number;
+}
+
+function isUnfinished(job: TranslationJob): boolean {
+    return job.status === 'queued' || job.status === 'running' || job.status === 'paused';
+}
+
+function jobName(job: TranslationJob): string {
+    return job.pdfPath.split('/').pop()?.replace(/\.pdf$/i, '') || job.pdfPath;
+}
+
+/**
+ * Runs batch translation jobs one after another. Pages are translated in the
+ * background with HeadlessPdfSession, several at a time under the provider's rate
+ * limiter, or one by one in the PDF viewer when headless batch translation is turned
+ * off. Progress is shown in the status bar.
+ */
+export class TranslationJobQueue {
+    private plugin: OpenRouterTranslatorPlugin;
+    private jobs: TranslationJob[] = [];
+    private isRunning = false;
+    private isUnloaded = false;
+    private progressMessage = '';
+    private statusBarEl: HTMLElement | null = null;
+    private listeners = new Set<() => void>();
+
+    // Wake the page workers from their pacing or retry delays when a job is paused or cancelled
+    private wakers = new Set<() => void>();
+
+    // Viewer mode only
+    private translationCache = new Map<number, string>(); // Keeps translations whose overlay failed, for the retry
+    private activeOverlays: HTMLElement[] = [];
+
+    constructor(plugin: OpenRouterTranslatorPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Restores saved jobs. Jobs that were running or queued when Obsidian closed come
+     * back paused, so nothing is sent to the API until the user resumes.
+     */
+    async load(): Promise<void> {
+        const data = await this.plugin.loadData() || {};
+        this.jobs = Array.isArray(data.jobs) ? data.jobs : [];
+        let interrupted = 0;
+        for (const job of this.jobs) {
+            if (job.status === 'running' || job.status === 'queued') {
+                job.status = 'paused';
+                interrupted++;
+            }
+        }
+        if (interrupted > 0) {
+            new Notice(`⏸ ${interrupted} batch translation job(s) were interrupted. Use "Resume batch translation" to continue.`, 8000);
+        }
+    }
+
+    attachStatusBar(el: HTMLElement): void {
+        this.statusBarEl = el;
+        el.addClass('mod-clickable');
+        el.addEventListener('click', () => new JobQueueModal(this.plugin.app, this.plugin).open());
+        this.notifyChanged();
+    }
+
+    unload(): void {
+        this.isUnloaded = true;
+        this.interruptDelay();
+        this.listeners.clear();
+    }
+
+    getJobs(): readonly TranslationJob[] {
+        return this.jobs;
+    }
+
+    get currentProgress(): string {
+        return this.progressMessage;
+    }
+
+    hasUnfinishedJobs(): boolean {
+        return this.jobs.some(isUnfinished);
+    }
+
+    /** Subscribes to job changes. Returns the unsubscribe function. */
+    onChange(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    // === Job Control ===
+
+    async enqueue(pdfFile: TFile, startPage: number, endPage: number, pacingDelay = SPRINT_DELAY): Promise<TranslationJob> {
+        const job: TranslationJob = {
+            id: `${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`,
+            pdfPath: pdfFile.path,
+            startPage,
+            endPage,
+            pending: Array.from({ length: endPage - startPage + 1 }, (_, i) => startPage + i),
+            done: [],
+            failed: [],
+            status: 'queued',
+            pacingDelay,
+            contextTokens: 0,
+            createdAt: Date.now(),
+        };
+        this.jobs.push(job);
+        await this.persist();
+        void this.run();
+        return job;
+    }
+
+    /** Pauses the running job after the pages in progress, and holds all queued jobs. */
+    async pause(): Promise<boolean> {
+        const affected = this.jobs.filter(job => job.status === 'running' || job.status === 'queued');
+        if (affected.length === 0) return false;
+        affected.forEach(job => job.status = 'paused');
+        this.interruptDelay();
+        await this.persist();
+        return true;
+    }
+
+    async resume(): Promise<boolean> {
+        const paused = this.jobs.filter(job => job.status === 'paused');
+        if (paused.length === 0) return false;
+        paused.forEach(job => job.status = 'queued');
+        await this.persist();
+        void this.run();
+        return true;
+    }
+
+    /**
+     * Cancels a job, or the first unfinished one when no id is given. Pages already
+     * translated stay saved.
+     */
+    async cancel(jobId?: string): Promise<TranslationJob | null> {
+        const job = jobId ? this.jobs.find(j => j.id === jobId) : this.jobs.find(isUnfinished);
+        if (!job || !isUnfinished(job)) return null;
+        job.status = 'cancelled';
+        this.interruptDelay();
+        await this.persist();
+        return job;
+    }
+
+    async clearFinished(): Promise<void> {
+        this.jobs = this.jobs.filter(isUnfinished);
+        await this.persist();
+    }
+
+    // === Runner ===
+
+    private async run(): Promise<void> {
+        if (this.isRunning) return;
+        this.isRunning = true;
+        try {
+            let job: TranslationJob | undefined;
+            while (!this.isUnloaded && (job = this.jobs.find(j => j.status === 'queued'))) {
+                await this.runJob(job);
+            }
+        } finally {
+            this.isRunning = false;
+            this.progressMessage = '';
+            this.notifyChanged();
+        }
+    }
+
+    private async runJob(job: TranslationJob): Promise<void> {
+        const pdfFile = this.plugin.app.vault.getAbstractFileByPath(job.pdfPath);
+        if (!(pdfFile instanceof TFile)) {
+            job.status = 'cancelled';
+            await this.persist();
+            new Notice(`⚠️ Batch translation cancelled: ${job.pdfPath} no longer exists.`);
+            return;
+        }
+
+        job.status = 'running';
+        await this.persist();
+
+        let session: HeadlessPdfSession | null = null;
+        let pdfLeaf: any = null;
+        try {
+            if (this.plugin.settings.headlessBatchTranslation) {
+                session = await this.openSession(pdfFile);
+                job.pending = job.pending.filter(page => page <= session!.numPages);
+            } else {
+                pdfLeaf = await this.openViewer(pdfFile);
+            }
+        } catch (err: any) {
+            job.status = 'paused';
+            await this.persist();
+            new Notice(`⚠️ ${err.message} The job was paused.`, 7000);
+            return;
+        }
+
+        // With a per-minute quota the rate limiter paces the requests, so the time window's
+        // fixed delay is dropped. Background jobs translate as many pages at once as the
+        // provider allows requests in flight; paced jobs and viewer mode go page by page.
+        const limits = this.getProviderLimits();
+        const pacingDelay = limits.requestsPerMinute > 0 || limits.tokensPerMinute > 0 ? SPRINT_DELAY : job.pacingDelay;
+        const workerCount = session && pacingDelay === SPRINT_DELAY ? Math.max(1, limits.maxConcurrency) : 1;
+        const queue = [...job.pending];
+        const total = job.endPage - job.startPage + 1;
+        let position = job.done.length + job.failed.length;
+
+        const runWorker = async (): Promise<void> => {
+            while (queue.length > 0 && job.status === 'running' && !this.isUnloaded) {
+                if (this.plugin.usage.isOverBudget()) {
+                    new Notice(`⏸ Monthly budget of $${this.plugin.settings.monthlyBudget} reached. Batch translation paused; raise the budget in settings to resume.`, 10000);
+                    await this.pause();
+                    return;
+                }
+                const pageNum = queue.shift()!;
+                const progressPrefix = `[${++position}/${total}]`;
+                this.updateProgress(`${progressPrefix} 🔄 Processing page ${pageNum}...`);
+
+                try {
+                    job.contextTokens += await this.retryWithBackoff(job, pageNum, () => session
+                        ? this.translatePageHeadless(session, pageNum, progressPrefix)
+                        : this.translatePageInViewer(job, pdfLeaf, pageNum, progressPrefix));
+                    job.done.push(pageNum);
+                    this.updateProgress(`${progressPrefix} ✅ Page ${pageNum} complete.`);
+                } catch (err: any) {
+                    // A page interrupted by pause or cancel stays pending
+                    if (job.status !== 'running' || this.isUnloaded) return;
+                    console.error(`Page ${pageNum} failed permanently after all retries:`, err);
+                    job.failed.push({ page: pageNum, error: err.message || 'Unknown error' });
+                    this.updateProgress(`${progressPrefix} ❌ Page ${pageNum} failed: ${err.message || 'Unknown error'}`);
+                }
+                job.pending = job.pending.filter(page => page !== pageNum);
+                this.translationCache.delete(pageNum);
+                await this.persist();
+
+                if (queue.length > 0 && job.status === 'running' && pacingDelay > SPRINT_DELAY) {
+                    if (pacingDelay > 1000) {
+                        this.updateProgress(`Pacing... Next page in ${Math.round(pacingDelay / 1000)}s`);
+                    }
+                    await this.delay(pacingDelay);
+                }
+            }
+        };
+
+        try {
+            await Promise.all(Array.from({ length: workerCount }, () => runWorker()));
+        } finally {
+            session?.close();
+            this.translationCache.clear();
+            this.activeOverlays.forEach(overlay => overlay.parentElement?.removeChild(overlay));
+            this.activeOverlays = [];
+        }
+
+        if (!this.isUnloaded) await this.reportJobEnd(job);
+    }
+
+    /**
+     * Marks a job whose pages are all processed as done, and tells the user how the run ended.
+     */
+    private async reportJobEnd(job: TranslationJob): Promise<void> {
+        if (job.status === 'running' && job.pending.length === 0) {
+            job.status = 'done';
+            await this.persist();
+            const contextNote = job.contextTokens > 0 ? ` Context used ~${job.contextTokens} extra tokens.` : '';
+            const total = job.done.length + job.failed.length;
+            new Notice(`🏁 ${jobName(job)}: ${job.done.length}/${total} page(s) succeeded${job.failed.length ? `, ${job.failed.length} failed` : ''}.${contextNote}`, 7000);
+        } else if (job.status === 'cancelled') {
+            new Notice(`⏹️ Batch translation of ${jobName(job)} cancelled.`);
+        } else if (job.status === 'paused') {
+            new Notice(`⏸ Batch translation of ${jobName(job)} paused (${job.pending.length} page(s) left).`);
+        }
+    }
+
+    /** The active provider's quota, which paces and caps the requests of concurrent pages. */
+    private getProviderLimits(): RateLimitSettings {
+        return this.plugin.settings.rateLimits[this.plugin.settings.apiProvider] ?? DEFAULT_RATE_LIMITS;
+    }
+
+    private async openSession(pdfFile: TFile): Promise<HeadlessPdfSession> {
+        const session = new HeadlessPdfSession(this.plugin, pdfFile);
+        try {
+            await session.open();
+            return session;
+        } catch (err) {
+            session.close();
+            console.error('Headless PDF loading failed:', err);
+            throw new Error('Could not load the PDF file for background translation.');
+        }
+    }
+
+    private async openViewer(pdfFile: TFile): Promise<any> {
+        const pdfLeaf = this.plugin.app.workspace.getLeavesOfType('pdf')[0] || this.plugin.app.workspace.getMostRecentLeaf();
+        if (!pdfLeaf) throw new Error('No available workspace leaf to open PDF.');
+        try {
+            await pdfLeaf.openFile(pdfFile);
+        } catch (err) {
+            throw new Error('Could not open the specified PDF file.');
+        }
+        if (!await this.waitForCondition(() => document.querySelector('.pdfViewer'), 10000)) {
+            throw new Error('Failed to load PDF viewer.');
+        }
+        return pdfLeaf;
+    }
+
+    /**
+     * Translates one page from the PDF file and saves it, without touching the viewer.
+     * Returns the context tokens spent.
+     */
+    private async translatePageHeadless(session: HeadlessPdfSession, pageNum: number, progressPrefix: string): Promise<number> {
+        this.updateProgress(`${progressPrefix} ✍️ Translating page ${pageNum}...`);
+        let contextTokens = 0;
+        const saved = await session.translatePage(pageNum, tokens => { contextTokens = tokens; });
+        if (saved === 0) {
+            this.updateProgress(`${progressPrefix} 📄 Page ${pageNum} has no text to translate.`);
+            return 0;
+        }
+        return contextTokens;
+    }
+
+    /**
+     * Scrolls the viewer to a page, waits for its text layer, translates it and verifies
+     * the rendered overlay. Returns the context tokens spent.
+     */
+    private async translatePageInViewer(job: TranslationJob, pdfLeaf: any, pageNum: number, progressPrefix: string): Promise<number> {
+        let contextTokens = 0;
+        const navSuccess = await this.navigateToPage(job, pdfLeaf, pageNum);
+        if (!navSuccess) throw new Error('Navigation failed.');
+
+        const pageEl = await this.waitForPageAndTextLayer(job, pageNum, 30000);
+        if (!pageEl) throw new Error('Page or text layer failed to render.');
+
+        // Step 1: Get translation (from cache or new API call)
+        let translatedText = this.translationCache.get(pageNum);
+        if (!translatedText) {
+            this.updateProgress(`${progressPrefix} ✍️ Translating page ${pageNum}...`);
+            translatedText = await this.plugin.processor.translatePageContent(pageEl, { onContextTokens: tokens => { contextTokens = tokens; } }) ?? undefined;
+            if (!translatedText || translatedText.trim() === '') {
+                throw new Error('Translation returned empty content.');
+            }
+            this.translationCache.set(pageNum, translatedText); // Cache the successful translation
+        } else {
+            this.updateProgress(`${progressPrefix} 📄 Using cached translation for page ${pageNum}.`);
+        }
+
+        // Step 2: Create the overlay with the translated text
+        await this.plugin.processor.createOverlayWithText(pageEl, translatedText, { autoSave: true });
+        const newOverlay = pageEl.querySelector<HTMLElement>('.pdf-text-overlay-container');
+
+        // Step 3: VERIFY the overlay was created and contains the correct text
+        if (!newOverlay) {
+            throw new Error('Overlay element was not found after creation.');
+        }
+
+        const overlayText = newOverlay.innerText.trim();
+        // Verify a snippet of the text to avoid issues with formatting differences
+        const verificationSnippet = translatedText.substring(0, 50);
+        if (!overlayText.includes(verificationSnippet)) {
+            console.error(`Verification FAILED for page ${pageNum}. Overlay text did not match translated text.`);
+            console.log('Expected snippet:', verificationSnippet);
+            console.log('Actual overlay text:', overlayText.substring(0, 100));
+            throw new Error('Overlay content verification failed.');
+        }
+
+        // Manage memory by removing old overlays from the DOM
+        this.activeOverlays.push(newOverlay);
+        if (this.activeOverlays.length > MAX_KEPT_OVERLAYS) {
+            const oldOverlay = this.activeOverlays.shift();
+            oldOverlay?.parentElement?.removeChild(oldOverlay);
+        }
+        return contextTokens;
+    }
+
+    /**
+     * A robust retry mechanism that handles transient errors.
+     */
+    private async retryWithBackoff<T>(job: TranslationJob, pageNum: number, operation: () => Promise<T>): Promise<T> {
+        for (let attempt = 0; attempt < MAX_PAGE_ATTEMPTS; attempt++) {
+            if (job.status !== 'running') throw new Error('Operation cancelled');
+            try {
+                return await operation();
+            } catch (error) {
+                if (attempt < MAX_PAGE_ATTEMPTS - 1) {
+                    const delay = RETRY_BASE_DELAY * Math.pow(2, attempt);
+                    this.updateProgress(`Page ${pageNum} failed (attempt ${attempt + 1}), retrying in ${delay / 1000}s...`);
+                    await this.delay(delay);
+                } else {
+                    throw error;
+                }
+            }
+        }
+        throw new Error('Retry mechanism failed unexpectedly.');
+    }
+
+    private async navigateToPage(job: TranslationJob, pdfLeaf: any, pageNum: number): Promise<boolean> {
+        if (job.status !== 'running') return false;
+
+        const pdfView = pdfLeaf.view;
+        const pageEl = document.querySelector<HTMLElement>(`.page[data-page-number="${pageNum}"]`);
+        if (!pdfView || !pageEl) {
+            console.error(`PDF view or page element ${pageNum} not found.`);
+            return false;
+        }
+
+        pageEl.scrollIntoView({ block: 'nearest' });
+
+        const success = await this.waitForCondition(() => {
+            const rect = pageEl.getBoundingClientRect();
+            const viewHeight = window.innerHeight || document.documentElement.clientHeight;
+            return rect.bottom > 0 && rect.top < viewHeight;
+        }, 15000, 100, job);
+
+        if (!success) console.warn(`Failed to confirm page ${pageNum} is in view.`);
+        await this.delay(500);
+        return true;
+    }
+
+    private async waitForPageAndTextLayer(job: TranslationJob, pageNum: number, timeoutMs: number): Promise<HTMLElement | null> {
+        return this.waitForCondition(() => {
+            const pageEl = document.querySelector<HTMLElement>(`.page[data-page-number="${pageNum}"] .textLayer`);
+            const hasText = pageEl?.querySelector('span[role="presentation"]')?.textContent?.trim().length ?? 0 > 0;
+            return hasText ? pageEl!.parentElement as HTMLElement : null;
+        }, timeoutMs, 250, job);
+    }
+
+    private async waitForCondition<T>(
+        condition: () => T | null | false,
+        timeoutMs: number,
+        intervalMs: number = 100,
+        job?: TranslationJob
+    ): Promise<T | null> {
+        const start = Date.now();
+        while (Date.now() - start < timeoutMs) {
+            if (this.isUnloaded || (job && job.status !== 'running')) return null;
+            const result = condition();
+            if (result) return result;
+            await this.delay(intervalMs);
+        }
+        return null;
+    }
+
+    private delay(ms: number): Promise<void> {
+        return new Promise(resolve => {
+            const wake = () => {
+                window.clearTimeout(timer);
+                this.wakers.delete(wake);
+                resolve();
+            };
+            const timer = window.setTimeout(wake, ms);
+            this.wakers.add(wake);
+        });
+    }
+
+    private interruptDelay(): void {
+        [...this.wakers].forEach(wake => wake());
+    }
+
+    // === Persistence & Status ===
+
+    /**
+     * Writes the job list into the plugin data. The rest of the stored data is re-read
+     * so that only the jobs change.
+     */
+    private async persist(): Promise<void> {
+        try {
+            const data = await this.plugin.loadData() || {};
+            data.jobs = this.jobs;
+            await this.plugin.saveData(data);
+        } catch (error) {
+            console.error('PDF Translator: Failed to save batch jobs', error);
+        }
+        this.notifyChanged();
+    }
+
+    private updateProgress(msg: string): void {
+        this.progressMessage = msg;
+        this.notifyChanged();
+    }
+
+    private notifyChanged(): void {
+        this.updateStatusBar();
+        this.listeners.forEach(listener => listener());
+    }
+
+    private updateStatusBar(): void {
+        const el = this.statusBarEl;
+        if (!el) return;
+        const unfinished = this.jobs.filter(isUnfinished);
+        if (unfinished.length === 0) {
+            el.hide();
+            return;
+        }
+        el.show();
+
+        const running = unfinished.find(job => job.status === 'running');
+        const waiting = unfinished.length - (running ? 1 : 0);
+        const queuedNote = waiting > 0 ? ` (+${waiting} queued)` : '';
+        if (running) {
+            const total = running.endPage - running.startPage + 1;
+            el.setText(`🌐 ${jobName(running)} ${running.done.length + running.failed.length}/${total}${queuedNote}`);
+        } else {
+            const pagesLeft = unfinished.reduce((sum, job) => sum + job.pending.length, 0);
+            el.setText(`⏸ Translation paused, ${pagesLeft} page(s) left`);
+        }
+        el.setAttr('aria-label', this.progressMessage || 'Batch translation queue');
+    }
+}
+
+// === Queue Modal ===
+
+const STATUS_LABELS: Record<JobStatus, string> = {
+    queued: '⏳ Queued',
+    running: '🔄 Running',
+    paused: '⏸ Paused',
+    done: '✅ Done',
+    cancelled: '⏹️ Cancelled',
+};
+
+/**
+ * Lists batch translation jobs with their progress and pause/resume/cancel controls.
+ */
+export class JobQueueModal extends Modal {
+    private plugin: OpenRouterTranslatorPlugin;
+    private unsubscribe: (() => void) | null = null;
+
+    constructor(app: App, plugin: OpenRouterTranslatorPlugin) {
+        super(app);
+        this.plugin = plugin;
+    }
+
+    onOpen() {
+        this.titleEl.setText('Batch Translation Queue');
+        this.unsubscribe = this.plugin.jobQueue.onChange(() => this.render());
+        this.render();
+    }
+
+    private render() {
+        const { contentEl } = this;
+        const queue = this.plugin.jobQueue;
+        contentEl.empty();
+
+        const jobs = queue.getJobs();
+        if (jobs.length === 0) {
+            contentEl.createEl('p', { text: 'No batch translation jobs.' });
+            return;
+        }
+        if (queue.currentProgress) {
+            contentEl.createEl('p', { cls: 'translator-progress-display', text: queue.currentProgress });
+        }
+
+        for (const job of jobs) {
+            const row = contentEl.createDiv({ cls: 'translator-job-row' });
+            const total = job.endPage - job.startPage + 1;
+            const failedNote = job.failed.length ? `, ${job.failed.length} failed` : '';
+            row.createEl('p', {
+                text: `${STATUS_LABELS[job.status]} · ${jobName(job)}, pages ${job.startPage}-${job.endPage}: ${job.done.length}/${total} done${failedNote}`,
+            });
+            if (isUnfinished(job)) {
+                new ButtonComponent(row)
+                    .setButtonText('Cancel')
+                    .setWarning()
+                    .onClick(() => queue.cancel(job.id));
+            }
+        }
+
+        const buttonContainer = contentEl.createDiv({ cls: 'translator-button-container' });
+        if (jobs.some(job => job.status === 'running' || job.status === 'queued')) {
+            new ButtonComponent(buttonContainer).setButtonText('Pause').onClick(() => queue.pause());
+        }
+        if (jobs.some(job => job.status === 'paused')) {
+            new ButtonComponent(buttonContainer).setButtonText('Resume').setCta().onClick(() => queue.resume());
+        }
+        if (jobs.some(job => !isUnfinished(job))) {
+            new ButtonComponent(buttonContainer).setButtonText('Clear finished').onClick(() => queue.clearFinished());
+        }
+        new ButtonComponent(buttonContainer).setButtonText('Close').onClick(() => this.close());
+    }
+
+    onClose() {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+        this.contentEl.empty();
+    }
+}
\ No newline at end of file
@@ -6,6 +6,7 @@ import { GapDetector, GapAnalysis, VerticalStrip, HorizontalBand } from './GapDe
 import { GridDetector, GridAnalysis } from './grid-detector'; // <-- NEW: Import GridDetector
 import { ParagraphMerger } from './ParagraphMerger';
 import { buildSnapshot, SpanInfo } from './Snapshot';
+import { ItemRect, PageSize, TextItem, getDevicePixelRatio, makeRect } from './TextItem';
 import { LayoutSettings, defaultLayoutSettings } from './layout-modal';
 
 export interface BoundingRect {
@@ -18,7 +19,7 @@ export interface BoundingRect {
 }
 
 export interface LayoutResult {
-  paragraphs: HTMLSpanElement[][];
+  paragraphs: TextItem[][];
   columnAnalysis: {
     columns: BoundingRect[];
     edgeCols: BoundingRect[];
@@ -43,29 +44,20 @@ export class LayoutDetector {
     this.gridDetector = new GridDetector(); // <-- NEW: Initialize GridDetector
   }
 
-  private removeDuplicateSpans(paragraphs: HTMLSpanElement[][], infoMap: Map<HTMLSpanElement, SpanInfo>): HTMLSpanElement[][] {
-    const seenSpans = new Set<string>(); // Use a unique identifier for each span
-    const uniqueParagraphs: HTMLSpanElement[][] = [];
+  private removeDuplicateSpans(paragraphs: TextItem[][], infoMap: Map<TextItem, SpanInfo>): TextItem[][] {
+    const seenSpans = new Set<string>(); // Use a unique identifier for each item
+    const uniqueParagraphs: TextItem[][] = [];
 
     for (const paragraph of paragraphs) {
-      const uniqueSpans: HTMLSpanElement[] = [];
+      const uniqueSpans: TextItem[] = [];
       
-      for (const span of paragraph) {
-        // Create a unique identifier based on position and content to handle spans that might be the same element
-        const rect = infoMap.get(span)?.rect;
-        if (!rect) {
-          // If no rect info, use the element itself as identifier (fallback)
-          if (!seenSpans.has(span.id || span.textContent || span.outerHTML || span.getBoundingClientRect().toString())) {
-            seenSpans.add(span.id || span.textContent || span.outerHTML || span.getBoundingClientRect().toString());
-            uniqueSpans.push(span);
-          }
-        } else {
-          // Create a unique key based on coordinates and content
-          const spanKey = `${rect.left}-${rect.top}-${rect.right}-${rect.bottom}-${span.textContent || ''}-${span.id || ''}`;
-          if (!seenSpans.has(spanKey)) {
-            seenSpans.add(spanKey);
-            uniqueSpans.push(span);
-          }
+      for (const item of paragraph) {
+        // Create a unique key based on coordinates and content (items are plain data, so equal copies must collapse)
+        const rect = infoMap.get(item)?.rect ?? item.rect;
+        const spanKey = `${rect.left}-${rect.top}-${rect.right}-${rect.bottom}-${item.text}`;
+        if (!seenSpans.has(spanKey)) {
+          seenSpans.add(spanKey);
+          uniqueSpans.push(item);
         }
       }
       
@@ -78,13 +70,13 @@ export class LayoutDetector {
   }
 
   // Alternative method: Remove duplicates within each paragraph and across all paragraphs
-  private deduplicateParagraphs(paragraphs: HTMLSpanElement[][]): HTMLSpanElement[][] {
-    const globalSeen = new Set<HTMLSpanElement>();
-    const uniqueParagraphs: HTMLSpanElement[][] = [];
+  private deduplicateParagraphs(paragraphs: TextItem[][]): TextItem[][] {
+    const globalSeen = new Set<TextItem>();
+    const uniqueParagraphs: TextItem[][] = [];
 
     for (const paragraph of paragraphs) {
-      const paragraphSeen = new Set<HTMLSpanElement>();
-      const uniqueSpans: HTMLSpanElement[] = [];
+      const paragraphSeen = new Set<TextItem>();
+      const uniqueSpans: TextItem[] = [];
 
       for (const span of paragraph) {
         // Check both global and paragraph-level duplicates
@@ -103,8 +95,15 @@ export class LayoutDetector {
     return uniqueParagraphs;
   }
 
-  public detectLayout(spans: HTMLSpanElement[], pageElement: HTMLElement): LayoutResult {
-    if (!spans || !Array.isArray(spans) || !pageElement || !(pageElement instanceof HTMLElement)) {
+  /**
+   * Groups a page's text items into ordered paragraphs. Runs on plain data only;
+   * use readTextItems (TextItem.ts) to get items from a rendered text layer.
+   * @param spans The page's text items, positioned relative to the page.
+   * @param pageSize The page size in the same pixels as the item rects.
+   * @param dpr Device pixel ratio the items were measured at; recorded fixtures pass their own.
+   */
+  public detectLayout(spans: TextItem[], pageSize: PageSize, dpr = getDevicePixelRatio()): LayoutResult {
+    if (!spans || !Array.isArray(spans) || !pageSize || !(pageSize.width > 0) || !(pageSize.height > 0)) {
       this.logDebug('Invalid input; returning empty result');
       return this.createEmptyResult();
     }
@@ -112,13 +111,11 @@ export class LayoutDetector {
     const start = performance.now();
 
     // 1) Build a normalized snapshot for the entire run
-    const infoMap = buildSnapshot(spans);
+    const infoMap = buildSnapshot(spans, dpr);
     const rects = [...infoMap.values()].map(i => i.rect);
 
     // Normalize page rect by DPR
-    const dpr = window.devicePixelRatio || 1;
-    const pr = pageElement.getBoundingClientRect();
-    const pageRect = new DOMRect(pr.left / dpr, pr.top / dpr, pr.width / dpr, pr.height / dpr);
+    const pageRect = makeRect(0, 0, pageSize.width / dpr, pageSize.height / dpr);
 
     // 2) Initial span-to-paragraph grouping (math-aware)
     let paragraphs = this.paragraphMerger.mergeIntoParagraphsFromInfos(infoMap);
@@ -262,8 +259,8 @@ export class LayoutDetector {
     arr.reduce((a, b) => a + b, 0) / arr.length || 0;
 
   private getAverageLineHeight(
-    paragraphs: HTMLSpanElement[][],
-    infoMap: Map<HTMLSpanElement, SpanInfo>
+    paragraphs: TextItem[][],
+    infoMap: Map<TextItem, SpanInfo>
   ): number {
     const lineHeights: number[] = [];
     for (const p of paragraphs) {
@@ -278,9 +275,9 @@ export class LayoutDetector {
   }
 
   private analyzeColumns(
-    paragraphs: HTMLSpanElement[][],
-    infoMap: Map<HTMLSpanElement, SpanInfo>,
-    pageRect: DOMRect
+    paragraphs: TextItem[][],
+    infoMap: Map<TextItem, SpanInfo>,
+    pageRect: ItemRect
   ): LayoutResult['columnAnalysis'] {
     const allSpans = paragraphs.flat();
 
@@ -304,7 +301,7 @@ export class LayoutDetector {
       return rectA.left - rectB.left;
     });
 
-    const columns: HTMLSpanElement[][] = [];
+    const columns: TextItem[][] = [];
     if (sortedByX.length > 0) {
       columns.push([sortedByX[0]]);
       for (let i = 1; i < sortedByX.length; i++) {
@@ -360,9 +357,9 @@ export class LayoutDetector {
   // -----------------------------
 
   private estimateLineHeightFromInfos(
-    paragraphs: HTMLSpanElement[][],
-    infoMap: Map<HTMLSpanElement, SpanInfo>,
-    pageRect: DOMRect
+    paragraphs: TextItem[][],
+    infoMap: Map<TextItem, SpanInfo>,
+    pageRect: ItemRect
   ): number {
     const gaps: number[] = [];
     for (const p of paragraphs) {
@@ -399,7 +396,7 @@ export class LayoutDetector {
   private buildLayoutBands(
     bands: HorizontalBand[],
     strips: VerticalStrip[],
-    pageRect: DOMRect,
+    pageRect: ItemRect,
     lineHeight: number
   ): HorizontalBand[] {
     const out: HorizontalBand[] = [];
@@ -442,7 +439,7 @@ export class LayoutDetector {
 
   private buildPerBandColumnRegions(
     strips: VerticalStrip[],
-    pageRect: DOMRect,
+    pageRect: ItemRect,
     bands: HorizontalBand[]
   ): Array<{ band: { top: number; bottom: number }, regions: Array<{ left: number; right: number }> }> {
     const results: Array<{ band: { top: number; bottom: number }, regions: Array<{ left: number; right: number }> }> = [];
@@ -471,7 +468,7 @@ export class LayoutDetector {
 
   private buildColumnRegionsFromStrips(
     strips: VerticalStrip[],
-    pageRect: DOMRect
+    pageRect: ItemRect
   ): Array<{ left: number; right: number }> {
     if (!strips?.length) {
       return [{ left: pageRect.left, right: pageRect.right }];
@@ -493,14 +490,14 @@ export class LayoutDetector {
   }
 
   private orderParagraphByBandsAndColumns(
-    paragraph: HTMLSpanElement[],
-    infoMap: Map<HTMLSpanElement, SpanInfo>,
+    paragraph: TextItem[],
+    infoMap: Map<TextItem, SpanInfo>,
     bands: HorizontalBand[],
     perBandRegions: Array<{ band: { top: number; bottom: number }, regions: Array<{ left: number; right: number }> }>
-  ): HTMLSpanElement[] {
+  ): TextItem[] {
     if (!paragraph.length) return paragraph;
 
-    type Bucket = { spans: HTMLSpanElement[]; regions: Array<{ left: number; right: number }> };
+    type Bucket = { spans: TextItem[]; regions: Array<{ left: number; right: number }> };
     const bandBuckets: Bucket[] = perBandRegions.map(entry => ({ spans: [], regions: entry.regions }));
 
     for (const s of paragraph) {
@@ -537,11 +534,11 @@ export class LayoutDetector {
       }
     }
 
-    const ordered: HTMLSpanElement[] = [];
+    const ordered: TextItem[] = [];
     for (const bucket of bandBuckets) {
       if (!bucket.spans.length) continue;
       const regions = bucket.regions.length ? bucket.regions : [{ left: -Infinity, right: Infinity }];
-      const colBuckets: HTMLSpanElement[][] = regions.map(() => []);
+      const colBuckets: TextItem[][] = regions.map(() => []);
 
       for (const s of bucket.spans) {
         const r = infoMap.get(s)!.rect;
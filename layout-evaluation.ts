@@ -0,0 +1,183 @@
+// layout-evaluation.ts
+// Layout fixtures and their scoring. Nothing here depends on Obsidian or a DOM, so
+// fixtures can be replayed in the plugin (layout-fixtures.ts) and from Node
+// (scripts/eval-layout.ts) alike.
+import { LayoutDetector } from './layout-detector';
+import type { LayoutSettings } from './layout-modal';
+import type { PageSize, TextItem } from './TextItem';
+
+// Constants
+export const FIXTURE_VERSION = 1;
+const DIFF_TEXT_LENGTH = 120; // Characters of paragraph text shown per diff line
+
+/** A TextItem as stored in a fixture file (no DOM reference). */
+export type FixtureItem = Omit<TextItem, 'element'>;
+
+/**
+ * A recorded page: the exact input detectLayout received, plus the expected
+ * paragraphs as lists of indices into `items`. Captured fixtures expect what the
+ * detector produced at capture time; correct `expected` by hand where it was wrong.
+ * The fixtures committed under layout-fixtures/ are hand-built pages with
+ * hand-labelled paragraphs.
+ */
+export interface LayoutFixture {
+    version: number;
+    source: { pdf: string; page: number };
+    capturedAt: string;
+    pageSize: PageSize;
+    devicePixelRatio: number;
+    items: FixtureItem[];
+    expected: number[][];
+    /** Why the detector gets this page wrong today. A known failure does not fail scripts/eval-layout.ts. */
+    knownFailure?: string;
+}
+
+export interface FixtureDiffEntry {
+    kind: 'same' | 'missing' | 'extra';
+    items: number[];
+    text: string;
+}
+
+export interface FixtureComparison {
+    expectedCount: number;
+    actualCount: number;
+    exactMatches: number;
+    /** Boundary counts, summed across fixtures for the overall score. */
+    truePositives: number;
+    predictedBoundaries: number;
+    expectedBoundaries: number;
+    precision: number;
+    recall: number;
+    passed: boolean;
+    diff: FixtureDiffEntry[];
+}
+
+export interface FixtureRun {
+    name: string;
+    comparison?: FixtureComparison;
+    error?: string;
+    knownFailure?: string;
+}
+
+export interface FixtureSummary {
+    passed: number;
+    total: number;
+    precision: number;
+    recall: number;
+}
+
+// === Evaluation ===
+
+function ratio(numerator: number, denominator: number): number {
+    return denominator === 0 ? 1 : numerator / denominator;
+}
+
+function paragraphKey(indices: number[]): string {
+    return [...indices].sort((a, b) => a - b).join(',');
+}
+
+/** Paragraph index of every item, -1 for items in no paragraph. */
+function labelItems(paragraphs: number[][], itemCount: number): number[] {
+    const labels = new Array<number>(itemCount).fill(-1);
+    paragraphs.forEach((indices, p) => indices.forEach(i => { if (i >= 0 && i < itemCount) labels[i] = p; }));
+    return labels;
+}
+
+/**
+ * Paragraph boundaries are the positions i where item i and item i+1 (in recorded
+ * text layer order) belong to different paragraphs. Precision and recall compare
+ * the detected boundaries with the expected ones.
+ */
+function boundaries(labels: number[]): Set<number> {
+    const result = new Set<number>();
+    for (let i = 0; i + 1 < labels.length; i++) {
+        if (labels[i] !== labels[i + 1] || labels[i] === -1) result.add(i);
+    }
+    return result;
+}
+
+export function compareParagraphs(expected: number[][], actual: number[][], items: FixtureItem[]): FixtureComparison {
+    const expectedBounds = boundaries(labelItems(expected, items.length));
+    const actualBounds = boundaries(labelItems(actual, items.length));
+    const truePositives = [...actualBounds].filter(b => expectedBounds.has(b)).length;
+
+    const actualKeys = new Set(actual.map(paragraphKey));
+    const expectedKeys = new Set(expected.map(paragraphKey));
+    const describe = (kind: FixtureDiffEntry['kind'], indices: number[]): FixtureDiffEntry => {
+        const sorted = [...indices].sort((a, b) => a - b);
+        const text = sorted.map(i => items[i]?.text.trim() ?? '').filter(Boolean).join(' ');
+        return { kind, items: sorted, text: text.length > DIFF_TEXT_LENGTH ? text.slice(0, DIFF_TEXT_LENGTH) + '…' : text };
+    };
+    const diff = [
+        ...expected.map(p => describe(actualKeys.has(paragraphKey(p)) ? 'same' : 'missing', p)),
+        ...actual.filter(p => !expectedKeys.has(paragraphKey(p))).map(p => describe('extra', p)),
+    ].sort((a, b) => (a.items[0] ?? 0) - (b.items[0] ?? 0));
+
+    const exactMatches = diff.filter(entry => entry.kind === 'same').length;
+    const precision = ratio(truePositives, actualBounds.size);
+    const recall = ratio(truePositives, expectedBounds.size);
+    return {
+        expectedCount: expected.length,
+        actualCount: actual.length,
+        exactMatches,
+        truePositives,
+        predictedBoundaries: actualBounds.size,
+        expectedBoundaries: expectedBounds.size,
+        precision,
+        recall,
+        passed: exactMatches === expected.length && actual.length === expected.length,
+        diff,
+    };
+}
+
+/**
+ * Runs detectLayout on a fixture's items and returns the paragraphs as item indices.
+ */
+export function detectFixtureParagraphs(fixture: LayoutFixture, settings: Partial<LayoutSettings>): number[][] {
+    const items: TextItem[] = fixture.items.map(item => ({ ...item, rect: { ...item.rect } }));
+    const indexOf = new Map(items.map((item, i) => [item, i]));
+    const result = new LayoutDetector(settings).detectLayout(items, fixture.pageSize, fixture.devicePixelRatio || 1);
+    return result.paragraphs
+        .map(paragraph => paragraph.map(item => indexOf.get(item)).filter((i): i is number => i !== undefined))
+        .filter(indices => indices.length > 0);
+}
+
+export function runFixture(fixture: LayoutFixture, settings: Partial<LayoutSettings>): FixtureComparison {
+    return compareParagraphs(fixture.expected, detectFixtureParagraphs(fixture, settings), fixture.items);
+}
+
+export function validateFixture(data: any): LayoutFixture {
+    if (!data || typeof data !== 'object') throw new Error('Not a JSON object.');
+    if (data.version !== FIXTURE_VERSION) throw new Error(`Unsupported fixture version: ${data.version}`);
+    if (!Array.isArray(data.items) || !Array.isArray(data.expected)) throw new Error('Missing "items" or "expected".');
+    if (!(data.pageSize?.width > 0) || !(data.pageSize?.height > 0)) throw new Error('Missing or invalid "pageSize".');
+    return data as LayoutFixture;
+}
+
+/**
+ * Overall result of a fixture run. Boundary counts are summed across fixtures,
+ * so large pages weigh more than small ones.
+ */
+export function summarizeRuns(runs: FixtureRun[]): FixtureSummary {
+    const compared = runs.filter(run => run.comparison).map(run => run.comparison!);
+    const truePositives = compared.reduce((sum, c) => sum + c.truePositives, 0);
+    return {
+        passed: compared.filter(c => c.passed).length,
+        total: runs.length,
+        precision: ratio(truePositives, compared.reduce((sum, c) => sum + c.predictedBoundaries, 0)),
+        recall: ratio(truePositives, compared.reduce((sum, c) => sum + c.expectedBoundaries, 0)),
+    };
+}
+
+// === Formatting ===
+
+const DIFF_PREFIX: Record<FixtureDiffEntry['kind'], string> = { same: '  ', missing: '- ', extra: '+ ' };
+
+export function formatPercent(value: number): string {
+    return `${(value * 100).toFixed(1)}%`;
+}
+
+/** One diff line: "-" expected paragraph not detected, "+" detected paragraph not expected. */
+export function formatDiffEntry(entry: FixtureDiffEntry): string {
+    return `${DIFF_PREFIX[entry.kind]}[${entry.items[0]}–${entry.items[entry.items.length - 1]}] ${entry.text}`;
+}
\ No newline at end of file
@@ -0,0 +1,160 @@
+// layout-fixtures.ts
+import { App, Modal, Notice, TFile, TFolder, normalizePath } from 'obsidian';
+import type OpenRouterTranslatorPlugin from './main';
+import { detectFixtureParagraphs, formatDiffEntry, formatPercent, runFixture, summarizeRuns, validateFixture, FIXTURE_VERSION, type FixtureRun, type LayoutFixture } from './layout-evaluation';
+import { getDevicePixelRatio, readTextItems } from './TextItem';
+
+// Constants
+const FIXTURE_FOLDER = 'layout-fixtures';
+
+// === Capture & Run ===
+
+/**
+ * Records text layer pages as layout fixtures and replays them through LayoutDetector
+ * with the current layout settings, so tolerance changes can be checked against known pages.
+ * Fixtures are JSON files in a `layout-fixtures` folder under the storage location.
+ */
+export class LayoutFixtureHarness {
+    private plugin: OpenRouterTranslatorPlugin;
+
+    constructor(plugin: OpenRouterTranslatorPlugin) {
+        this.plugin = plugin;
+    }
+
+    get folderPath(): string {
+        const base = (this.plugin.settings.storageLocation || '').replace(/\/+$/, '');
+        return normalizePath(base ? `${base}/${FIXTURE_FOLDER}` : FIXTURE_FOLDER);
+    }
+
+    async captureCurrentPage(pdfFile: TFile): Promise<void> {
+        const pageEl = this.plugin.getCurrentPageElement();
+        const textLayer = pageEl?.querySelector<HTMLElement>('.textLayer');
+        const pageNumber = parseInt(pageEl?.dataset.pageNumber || '0', 10);
+        if (!pageEl || !textLayer || !pageNumber) {
+            new Notice('⚠️ No rendered page found to capture.');
+            return;
+        }
+
+        const spans = Array.from(textLayer.querySelectorAll<HTMLSpanElement>('span')).filter(span => span.isConnected);
+        // Store exactly what the translation pipeline hands to detectLayout
+        const items = readTextItems(spans, pageEl).filter(item => this.plugin.processor.isValidTextItem(item));
+        if (items.length === 0) {
+            new Notice('⚠️ No text found on the current page.');
+            return;
+        }
+
+        const pageRect = pageEl.getBoundingClientRect();
+        const fixture: LayoutFixture = {
+            version: FIXTURE_VERSION,
+            source: { pdf: pdfFile.path, page: pageNumber },
+            capturedAt: new Date().toISOString(),
+            pageSize: { width: pageRect.width, height: pageRect.height },
+            devicePixelRatio: getDevicePixelRatio(),
+            items: items.map(({ element, ...item }) => item),
+            expected: [],
+        };
+        fixture.expected = detectFixtureParagraphs(fixture, this.plugin.layoutSettings);
+
+        try {
+            await this.ensureFolder();
+            const path = normalizePath(`${this.folderPath}/${pdfFile.basename}-p${pageNumber}.json`);
+            const json = JSON.stringify(fixture, null, 2);
+            const existing = this.plugin.app.vault.getAbstractFileByPath(path);
+            if (existing instanceof TFile) await this.plugin.app.vault.modify(existing, json);
+            else await this.plugin.app.vault.create(path, json);
+            new Notice(`✅ Captured ${items.length} text items in ${fixture.expected.length} paragraph(s) to ${path}`);
+        } catch (error: any) {
+            console.error('Layout fixture capture failed:', error);
+            new Notice(`⚠️ Could not save fixture: ${error.message}`);
+        }
+    }
+
+    async runAll(): Promise<FixtureRun[]> {
+        const folder = this.plugin.app.vault.getAbstractFileByPath(this.folderPath);
+        const files = folder instanceof TFolder
+            ? folder.children.filter((f): f is TFile => f instanceof TFile && f.extension === 'json').sort((a, b) => a.name.localeCompare(b.name))
+            : [];
+
+        const runs: FixtureRun[] = [];
+        for (const file of files) {
+            try {
+                const fixture = validateFixture(JSON.parse(await this.plugin.app.vault.read(file)));
+                runs.push({ name: file.basename, comparison: runFixture(fixture, this.plugin.layoutSettings), knownFailure: fixture.knownFailure });
+            } catch (error: any) {
+                this.plugin.logDebug(`Layout fixture ${file.path} failed:`, error);
+                runs.push({ name: file.basename, error: error.message || String(error) });
+            }
+        }
+        return runs;
+    }
+
+    async runAndReport(): Promise<void> {
+        const runs = await this.runAll();
+        if (runs.length === 0) {
+            new Notice(`No layout fixtures found in ${this.folderPath}. Capture a page first.`);
+            return;
+        }
+        new LayoutFixtureReportModal(this.plugin.app, runs).open();
+    }
+
+    private async ensureFolder(): Promise<void> {
+        const path = this.folderPath;
+        const existing = this.plugin.app.vault.getAbstractFileByPath(path);
+        if (existing instanceof TFolder) return;
+        if (existing) throw new Error(`Path conflict: a file exists at '${path}'`);
+        await this.plugin.app.vault.createFolder(path);
+    }
+}
+
+// === Report ===
+
+export class LayoutFixtureReportModal extends Modal {
+    private runs: FixtureRun[];
+
+    constructor(app: App, runs: FixtureRun[]) {
+        super(app);
+        this.runs = runs;
+    }
+
+    onOpen() {
+        const { contentEl } = this;
+        contentEl.empty();
+        this.titleEl.setText('Layout Regression Report');
+
+        const { passed, precision, recall } = summarizeRuns(this.runs);
+        contentEl.createEl('p', {
+            text: `${passed}/${this.runs.length} fixture(s) match. Boundary precision ${formatPercent(precision)}, recall ${formatPercent(recall)}.`,
+        });
+
+        const table = contentEl.createEl('table');
+        const header = table.createEl('tr');
+        ['Fixture', 'Result', 'Paragraphs (expected / detected)', 'Precision', 'Recall'].forEach(h => header.createEl('th', { text: h }));
+        for (const run of this.runs) {
+            const row = table.createEl('tr');
+            row.createEl('td', { text: run.name });
+            if (!run.comparison) {
+                row.createEl('td', { text: `⚠️ ${run.error}`, attr: { colspan: '4' } });
+                continue;
+            }
+            const c = run.comparison;
+            row.createEl('td', { text: c.passed ? '✅' : run.knownFailure ? '❌ (known)' : '❌', attr: run.knownFailure ? { title: run.knownFailure } : {} });
+            row.createEl('td', { text: `${c.expectedCount} / ${c.actualCount}` });
+            row.createEl('td', { text: formatPercent(c.precision) });
+            row.createEl('td', { text: formatPercent(c.recall) });
+        }
+
+        for (const run of this.runs) {
+            if (!run.comparison || run.comparison.passed) continue;
+            const details = contentEl.createEl('details');
+            details.createEl('summary', { text: `${run.name}: ${run.comparison.exactMatches}/${run.comparison.expectedCount} paragraph(s) unchanged` });
+            details.createEl('pre', { text: run.comparison.diff.map(formatDiffEntry).join('\n') });
+        }
+        if (passed < this.runs.length) {
+            contentEl.createEl('p', { text: 'Diff: "-" expected paragraph not detected, "+" detected paragraph not expected. Numbers are item indices.' });
+        }
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
\ No newline at end of file
@@ -2,6 +2,7 @@
 import { Plugin, TFile, normalizePath, App, Notice, Menu, FuzzySuggestModal, debounce } from 'obsidian';
 import OpenRouterSettingsTab from './settings';
 import { OpenRouterTranslatorSettings, DEFAULT_SETTINGS } from './types';
+import { ProviderRegistry } from './providers';
 
 // Modular classes
 import { TranslationStorage } from './storage';
@@ -9,8 +10,22 @@ import { OverlayRenderer } from './overlay';
 import { TranslationEngine } from './translation';
 import { TextProcessor } from './processing';
 import { TranslateMultiplePagesModal } from './modal';
+import { TranslationJobQueue, JobQueueModal } from './job-queue';
 import { RegionReprocessor } from './reprocessor';
 import { RetranslateUsingOverlaysModal } from './modal-retranslate';
+import { TranslationMemory, TranslationMemoryImportModal } from './translation-memory';
+import { GlossaryManager } from './glossary';
+import { DocumentContextBuilder } from './document-context';
+import { BilingualExporter, ExportTranslationModal } from './exporter';
+import { TranslatedPdfExporter } from './pdf-export';
+import { TranslationExchange, XliffImportModal } from './xliff';
+import { LayoutFixtureHarness } from './layout-fixtures';
+import { UsageTracker, UsageDashboardView, USAGE_VIEW_TYPE } from './usage';
+import { QualityChecker, QualityReviewModal } from './quality';
+import { ModelComparison } from './compare';
+import { OverlayBoxEditor } from './box-editor';
+import { TranslationPaneView, TRANSLATION_PANE_VIEW_TYPE } from './translation-pane';
+import { DisplayModeModal } from './display-mode';
 import { 
     showLayoutSettingsModal, 
     LayoutSettings, 
@@ -26,6 +41,18 @@ export default class OpenRouterTranslatorPlugin extends Plugin {
     overlay: OverlayRenderer;
     translation: TranslationEngine;
     processor: TextProcessor;
+    translationMemory: TranslationMemory;
+    glossary: GlossaryManager;
+    documentContext: DocumentContextBuilder;
+    exporter: BilingualExporter;
+    pdfExporter: TranslatedPdfExporter;
+    exchange: TranslationExchange;
+    layoutFixtures: LayoutFixtureHarness;
+    jobQueue: TranslationJobQueue;
+    usage: UsageTracker;
+    quality: QualityChecker;
+    comparison: ModelComparison;
+    boxEditor: OverlayBoxEditor;
 
     // Fast lookup: PDF path → .translations.md file path
     public pdfToMdMap: Map<string, string> = new Map();
@@ -61,6 +88,22 @@ export default class OpenRouterTranslatorPlugin extends Plugin {
         this.overlay = new OverlayRenderer(this);
         this.processor = new TextProcessor(this);
         this.storage = new TranslationStorage(this);
+        this.translationMemory = new TranslationMemory(this);
+        this.glossary = new GlossaryManager(this);
+        this.documentContext = new DocumentContextBuilder(this);
+        this.exporter = new BilingualExporter(this);
+        this.pdfExporter = new TranslatedPdfExporter(this);
+        this.exchange = new TranslationExchange(this);
+        this.layoutFixtures = new LayoutFixtureHarness(this);
+        this.jobQueue = new TranslationJobQueue(this);
+        this.usage = new UsageTracker(this);
+        this.quality = new QualityChecker(this);
+        this.comparison = new ModelComparison(this);
+        this.boxEditor = new OverlayBoxEditor(this);
+        await this.translationMemory.load();
+        await this.usage.load();
+        await this.jobQueue.load();
+        this.jobQueue.attachStatusBar(this.addStatusBarItem());
 
         // ======= Initialization for Cold and Warm Starts =======
 
@@ -155,6 +198,36 @@ export default class OpenRouterTranslatorPlugin extends Plugin {
             }
         });
 
+        this.addCommand({
+            id: 'show-batch-translation-queue',
+            name: 'Show batch translation queue',
+            callback: () => new JobQueueModal(this.app, this).open(),
+        });
+
+        this.addCommand({
+            id: 'pause-batch-translation',
+            name: 'Pause batch translation',
+            callback: async () => {
+                if (!await this.jobQueue.pause()) new Notice('No batch translation is running.');
+            },
+        });
+
+        this.addCommand({
+            id: 'resume-batch-translation',
+            name: 'Resume batch translation',
+            callback: async () => {
+                if (!await this.jobQueue.resume()) new Notice('No paused batch translation.');
+            },
+        });
+
+        this.addCommand({
+            id: 'cancel-batch-translation',
+            name: 'Cancel current batch translation',
+            callback: async () => {
+                if (!await this.jobQueue.cancel()) new Notice('No batch translation to cancel.');
+            },
+        });
+
         // ======= Layout & Preset Commands =======
 
         this.addCommand({
@@ -175,6 +248,25 @@ export default class OpenRouterTranslatorPlugin extends Plugin {
             }
         });
 
+        this.addCommand({
+            id: 'capture-layout-fixture',
+            name: 'Layout: Capture current page as regression fixture',
+            callback: async () => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || file.extension !== 'pdf') {
+                    new Notice('Please open a PDF first.');
+                    return;
+                }
+                await this.layoutFixtures.captureCurrentPage(file);
+            },
+        });
+
+        this.addCommand({
+            id: 'run-layout-fixtures',
+            name: 'Layout: Run regression fixtures',
+            callback: () => this.layoutFixtures.runAndReport(),
+        });
+
         const savedPresets = PresetManager.getAllPresets();
         savedPresets.forEach(preset => {
             this.addCommand({
@@ -235,6 +327,162 @@ export default class OpenRouterTranslatorPlugin extends Plugin {
             callback: () => new RegionReprocessor(this).start(),
         });
 
+        this.addCommand({
+            id: 'edit-overlay-boxes',
+            name: 'Edit overlay boxes (move, resize, split, merge)',
+            callback: () => this.boxEditor.start(),
+        });
+
+        this.addCommand({
+            id: 'compare-models-page',
+            name: 'Compare models on current page',
+            callback: () => this.comparison.comparePage(),
+        });
+
+        this.addCommand({
+            id: 'compare-models-region',
+            name: 'Compare models on a region by dragging',
+            callback: () => new RegionReprocessor(this).start(true),
+        });
+
+        this.addCommand({
+            id: 'generate-document-summary',
+            name: 'Generate document summary for context mode',
+            callback: async () => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || file.extension !== 'pdf') {
+                    new Notice('Please open a PDF first.');
+                    return;
+                }
+                await this.documentContext.generateSummary(file);
+            },
+        });
+
+        this.addCommand({
+            id: 'review-flagged-translations',
+            name: 'Review flagged translations',
+            callback: () => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || file.extension !== 'pdf') {
+                    new Notice('Please open a PDF first.');
+                    return;
+                }
+                new QualityReviewModal(this.app, this, file).open();
+            },
+        });
+
+        this.addCommand({
+            id: 'export-translation',
+            name: 'Export translation (Markdown, HTML, EPUB)...',
+            callback: () => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || file.extension !== 'pdf') {
+                    new Notice('Please open a PDF first.');
+                    return;
+                }
+                new ExportTranslationModal(this.app, this, file).open();
+            },
+        });
+
+        this.addCommand({
+            id: 'export-translated-pdf',
+            name: 'Export translated PDF (translation burned in)',
+            callback: async () => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || file.extension !== 'pdf') {
+                    new Notice('Please open a PDF first.');
+                    return;
+                }
+                await this.pdfExporter.export(file);
+            },
+        });
+
+        this.addCommand({
+            id: 'export-xliff',
+            name: 'Export translation as XLIFF 2.0 (for CAT tools)',
+            callback: async () => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || file.extension !== 'pdf') {
+                    new Notice('Please open a PDF first.');
+                    return;
+                }
+                await this.exchange.exportXliff(file);
+            },
+        });
+
+        this.addCommand({
+            id: 'import-xliff',
+            name: 'Import reviewed XLIFF file...',
+            callback: () => new XliffImportModal(this.app, this).open(),
+        });
+
+        this.addCommand({
+            id: 'export-tmx',
+            name: 'Export all translations as TMX',
+            callback: () => this.exchange.exportTmx(),
+        });
+
+        // ======= Translation Memory =======
+
+        this.addCommand({
+            id: 'translation-memory-stats',
+            name: 'Translation memory: Show statistics',
+            callback: () => this.translationMemory.showStats(),
+        });
+
+        this.addCommand({
+            id: 'translation-memory-clear',
+            name: 'Translation memory: Clear',
+            callback: async () => {
+                if (confirm('Delete all remembered translations?')) {
+                    await this.translationMemory.clear();
+                }
+            },
+        });
+
+        this.addCommand({
+            id: 'translation-memory-export',
+            name: 'Translation memory: Export to vault',
+            callback: () => this.translationMemory.exportToVault(),
+        });
+
+        this.addCommand({
+            id: 'translation-memory-import',
+            name: 'Translation memory: Import from vault file...',
+            callback: () => new TranslationMemoryImportModal(this.app, this).open(),
+        });
+
+        // ======= Usage =======
+
+        this.registerView(USAGE_VIEW_TYPE, leaf => new UsageDashboardView(leaf, this));
+
+        this.addCommand({
+            id: 'open-usage-dashboard',
+            name: 'Open usage dashboard',
+            callback: () => this.openUsageDashboard(),
+        });
+
+        this.registerView(TRANSLATION_PANE_VIEW_TYPE, leaf => new TranslationPaneView(leaf, this));
+
+        this.addCommand({
+            id: 'open-translation-pane',
+            name: 'Open translation side by side',
+            callback: () => this.openTranslationPane(),
+        });
+
+        this.addCommand({
+            id: 'set-overlay-display-mode',
+            name: 'Set overlay display mode for this PDF...',
+            callback: () => {
+                const file = this.app.workspace.getActiveFile();
+                if (!file || file.extension !== 'pdf') {
+                    new Notice('Please open a PDF first.');
+                    return;
+                }
+                new DisplayModeModal(this.app, this, file).open();
+            },
+        });
+
         // ======= PDF Monitoring =======
 
         this.registerEvent(this.app.workspace.on('active-leaf-change', (leaf) => {
@@ -365,6 +613,12 @@ export default class OpenRouterTranslatorPlugin extends Plugin {
     async loadSettings() {
         const data = await this.loadData() || {};
         this.settings = { ...DEFAULT_SETTINGS, ...data.settings || {} };
+        // Fill in defaults for providers registered after the settings were saved
+        this.settings.providerSettings = { ...ProviderRegistry.getDefaultSettings(), ...this.settings.providerSettings };
+        this.settings.rateLimits = { ...ProviderRegistry.getDefaultRateLimits(), ...this.settings.rateLimits };
+        if (!ProviderRegistry.get(this.settings.apiProvider)) {
+            this.settings.apiProvider = DEFAULT_SETTINGS.apiProvider;
+        }
         this.layoutSettings = { ...defaultLayoutSettings, ...data.layoutSettings || {} };
 
         if (this.settings.storageLocation) {
@@ -382,7 +636,8 @@ export default class OpenRouterTranslatorPlugin extends Plugin {
     async saveSettings() {
         await this.saveData({
             settings: this.settings,
-            layoutSettings: this.layoutSettings
+            layoutSettings: this.layoutSettings,
+            jobs: this.jobQueue?.getJobs() ?? []
         });
     }
 
@@ -406,11 +661,35 @@ export default class OpenRouterTranslatorPlugin extends Plugin {
 
     onunload() {
         console.log('🧩 OpenRouter PDF Translator plugin unloaded');
+        this.jobQueue.unload();
         this.overlay.cleanup();
+        this.translationMemory.save();
+        this.usage.flushPdfTotals();
+        this.usage.save();
         this.clearAllOverlays();
         this.pdfToMdMap.clear();
     }
 
+    async openUsageDashboard() {
+        const existing = this.app.workspace.getLeavesOfType(USAGE_VIEW_TYPE)[0];
+        const leaf = existing ?? this.app.workspace.getRightLeaf(false);
+        if (!leaf) return;
+        if (!existing) await leaf.setViewState({ type: USAGE_VIEW_TYPE, active: true });
+        this.app.workspace.revealLeaf(leaf);
+    }
+
+    /**
+     * Opens the translation pane in a split next to the active PDF, or reveals it when it is open.
+     */
+    async openTranslationPane() {
+        const existing = this.app.workspace.getLeavesOfType(TRANSLATION_PANE_VIEW_TYPE)[0];
+        const pdfLeaf = this.overlay.getActivePDFLeaf();
+        const leaf = existing ?? (pdfLeaf ? this.app.workspace.createLeafBySplit(pdfLeaf, 'vertical') : this.app.workspace.getRightLeaf(false));
+        if (!leaf) return;
+        if (!existing) await leaf.setViewState({ type: TRANSLATION_PANE_VIEW_TYPE, active: false });
+        this.app.workspace.revealLeaf(leaf);
+    }
+
     clearAllOverlays() {
         document.querySelectorAll('.pdf-text-overlay-container').forEach(el => el.remove());
     }
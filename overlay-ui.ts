@@ -1,15 +1,19 @@
 // overlay-ui.ts
 // Extracted UI and Rendering logic for PDF Translation Overlays
 
-import { Menu, Notice } from 'obsidian';
+import { Menu, Notice, sanitizeHTMLToDom } from 'obsidian';
 import type OpenRouterTranslatorPlugin from './main'; // Adjust path if needed
-import type { OverlayPositionData, SavedOverlay } from './types'; // Adjust path if needed
+import type { OverlayDisplayMode, OverlayPositionData, QaFlag, SavedOverlay } from './types'; // Adjust path if needed
 import { RetranslateUsingOverlaysModal } from './modal-retranslate'; // Adjust path if needed
+import { QA_ATTRIBUTE } from './quality';
+import { OVERLAY_ID_ATTRIBUTE, createOverlayId } from './storage';
+import { RevisionHistoryModal } from './history';
 
 // Constants relevant to UI
 const LINE_HEIGHT_MIN = 0.8;
 const LINE_HEIGHT_MAX = 2.0;
 const LINE_HEIGHT_STEP = 0.1;
+const POPOVER_CLASS = 'pdf-translation-hover-popover';
 
 // Types for internal state (if not already defined elsewhere)
 type OverlayHandlers = {
@@ -17,8 +21,34 @@ type OverlayHandlers = {
     hoverHandlers?: { show: EventListener; hide: EventListener };
     bringToTopHandler?: EventListener;
     resetZIndexHandler?: EventListener;
+    editHandler?: EventListener;
 };
 
+/**
+ * Reduces HTML typed into an overlay to the markup translations use: <b>, <i> and <br>.
+ * Blocks the browser inserts for new lines become <br>.
+ */
+function cleanEditedHtml(html: string): string {
+    const template = document.createElement('template');
+    template.innerHTML = html;
+    const escape = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+    const walk = (node: Node): string => {
+        if (node.nodeType === Node.TEXT_NODE) return escape(node.textContent || '');
+        if (!(node instanceof Element)) return '';
+        const tag = node.tagName.toLowerCase();
+        const content = Array.from(node.childNodes).map(walk).join('');
+        if (tag === 'br') return '<br>';
+        if (tag === 'b' || tag === 'strong') return content ? `<b>${content}</b>` : '';
+        if (tag === 'i' || tag === 'em') return content ? `<i>${content}</i>` : '';
+        if (tag === 'div' || tag === 'p') return `<br>${content}`;
+        return content;
+    };
+    return Array.from(template.content.childNodes).map(walk).join('')
+        .replace(/^(\s*<br>)+/, '')
+        .replace(/(<br>\s*)+$/, '')
+        .trim();
+}
+
 /**
  * Handles the visual rendering, styling, and user interaction aspects of PDF translation overlays.
  * This class focuses on the UI elements themselves.
@@ -30,6 +60,8 @@ export class OverlayUIRenderer {
     private createdOverlays: WeakMap<HTMLElement, OverlayHandlers> = new WeakMap();
     private trackedOverlayElements: Set<HTMLElement> = new Set();
     private tempDiv: HTMLDivElement | null = null; // For efficient HTML to text conversion
+    private displayModes: Map<string, OverlayDisplayMode> = new Map(); // By PDF path; 'overlay' when not set
+    private popover: HTMLElement | null = null;
 
     constructor(plugin: OpenRouterTranslatorPlugin) {
         this.plugin = plugin;
@@ -54,7 +86,9 @@ export class OverlayUIRenderer {
         outputFontSizeScale: number,
         outputLineHeight: number,
         lastKnownScale: number,
-        fontFamily?: string
+        fontFamily?: string,
+        overlayId?: string,
+        pdfPath?: string
     ): HTMLElement {
         if (!rect || rect.width <= 0 || rect.height <= 0) {
             console.debug('[OverlayUIRenderer] createReflowOverlay: Invalid rect');
@@ -63,6 +97,7 @@ export class OverlayUIRenderer {
 
         const el = document.createElement('div');
         el.className = 'pdf-text-overlay-reflow';
+        if (pdfPath) el.dataset.pdfPath = pdfPath; // Selects the display mode of its PDF
 
         const avgOriginalFontSize = originalFontSizes.length > 0
             ? originalFontSizes.reduce((a, b) => a + b, 0) / originalFontSizes.length
@@ -108,6 +143,7 @@ export class OverlayUIRenderer {
         if (originalFontSizes.length > 0) {
             el.setAttribute('data-original-font-sizes', JSON.stringify(originalFontSizes));
         }
+        el.setAttribute(OVERLAY_ID_ATTRIBUTE, overlayId || createOverlayId());
 
         // Interaction events (context menu, z-index bump) - attached here
         const contextHandler = (event: Event) => {
@@ -119,21 +155,210 @@ export class OverlayUIRenderer {
         };
         const bringToTopHandler = () => this.bringToTop(el);
         const resetZIndexHandler = () => { el.style.zIndex = '101'; };
+        const editHandler = (event: Event) => {
+            event.preventDefault();
+            event.stopPropagation();
+            this.startInlineEdit(el);
+        };
 
         el.addEventListener('contextmenu', contextHandler);
         el.addEventListener('mouseover', bringToTopHandler);
         el.addEventListener('mouseleave', resetZIndexHandler);
+        el.addEventListener('dblclick', editHandler);
 
         this.createdOverlays.set(el, {
             contextHandler,
             bringToTopHandler,
             resetZIndexHandler,
+            editHandler,
         });
         this.trackedOverlayElements.add(el);
+        this.applyDisplayMode(el);
 
         return el;
     }
 
+    // ============================================================
+    // Display Mode
+    // ============================================================
+
+    /**
+     * Sets how the overlays of one PDF are shown and applies it to those already created.
+     */
+    public setDisplayMode(pdfPath: string, mode: OverlayDisplayMode): void {
+        if (mode === this.getDisplayModeOf(pdfPath)) return;
+        if (mode === 'overlay') this.displayModes.delete(pdfPath);
+        else this.displayModes.set(pdfPath, mode);
+        this.hidePopover();
+        this.trackedOverlayElements.forEach(el => {
+            if (el.dataset.pdfPath === pdfPath) this.applyDisplayMode(el);
+        });
+    }
+
+    private getDisplayModeOf(pdfPath: string | undefined): OverlayDisplayMode {
+        return (pdfPath && this.displayModes.get(pdfPath)) || 'overlay';
+    }
+
+    private getDisplayMode(el: HTMLElement): OverlayDisplayMode {
+        return this.getDisplayModeOf(el.dataset.pdfPath);
+    }
+
+    /**
+     * Attaches the hover popover of the current display mode to an overlay and,
+     * when the original should stay visible, makes the overlay itself transparent.
+     */
+    private applyDisplayMode(el: HTMLElement): void {
+        this.cleanupHoverHandlers(el);
+        if (el.style.visibility !== 'hidden') this.setOverlayElementVisibility(el, true);
+        if (this.getDisplayMode(el) === 'overlay') return;
+
+        const show = () => this.showPopover(el);
+        const hide = () => this.hidePopover();
+        el.addEventListener('mouseenter', show);
+        el.addEventListener('mouseleave', hide);
+        const handlers = this.createdOverlays.get(el);
+        if (handlers) handlers.hoverHandlers = { show, hide };
+    }
+
+    /**
+     * Shows the text the overlay does not show (original or translation) in a box above
+     * or below it, on whichever side has more room on the page.
+     */
+    private showPopover(el: HTMLElement): void {
+        this.hidePopover();
+        const inner = el.querySelector('div');
+        const container = el.parentElement;
+        if (!inner || !container || inner.isContentEditable) return;
+
+        const popover = document.createElement('div');
+        popover.className = POPOVER_CLASS;
+        if (this.getDisplayMode(el) === 'original-popover') {
+            popover.appendChild(sanitizeHTMLToDom(inner.innerHTML));
+        } else {
+            const original = el.getAttribute('data-original-text');
+            if (!original) return;
+            popover.textContent = original;
+        }
+
+        const spaceAbove = el.offsetTop;
+        const spaceBelow = container.clientHeight - el.offsetTop - el.offsetHeight;
+        Object.assign(popover.style, {
+            position: 'absolute',
+            left: `${el.offsetLeft}px`,
+            width: `${el.offsetWidth}px`,
+            maxHeight: `${Math.max(spaceAbove, spaceBelow)}px`,
+            overflow: 'hidden',
+            fontSize: el.style.fontSize,
+            fontFamily: el.style.fontFamily,
+            whiteSpace: 'pre-wrap',
+            wordBreak: 'break-word',
+            padding: '2px 4px',
+            boxSizing: 'border-box',
+            background: 'var(--background-primary)',
+            border: '1px solid var(--background-modifier-border)',
+            boxShadow: 'var(--shadow-s)',
+            pointerEvents: 'none',
+            zIndex: '1000',
+        });
+        if (spaceBelow >= spaceAbove) popover.style.top = `${el.offsetTop + el.offsetHeight}px`;
+        else popover.style.bottom = `${container.clientHeight - el.offsetTop}px`;
+        container.appendChild(popover);
+        this.popover = popover;
+    }
+
+    private hidePopover(): void {
+        this.popover?.remove();
+        this.popover = null;
+    }
+
+    /**
+     * Replaces the text of an existing overlay, e.g. when more of a streamed translation arrived.
+     */
+    public updateOverlayText(el: HTMLElement, htmlText: string): void {
+        const inner = el.querySelector('div');
+        if (!inner) return;
+        inner.innerHTML = (htmlText || '').trim() || '…';
+    }
+
+    /**
+     * Makes an overlay's text editable in place. Enter or clicking elsewhere saves the edit,
+     * Shift+Enter adds a line break and Escape cancels. Bold and italic are kept.
+     */
+    private startInlineEdit(el: HTMLElement): void {
+        const inner = el.querySelector('div');
+        if (!inner || inner.isContentEditable) return;
+        const originalHtml = inner.innerHTML;
+        this.hidePopover();
+        if (this.getDisplayMode(el) === 'original-popover') {
+            el.style.opacity = el.style.getPropertyValue('--overlay-opacity') || `${this.plugin.settings.overlayOpacity}`;
+        }
+        inner.contentEditable = 'true';
+        inner.style.outline = '1px solid var(--interactive-accent)';
+        inner.style.cursor = 'text';
+        inner.focus();
+
+        const finish = (save: boolean) => {
+            inner.removeEventListener('keydown', keyHandler);
+            inner.removeEventListener('blur', blurHandler);
+            inner.removeAttribute('contenteditable');
+            inner.style.outline = '';
+            inner.style.cursor = '';
+            if (el.style.visibility !== 'hidden') this.setOverlayElementVisibility(el, true);
+            const editedHtml = save ? cleanEditedHtml(inner.innerHTML) : '';
+            if (!editedHtml || editedHtml === originalHtml) {
+                inner.innerHTML = originalHtml;
+                return;
+            }
+            inner.innerHTML = editedHtml;
+            void this.plugin.overlay.saveEditedOverlay(el, { source: 'manual', timestamp: Date.now() });
+        };
+        const keyHandler = (event: KeyboardEvent) => {
+            event.stopPropagation(); // Keep the keys away from the PDF viewer's shortcuts
+            if (event.key === 'Escape') {
+                event.preventDefault();
+                finish(false);
+            } else if (event.key === 'Enter' && !event.shiftKey) {
+                event.preventDefault();
+                finish(true);
+            }
+        };
+        const blurHandler = () => finish(true);
+        inner.addEventListener('keydown', keyHandler);
+        inner.addEventListener('blur', blurHandler);
+    }
+
+    /**
+     * Stores an overlay's quality check result (saved with the overlay) and shows a badge
+     * listing the flags in its corner. Without flags or score, both are removed.
+     */
+    public setQaResult(el: HTMLElement, flags?: QaFlag[], score?: number): void {
+        el.querySelector('.pdf-translation-qa-badge')?.remove();
+        if (!flags?.length && score === undefined) {
+            el.removeAttribute(QA_ATTRIBUTE);
+            return;
+        }
+        el.setAttribute(QA_ATTRIBUTE, JSON.stringify({ flags: flags ?? [], score }));
+        if (!flags?.length) return;
+
+        const badge = document.createElement('span');
+        badge.className = 'pdf-translation-qa-badge';
+        badge.textContent = '⚑';
+        badge.title = flags.map(flag => flag.message).join('\n');
+        Object.assign(badge.style, {
+            position: 'absolute',
+            top: '0',
+            right: '0',
+            padding: '0 3px',
+            fontSize: '10px',
+            lineHeight: '1.4',
+            borderRadius: '3px',
+            background: 'var(--background-modifier-error)',
+            color: 'var(--text-on-accent)',
+            cursor: 'help',
+        });
+        el.appendChild(badge);
+    }
+
     /**
      * Adjusts overlay's line height first to fit, then font size only as last resort.
      * Ensures minimum font size doesn't go below what would naturally fit the bounding box.
@@ -245,7 +470,10 @@ export class OverlayUIRenderer {
 
     public setOverlayElementVisibility(el: HTMLElement, isVisible: boolean): void {
         if (isVisible) {
-            el.style.opacity = el.style.getPropertyValue('--overlay-opacity') || `${this.plugin.settings.overlayOpacity}`;
+            // With the original kept visible, the overlay only receives the hover for its popover
+            el.style.opacity = this.getDisplayMode(el) === 'original-popover'
+                ? '0'
+                : el.style.getPropertyValue('--overlay-opacity') || `${this.plugin.settings.overlayOpacity}`;
             el.style.pointerEvents = 'auto';
             el.style.visibility = 'visible';
         } else {
@@ -336,6 +564,11 @@ export class OverlayUIRenderer {
 
         menu.addSeparator();
 
+        addItem('Retry Translation', 'rotate-ccw', () => this.plugin.overlay.retryOverlayTranslation(targetOverlay));
+        addItem('Show History / Revert', 'history', () => new RevisionHistoryModal(this.plugin.app, this.plugin, targetOverlay).open());
+        if (this.plugin.settings.manualRefinementMode) {
+            addItem('Edit Boxes', 'move', () => this.plugin.boxEditor.start(targetOverlay.closest<HTMLElement>('.page') ?? undefined));
+        }
         addItem('Retranslate Page...', 'refresh-cw', () => {
             if (!activeFile) return;
             new RetranslateUsingOverlaysModal(this.plugin.app, this.plugin, activeFile).open();
@@ -385,6 +618,7 @@ export class OverlayUIRenderer {
     private cleanupHoverHandlers(el: HTMLElement): void {
         const handlers = this.createdOverlays.get(el)?.hoverHandlers;
         if (handlers) {
+            this.hidePopover();
             el.removeEventListener('mouseenter', handlers.show);
             el.removeEventListener('mouseleave', handlers.hide);
             const allHandlers = this.createdOverlays.get(el)!;
@@ -404,6 +638,9 @@ export class OverlayUIRenderer {
             if (handlers.resetZIndexHandler) {
                 el.removeEventListener('mouseleave', handlers.resetZIndexHandler);
             }
+            if (handlers.editHandler) {
+                el.removeEventListener('dblclick', handlers.editHandler);
+            }
             this.createdOverlays.delete(el);
         }
         this.trackedOverlayElements.delete(el);
@@ -411,6 +648,7 @@ export class OverlayUIRenderer {
     }
 
     public cleanup(): void {
+        this.hidePopover();
         this.trackedOverlayElements.forEach(el => this.cleanupOverlayElement(el));
         this.trackedOverlayElements.clear();
         this.createdOverlays = new WeakMap(); // Clear the map
@@ -3,9 +3,14 @@
 
 import { Menu, Notice, TFile } from 'obsidian';
 import type OpenRouterTranslatorPlugin from './main';
-import type { OverlayPositionData, TranslationUnit, SavedOverlay } from './types';
+import type { OverlayDisplayMode, OverlayPositionData, RevisionInfo, TranslationUnit, SavedOverlay } from './types';
 import { RetranslateUsingOverlaysModal } from './modal-retranslate';
 import { OverlayUIRenderer } from './overlay-ui'; // Import the new UI renderer
+import { FAILED_SEGMENT_CLASS } from './processing';
+import { readQaAttribute, type QaResult } from './quality';
+import { OVERLAY_ID_ATTRIBUTE } from './storage';
+import { readRevisionAttribute, setRevisionAttribute } from './history';
+import { readDisplayMode } from './display-mode';
 
 // Constants
 const OVERLAY_WAIT_TIMEOUT = 5000;
@@ -83,33 +88,52 @@ export class OverlayRenderer {
         return this.createOverlayContainer(pageElement);
     }
 
+    /**
+     * Renders one overlay box per unit into the container. Boxes already rendered
+     * for a unit (tagged with data-unit-id) are updated in place, so this can be
+     * called repeatedly while a streamed translation arrives.
+     * `qaResults` holds the quality check result of each unit, when checks ran.
+     */
     public renderOverlays(
         units: TranslationUnit[],
         translatedLines: string[],
         container: HTMLElement,
-        pageElement: HTMLElement
+        pageElement: HTMLElement,
+        qaResults?: (QaResult | undefined)[]
     ) {
         if (!units?.length || !translatedLines?.length) {
             this.logDebug('renderOverlays: No units or translated lines provided');
             return;
         }
         const textMemo = new Map<string, string>(); // Per-render memo for plain text
+        const pdfPath = this.getPdfPathOf(pageElement);
+        const revision: RevisionInfo = { source: 'machine', timestamp: Date.now(), model: this.plugin.translation.getModelLabel() };
         try {
             const pageNumber = parseInt(pageElement.dataset.pageNumber || '0');
             units.forEach((unit, i) => {
                 try {
                     const translatedText = translatedLines[i] || unit.text;
                     if (!translatedText.trim()) return;
-                    const { rect, fontSizes, fontFamily } = this.plugin.processor.getSpansBbox(unit.originalSpans, pageElement);
+                    const existing = container.querySelector<HTMLElement>(`[data-unit-id="${CSS.escape(unit.id)}"]`);
+                    const qa = qaResults?.[i];
+                    if (existing) {
+                        this.uiRenderer.updateOverlayText(existing, translatedText);
+                        if (qa) this.uiRenderer.setQaResult(existing, qa.flags, qa.score);
+                        return;
+                    }
+                    const { rect, fontSizes, fontFamily } = this.plugin.processor.getItemsBbox(unit.originalItems);
                     if (!rect) return;
-                    const originalPlainText = textMemo.get(unit.text) || this.uiRenderer.extractPlainTextFromHtml(unit.text); // Use helper from uiRenderer
+                    const originalPlainText = textMemo.get(unit.text) || this.uiRenderer.extractPlainTextFromHtml(unit.text.replace(/<br>/g, ' ')); // Use helper from uiRenderer
                     textMemo.set(unit.text, originalPlainText);
                     // Pass necessary settings to uiRenderer
                     const overlayEl = this.uiRenderer.createReflowOverlay(
-                        rect, translatedText, unit.originalSpans[0], fontSizes, pageNumber, originalPlainText,
+                        rect, translatedText, unit.originalItems[0]?.element ?? document.createElement('span'), fontSizes, pageNumber, originalPlainText,
                         this.plugin.settings.overlayOpacity, this.plugin.settings.outputFontSizeScale,
-                        this.plugin.settings.outputLineHeight, this.lastKnownScale, fontFamily
+                        this.plugin.settings.outputLineHeight, this.lastKnownScale, fontFamily, undefined, pdfPath
                     );
+                    overlayEl.dataset.unitId = unit.id;
+                    if (qa) this.uiRenderer.setQaResult(overlayEl, qa.flags, qa.score);
+                    setRevisionAttribute(overlayEl, revision);
                     container.appendChild(overlayEl);
                 } catch (unitError) {
                     this.logDebug(`Error rendering unit ${i}:`, unitError);
@@ -282,6 +306,7 @@ export class OverlayRenderer {
         this.loadedOverlayPages.clear();
 
         const translationFile = await this.plugin.storage.findTranslationFileForPdf(pdfFile);
+        this.uiRenderer.setDisplayMode(pdfFile.path, readDisplayMode(this.plugin.app, translationFile));
         if (!translationFile) {
             return; // No translation file exists.
         }
@@ -632,6 +657,7 @@ export class OverlayRenderer {
 
                 const textLayer = await this.waitForPdfTextLayer(pageNumber);
                 if (!textLayer) return;
+                const pdfPath = this.getPdfPathOf(pageElement);
 
                 // guarantee container
                 if (pageElement.querySelector('.pdf-text-overlay-container')) {
@@ -663,8 +689,12 @@ export class OverlayRenderer {
                             this.plugin.settings.outputFontSizeScale,
                             this.plugin.settings.outputLineHeight,
                             this.lastKnownScale,
-                            data.fontFamily
+                            data.fontFamily,
+                            data.id,
+                            pdfPath
                         );
+                        this.uiRenderer.setQaResult(overlayEl, data.qaFlags, data.qaScore);
+                        setRevisionAttribute(overlayEl, data.revision);
                         stagingContainer.appendChild(overlayEl);
                         overlays.push(overlayEl);
                     } catch (err) {
@@ -746,6 +776,21 @@ export class OverlayRenderer {
         this.plugin.saveSettings().catch(console.error);
     }
 
+    /**
+     * Switches how the overlays of a PDF are shown, including those already on screen.
+     */
+    public setDisplayMode(pdfFile: TFile, mode: OverlayDisplayMode): void {
+        this.uiRenderer.setDisplayMode(pdfFile.path, mode);
+    }
+
+    /**
+     * Path of the PDF open in the leaf that shows the element, if any.
+     */
+    private getPdfPathOf(el: HTMLElement): string | undefined {
+        const leaf = this.plugin.app.workspace.getLeavesOfType('pdf').find(candidate => candidate.view.containerEl.contains(el));
+        return (leaf?.view as any)?.file?.path;
+    }
+
     private updateAllOverlayVisibility(): void {
         const cacheKey = 'cacheRefresh';
         if (!this.activeLeavesCache || Date.now() - (this.memoCache.get(cacheKey)?.timestamp || 0) > 1000) {
@@ -883,6 +928,7 @@ export class OverlayRenderer {
 
             const pageElement = textLayer.closest('.page') as HTMLElement;
             if (!pageElement) return;
+            const pdfPath = this.getPdfPathOf(pageElement);
 
             // Wait for textLayer dimensions to become valid
             let retries = 0;
@@ -936,8 +982,12 @@ export class OverlayRenderer {
                         this.plugin.settings.outputFontSizeScale,
                         this.plugin.settings.outputLineHeight,
                         this.lastKnownScale,
-                        data.fontFamily
+                        data.fontFamily,
+                        data.id,
+                        pdfPath
                     );
+                    this.uiRenderer.setQaResult(overlayEl, data.qaFlags, data.qaScore);
+                    setRevisionAttribute(overlayEl, data.revision);
                     stagingContainer.appendChild(overlayEl);
                     overlays.push(overlayEl);
                 } catch (itemError) {
@@ -1152,6 +1202,7 @@ export class OverlayRenderer {
                     : [];
 
                 positionData.push({
+                    id: overlay.getAttribute(OVERLAY_ID_ATTRIBUTE) || undefined,
                     selector: '',
                     textContent: overlay.getAttribute('data-original-text') || '',
                     translatedText: overlay.querySelector('div')?.innerHTML || overlay.textContent || '',
@@ -1159,6 +1210,8 @@ export class OverlayRenderer {
                     page: pageNumber,
                     originalFontSizes: relativeFontSizes,
                     fontFamily: overlay.style.fontFamily || undefined,
+                    ...readQaAttribute(overlay),
+                    ...readRevisionAttribute(overlay),
                 });
             } catch (itemError) {
                 this.logDebug('extractPositionDataFrom item error:', itemError);
@@ -1202,6 +1255,113 @@ export class OverlayRenderer {
         }
     }
 
+    /**
+     * Translates an overlay again. Segments marked as failed are retried one by one and replaced
+     * in place; an overlay without failed segments is retranslated from its original text.
+     */
+    public async retryOverlayTranslation(overlayEl: HTMLElement): Promise<void> {
+        const inner = overlayEl.querySelector('div');
+        if (!inner) return;
+        const pdfFile = this.getActivePDFLeaf()?.view?.file ?? null;
+        const notice = new Notice('Retrying translation...', 0);
+        try {
+            const failed = Array.from(inner.querySelectorAll<HTMLElement>(`.${FAILED_SEGMENT_CLASS}`));
+            if (failed.length > 0) {
+                let stillFailing = 0;
+                for (const span of failed) {
+                    const source = span.innerHTML.replace(/^⚠\s*/, '');
+                    const translated = await this.plugin.processor.translateSegment(source, pdfFile);
+                    if (!translated.trim() || translated === source) {
+                        stillFailing++;
+                        continue;
+                    }
+                    span.insertAdjacentHTML('beforebegin', translated);
+                    span.remove();
+                }
+                if (stillFailing > 0) new Notice(`⚠️ ${stillFailing} segment(s) still failed.`);
+            } else {
+                const source = overlayEl.getAttribute('data-original-text') || '';
+                if (!source.trim()) return;
+                this.uiRenderer.updateOverlayText(overlayEl, await this.plugin.processor.translateSegment(source, pdfFile));
+            }
+            this.uiRenderer.setQaResult(overlayEl); // The flags were about the old translation
+            setRevisionAttribute(overlayEl, { source: 'machine', timestamp: Date.now(), model: this.plugin.translation.getModelLabel() });
+            this.uiRenderer.adjustOverlayForOverflow(overlayEl, this.plugin.settings.outputLineHeight);
+            if (this.plugin.settings.autoSaveOverlay) await this.saveCurrentPageOverlay();
+        } catch (error: any) {
+            this.logDebug('retryOverlayTranslation failed:', error);
+            new Notice(`⚠️ Retry failed: ${error.message || 'Unknown error'}`);
+        } finally {
+            notice.hide();
+        }
+    }
+
+    /**
+     * Saves an overlay whose text was edited in place or reverted. Only its entry in the translation
+     * file is changed, and the replaced text goes to the entry's history; an overlay that was never
+     * saved is saved together with its page.
+     * @param revision Where the new text came from.
+     */
+    public async saveEditedOverlay(overlayEl: HTMLElement, revision: RevisionInfo): Promise<void> {
+        this.uiRenderer.setQaResult(overlayEl); // The flags were about the old translation
+        setRevisionAttribute(overlayEl, revision);
+        this.uiRenderer.adjustOverlayForOverflow(overlayEl, this.plugin.settings.outputLineHeight);
+
+        const pdfFile = this.getActivePDFLeaf()?.view?.file;
+        const id = overlayEl.getAttribute(OVERLAY_ID_ATTRIBUTE);
+        const pageNumber = parseInt(overlayEl.closest<HTMLElement>('.page')?.dataset.pageNumber || '0', 10);
+        if (!pdfFile || !id || !pageNumber) return;
+
+        const changes: Partial<OverlayPositionData> = {
+            translatedText: overlayEl.querySelector('div')?.innerHTML ?? '',
+            qaFlags: undefined,
+            qaScore: undefined,
+            revision,
+        };
+        try {
+            if (await this.plugin.storage.updateOverlayItem(pdfFile, pageNumber, id, changes)) {
+                const cached = this.cachedOverlayData?.pageOverlays[pageNumber]?.find(item => item.id === id);
+                if (cached) Object.assign(cached, changes);
+                new Notice('✅ Translation updated.', 2000);
+            } else {
+                await this.saveCurrentPageOverlay();
+            }
+        } catch (error: any) {
+            this.logDebug('saveEditedOverlay failed:', error);
+            new Notice(`⚠️ Could not save the edit: ${error.message || 'Unknown error'}`);
+        }
+    }
+
+    // ============================================================
+    // Public API for OverlayBoxEditor
+    // ============================================================
+
+    /**
+     * Creates an overlay element for a box made in the box editor. `rect` is in the overlay
+     * container's pixels; the caller adds the element to the container.
+     */
+    public createOverlayElement(rect: DOMRect, translatedText: string, originalText: string, originalFontSizes: number[], pageNumber: number, pdfFile: TFile, fontFamily?: string): HTMLElement {
+        return this.uiRenderer.createReflowOverlay(
+            rect, translatedText, document.createElement('span'), originalFontSizes, pageNumber, originalText,
+            this.plugin.settings.overlayOpacity, this.plugin.settings.outputFontSizeScale,
+            this.plugin.settings.outputLineHeight, this.lastKnownScale, fontFamily, undefined, pdfFile.path
+        );
+    }
+
+    /**
+     * Replaces an overlay's text and drops the quality flags, which were about the old text.
+     */
+    public replaceOverlayText(overlayEl: HTMLElement, htmlText: string, revision: RevisionInfo): void {
+        this.uiRenderer.updateOverlayText(overlayEl, htmlText);
+        this.uiRenderer.setQaResult(overlayEl);
+        setRevisionAttribute(overlayEl, revision);
+        this.uiRenderer.adjustOverlayForOverflow(overlayEl, this.plugin.settings.outputLineHeight);
+    }
+
+    public removeOverlayElement(overlayEl: HTMLElement): void {
+        this.uiRenderer.cleanupOverlayElement(overlayEl);
+    }
+
     // Note: adjustSingleOverlayLineHeight and adjustSingleOverlayFontSize are now handled by uiRenderer and are private there
 
     // ============================================================
@@ -0,0 +1,332 @@
+// pdf-export.ts
+import { Notice, TFile, loadPdfJs, normalizePath } from 'obsidian';
+import type OpenRouterTranslatorPlugin from './main';
+import type { OverlayPositionData } from './types';
+import { unwrapFailedSegments } from './processing';
+import { decodeEntities } from './html-text';
+
+// Constants
+const PDF_POINTS_PER_INCH = 72; // pdf.js viewports at scale 1 measure PDF points
+const JPEG_QUALITY = 0.85;
+const DEFAULT_FONT_SIZE = 10; // pt, when a box has no stored font size
+const MIN_FONT_SIZE = 4; // pt, text is clipped below this
+const MIN_LINE_HEIGHT = 1.0;
+const LINE_HEIGHT_STEP = 0.1;
+const FONT_SHRINK_STEP = 0.92;
+const BOX_PADDING = 0.5; // pt kept free inside the whited-out box
+const ASCENT_RATIO = 0.8; // Baseline offset of the first line, relative to the font size
+
+interface TextRun {
+    text: string;
+    bold: boolean;
+    italic: boolean;
+}
+
+interface LinePiece {
+    text: string;
+    font: string;
+    width: number;
+}
+
+/** A rendered page: JPEG data and its size in pixels and in PDF points. */
+interface PageImage {
+    jpeg: Uint8Array;
+    pixelWidth: number;
+    pixelHeight: number;
+    width: number;
+    height: number;
+}
+
+// === HTML to Runs ===
+
+/**
+ * Splits an overlay's translated HTML into paragraphs (at <br>) of styled runs.
+ * Only <b>/<strong> and <i>/<em> are interpreted; other tags are dropped.
+ */
+function parseRuns(html: string): TextRun[][] {
+    const paragraphs: TextRun[][] = [[]];
+    let bold = 0, italic = 0;
+    for (const part of html.split(/(<[^>]+>)/g)) {
+        if (!part) continue;
+        const tag = part.match(/^<\s*(\/?)\s*([a-z]+)/i);
+        if (tag) {
+            const closing = tag[1] === '/';
+            const name = tag[2].toLowerCase();
+            if (name === 'br' || (closing && (name === 'p' || name === 'div'))) paragraphs.push([]);
+            else if (name === 'b' || name === 'strong') bold = Math.max(0, bold + (closing ? -1 : 1));
+            else if (name === 'i' || name === 'em') italic = Math.max(0, italic + (closing ? -1 : 1));
+            continue;
+        }
+        paragraphs[paragraphs.length - 1].push({ text: decodeEntities(part).replace(/\s+/g, ' '), bold: bold > 0, italic: italic > 0 });
+    }
+    return paragraphs;
+}
+
+// === PDF Writing ===
+
+/**
+ * Builds a PDF with one full-page JPEG image per page. Images are embedded as
+ * DCTDecode streams, so no compression code is needed.
+ */
+function buildImagePdf(pages: PageImage[]): ArrayBuffer {
+    const encoder = new TextEncoder();
+    const parts: Uint8Array[] = [];
+    const offsets: number[] = [];
+    let length = 0;
+    const write = (chunk: string | Uint8Array) => {
+        const bytes = typeof chunk === 'string' ? encoder.encode(chunk) : chunk;
+        parts.push(bytes);
+        length += bytes.length;
+    };
+    const beginObject = (id: number) => {
+        offsets[id] = length;
+        write(`${id} 0 obj\n`);
+    };
+
+    write('%PDF-1.4\n');
+    write(new Uint8Array([0x25, 0xe2, 0xe3, 0xcf, 0xd3, 0x0a])); // Binary comment, so transfer tools keep the bytes intact
+
+    // Objects: 1 catalog, 2 page tree, then page, content stream and image for each page
+    const pageId = (i: number) => 3 + i * 3;
+    beginObject(1);
+    write('<< /Type /Catalog /Pages 2 0 R >>\nendobj\n');
+    beginObject(2);
+    write(`<< /Type /Pages /Kids [${pages.map((_, i) => `${pageId(i)} 0 R`).join(' ')}] /Count ${pages.length} >>\nendobj\n`);
+
+    pages.forEach((page, i) => {
+        const id = pageId(i);
+        const width = page.width.toFixed(2);
+        const height = page.height.toFixed(2);
+        beginObject(id);
+        write(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${width} ${height}] /Resources << /XObject << /Im0 ${id + 2} 0 R >> >> /Contents ${id + 1} 0 R >>\nendobj\n`);
+
+        const content = `q ${width} 0 0 ${height} 0 0 cm /Im0 Do Q`;
+        beginObject(id + 1);
+        write(`<< /Length ${content.length} >>\nstream\n${content}\nendstream\nendobj\n`);
+
+        beginObject(id + 2);
+        write(`<< /Type /XObject /Subtype /Image /Width ${page.pixelWidth} /Height ${page.pixelHeight} /ColorSpace /DeviceRGB /BitsPerComponent 8 /Filter /DCTDecode /Length ${page.jpeg.length} >>\nstream\n`);
+        write(page.jpeg);
+        write('\nendstream\nendobj\n');
+    });
+
+    const objectCount = 3 + pages.length * 3;
+    const xrefOffset = length;
+    write(`xref\n0 ${objectCount}\n0000000000 65535 f \n`);
+    for (let id = 1; id < objectCount; id++) write(`${String(offsets[id]).padStart(10, '0')} 00000 n \n`);
+    write(`trailer\n<< /Size ${objectCount} /Root 1 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`);
+
+    const out = new Uint8Array(length);
+    let offset = 0;
+    for (const part of parts) {
+        out.set(part, offset);
+        offset += part.length;
+    }
+    return out.buffer;
+}
+
+/**
+ * Writes a copy of a PDF with each saved overlay box whited out and its
+ * translation typeset into the box, so the result can be read anywhere.
+ * Pages are rendered with pdf.js and stored as images, so the copy keeps every
+ * script the system fonts can draw, but its text cannot be selected.
+ */
+export class TranslatedPdfExporter {
+    private plugin: OpenRouterTranslatorPlugin;
+
+    constructor(plugin: OpenRouterTranslatorPlugin) {
+        this.plugin = plugin;
+    }
+
+    async export(pdfFile: TFile): Promise<void> {
+        const saved = await this.plugin.storage.readSavedOverlayForFile(pdfFile);
+        if (!saved) {
+            new Notice('No saved translation found for this PDF.');
+            return;
+        }
+
+        const notice = new Notice('Building translated PDF...', 0);
+        let pdfDoc: any = null;
+        try {
+            const pdfjs = await loadPdfJs();
+            pdfDoc = await pdfjs.getDocument({ data: new Uint8Array(await this.plugin.app.vault.readBinary(pdfFile)) }).promise;
+            const scale = (this.plugin.settings.pdfExportDpi || PDF_POINTS_PER_INCH) / PDF_POINTS_PER_INCH;
+
+            const pages: PageImage[] = [];
+            let boxCount = 0;
+            for (let pageNumber = 1; pageNumber <= pdfDoc.numPages; pageNumber++) {
+                notice.setMessage(`Building translated PDF... page ${pageNumber}/${pdfDoc.numPages}`);
+                const items = saved.overlay.pageOverlays[pageNumber] || [];
+                pages.push(await this.renderPage(pdfDoc, pageNumber, scale, items));
+                boxCount += items.length;
+            }
+
+            const path = this.getExportPath(pdfFile);
+            await this.plugin.storage.writeBinaryFile(path, buildImagePdf(pages));
+            new Notice(`✅ Wrote ${boxCount} translated box(es) on ${pages.length} page(s) to ${path}`);
+        } catch (error: any) {
+            console.error('Translated PDF export failed:', error);
+            new Notice(`⚠️ PDF export failed: ${error.message}`);
+        } finally {
+            pdfDoc?.destroy();
+            notice.hide();
+        }
+    }
+
+    private getExportPath(pdfFile: TFile): string {
+        const dir = (pdfFile.parent?.path || '').replace(/\/+$/, '');
+        const lang = this.plugin.settings.targetLanguage;
+        return normalizePath(`${dir && dir !== '/' ? dir + '/' : ''}${pdfFile.basename}.${lang}.pdf`);
+    }
+
+    /**
+     * Renders a page as displayed (rotation applied), draws its overlays on top and
+     * encodes the result as JPEG.
+     */
+    private async renderPage(pdfDoc: any, pageNumber: number, scale: number, items: OverlayPositionData[]): Promise<PageImage> {
+        const page = await pdfDoc.getPage(pageNumber);
+        const canvas = document.createElement('canvas');
+        try {
+            const viewport = page.getViewport({ scale });
+            canvas.width = Math.ceil(viewport.width);
+            canvas.height = Math.ceil(viewport.height);
+            const ctx = canvas.getContext('2d');
+            if (!ctx) throw new Error('Canvas rendering is not available.');
+
+            // JPEG has no transparency; start from a white page
+            ctx.fillStyle = '#ffffff';
+            ctx.fillRect(0, 0, canvas.width, canvas.height);
+            await page.render({ canvasContext: ctx, viewport }).promise;
+            items.forEach(item => this.drawOverlay(ctx, item, canvas.width, canvas.height, scale));
+
+            const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', JPEG_QUALITY));
+            if (!blob) throw new Error(`Could not encode page ${pageNumber}.`);
+            return {
+                jpeg: new Uint8Array(await blob.arrayBuffer()),
+                pixelWidth: canvas.width,
+                pixelHeight: canvas.height,
+                width: canvas.width / scale,
+                height: canvas.height / scale,
+            };
+        } finally {
+            page.cleanup();
+            // Releases the canvas memory right away instead of at garbage collection
+            canvas.width = 0;
+            canvas.height = 0;
+        }
+    }
+
+    /**
+     * Whites out one box and typesets its translation. Failed segments print their
+     * original text, as in the other exports.
+     */
+    private drawOverlay(ctx: CanvasRenderingContext2D, item: OverlayPositionData, pageWidth: number, pageHeight: number, scale: number): void {
+        const { left, top, width, height } = item.relativeRect;
+        const box = { x: left * pageWidth, y: top * pageHeight, width: width * pageWidth, height: height * pageHeight };
+        ctx.fillStyle = '#ffffff';
+        ctx.fillRect(box.x, box.y, box.width, box.height);
+
+        const paragraphs = parseRuns(unwrapFailedSegments(item.translatedText || ''));
+        const padding = BOX_PADDING * scale;
+        const innerWidth = Math.max(1, box.width - 2 * padding);
+        const innerHeight = Math.max(1, box.height - 2 * padding);
+        const family = this.getFontFamily(ctx, item.fontFamily);
+        const { lines, fontSize, lineHeight } = this.fitText(ctx, paragraphs, family, item, scale, innerWidth, innerHeight);
+
+        ctx.save();
+        ctx.beginPath();
+        ctx.rect(box.x, box.y, box.width, box.height);
+        ctx.clip(); // Clips at the box bottom when even the minimum size overflows
+        ctx.fillStyle = '#000000';
+        ctx.textBaseline = 'alphabetic';
+        let baseline = box.y + padding + fontSize * ASCENT_RATIO;
+        for (const line of lines) {
+            if (baseline - fontSize * ASCENT_RATIO > box.y + box.height) break;
+            let x = box.x + padding;
+            for (const piece of line) {
+                ctx.font = piece.font;
+                ctx.fillText(piece.text, x, baseline);
+                x += piece.width;
+            }
+            baseline += fontSize * lineHeight;
+        }
+        ctx.restore();
+    }
+
+    /**
+     * The overlay's font family with a sans-serif fallback, or plain sans-serif when
+     * the canvas rejects the stored family (pdf.js sometimes records internal names).
+     */
+    private getFontFamily(ctx: CanvasRenderingContext2D, fontFamily?: string): string {
+        if (!fontFamily) return 'sans-serif';
+        const candidate = `${fontFamily}, sans-serif`;
+        ctx.font = '10px serif';
+        ctx.font = `10px ${candidate}`;
+        return ctx.font === '10px serif' ? 'sans-serif' : candidate;
+    }
+
+    /**
+     * Same strategy as the on-screen overlays: start at the stored font size, tighten the
+     * line height first, and only then shrink the font until the text fits the box.
+     */
+    private fitText(ctx: CanvasRenderingContext2D, paragraphs: TextRun[][], family: string, item: OverlayPositionData, scale: number, maxWidth: number, maxHeight: number) {
+        const storedSize = item.fontSize
+            ?? (item.originalFontSizes?.length ? item.originalFontSizes.reduce((a, b) => a + b, 0) / item.originalFontSizes.length : DEFAULT_FONT_SIZE);
+        const minFontSize = MIN_FONT_SIZE * scale;
+        let fontSize = storedSize * (this.plugin.settings.outputFontSizeScale || 1) * scale;
+        let lineHeight = this.plugin.settings.outputLineHeight || 1.2;
+
+        let lines = this.layoutLines(ctx, paragraphs, family, fontSize, maxWidth);
+        while (lines.length * fontSize * lineHeight > maxHeight && fontSize > minFontSize) {
+            if (lineHeight > MIN_LINE_HEIGHT) {
+                lineHeight = Math.max(MIN_LINE_HEIGHT, lineHeight - LINE_HEIGHT_STEP);
+            } else {
+                fontSize = Math.max(minFontSize, fontSize * FONT_SHRINK_STEP);
+                lines = this.layoutLines(ctx, paragraphs, family, fontSize, maxWidth);
+            }
+        }
+        return { lines, fontSize, lineHeight };
+    }
+
+    /**
+     * Greedy word wrap over styled runs. Words longer than a line (or scripts without
+     * spaces) are broken between characters.
+     */
+    private layoutLines(ctx: CanvasRenderingContext2D, paragraphs: TextRun[][], family: string, fontSize: number, maxWidth: number): LinePiece[][] {
+        const fontFor = (run: TextRun) => `${run.italic ? 'italic ' : ''}${run.bold ? 'bold ' : ''}${fontSize}px ${family}`;
+        const lines: LinePiece[][] = [];
+
+        for (const runs of paragraphs) {
+            let line: LinePiece[] = [];
+            let lineWidth = 0;
+            const pushLine = () => {
+                while (line.length && !line[line.length - 1].text.trim()) line.pop(); // trailing spaces
+                lines.push(line);
+                line = [];
+                lineWidth = 0;
+            };
+            const place = (text: string, font: string) => {
+                ctx.font = font;
+                const width = ctx.measureText(text).width;
+                const isSpace = !text.trim();
+                if (isSpace && line.length === 0) return;
+                if (!isSpace && lineWidth + width > maxWidth && line.length > 0) pushLine();
+                if (!isSpace && width > maxWidth && Array.from(text).length > 1) {
+                    for (const ch of Array.from(text)) place(ch, font);
+                    return;
+                }
+                line.push({ text, font, width });
+                lineWidth += width;
+            };
+
+            for (const run of runs) {
+                const font = fontFor(run);
+                for (const token of run.text.split(/(\s+)/)) {
+                    if (token) place(token, font);
+                }
+            }
+            pushLine();
+        }
+        return lines;
+    }
+}
\ No newline at end of file
@@ -1,24 +1,198 @@
 
 // processing.ts
-import { Notice } from 'obsidian';
+import { Notice, TFile } from 'obsidian';
 import OpenRouterTranslatorPlugin from './main';
-import { TranslationUnit } from './types';
+import { ModelChoice, OverlayPositionData, TranslationUnit } from './types';
 import { LayoutDetector, LayoutSettings } from './layout-detector';
+import { makeRect, readTextItems, type ItemRect, type PageSize, type TextItem } from './TextItem';
+import type { TranslationRequestOptions, PartialTextCallback, JsonSegment } from './translation';
+import type { DocumentContext } from './document-context';
+import type { LoadedGlossary } from './glossary';
+import type { QaResult } from './quality';
+import { createOverlayId } from './storage';
+import { htmlToPlainText } from './html-text';
+
+/**
+ * Optional inputs for TextProcessor.executeTranslation.
+ */
+export interface TranslationExecutionOptions {
+  /** Called with the lines received so far while responses stream in (empty string for lines not yet arrived). */
+  onProgress?: (lines: string[]) => void;
+  /** Page being translated; enables document context from the previous page. */
+  pageNumber?: number;
+  /** PDF the units come from. Defaults to the active file. */
+  pdfFile?: TFile | null;
+  /** Provider and model to use instead of the active ones. Bypasses the translation memory, whose entries come from the active model. */
+  model?: ModelChoice;
+  /** Called with the estimated extra prompt tokens spent on document context. */
+  onContextTokens?: (tokens: number) => void;
+}
+
+/**
+ * Optional inputs for TextProcessor.translatePageContent.
+ */
+export interface PageTranslationOptions {
+  /** PDF the page belongs to. Defaults to the active file. */
+  pdfFile?: TFile | null;
+  /** Show streamed lines on the page while translating. Defaults to the streamResponses setting. */
+  livePreview?: boolean;
+  /** Called with the estimated extra prompt tokens spent on document context. */
+  onContextTokens?: (tokens: number) => void;
+}
+
+/**
+ * A page given as plain text items instead of a rendered page element.
+ */
+export interface PageItems {
+  items: TextItem[];
+  size: PageSize;
+}
+
+/**
+ * Inputs for TextProcessor.translatePageItems.
+ */
+export interface PageItemsTranslationOptions {
+  pageNumber: number;
+  pdfFile: TFile;
+  /** The following page, so that a paragraph running over the page break can be stitched. */
+  nextPage?: PageItems | null;
+  /** Called with the estimated extra prompt tokens spent on document context. */
+  onContextTokens?: (tokens: number) => void;
+}
+
+/**
+ * A translated page: its units, one translated line per unit and, when quality checks
+ * ran, their results keyed by paragraph id.
+ */
+export interface PageTranslation {
+  units: TranslationUnit[];
+  lines: string[];
+  qaResults?: Map<string, QaResult>;
+}
+
+interface PageUnitsContext {
+  pageNumber?: number;
+  pdfFile: TFile | null;
+  getNextPageFirstUnit: () => TranslationUnit | null;
+  onProgress?: (lines: string[]) => void;
+  onContextTokens?: (tokens: number) => void;
+}
+
+/**
+ * State of one executeTranslation call. Several calls can run at once (the viewer, the job
+ * queue, model comparison), so it is passed along instead of kept on the processor.
+ */
+interface TranslationRun {
+  pdfPath: string; // For usage accounting
+  model?: ModelChoice; // When not the active one
+  glossary: LoadedGlossary;
+  documentContext: DocumentContext | null;
+  contextTokens: number;
+  failures: { segmentIndex: number; error: string }[];
+}
+
+// Final paragraphs shorter than this are treated as running footers, not split sentences
+const MIN_STITCH_CHARS = 40;
+// Follow-up requests for segments missing from a JSON batch answer
+const JSON_MISSING_RETRIES = 2;
+
+/**
+ * True when a unit's HTML text ends a sentence (terminal punctuation, possibly
+ * followed by closing <b>/<i> tags) or ends with a hard line break.
+ */
+export function endsWithSentenceTerminator(htmlText: string): boolean {
+  const trimmed = htmlText.trim();
+  if (trimmed.endsWith('<br>')) return true;
+  const regex = /[.?!](?:\s*<\/[bi]>)*\s*$/;
+  return regex.test(trimmed);
+}
+
+/**
+ * Turns line breaks inside one translated segment into <br>. A page's segments travel as
+ * newline-separated lines, so a raw newline would shift every segment after it.
+ */
+function toSingleLine(text: string): string {
+  return text.replace(/\r?\n/g, '<br>');
+}
+
+// Marks segments that still failed after all retries; the original text is shown inside
+export const FAILED_SEGMENT_CLASS = 'pdf-translation-failed';
+
+/**
+ * Wraps the original text of a segment that could not be translated, so the overlay shows it
+ * visibly marked instead of passing it off as a translation. The marker is saved with the overlay.
+ */
+export function markFailedSegment(htmlText: string): string {
+  return `<span class="${FAILED_SEGMENT_CLASS}" title="Translation failed. Right-click to retry." style="text-decoration: underline wavy var(--text-error);">⚠ ${htmlText}</span>`;
+}
+
+/**
+ * True when translated HTML contains a segment marked by markFailedSegment.
+ */
+export function containsFailedSegment(htmlText: string): boolean {
+  return htmlText.includes(`class="${FAILED_SEGMENT_CLASS}"`);
+}
+
+/**
+ * Replaces each segment marked by markFailedSegment with its original text, or removes it
+ * when `keepOriginal` is false. For output outside the overlays, where the marker means nothing.
+ */
+export function unwrapFailedSegments(htmlText: string, keepOriginal = true): string {
+  if (!containsFailedSegment(htmlText)) return htmlText;
+  const marker = new RegExp(`<span class="${FAILED_SEGMENT_CLASS}"[^>]*>⚠ ([\\s\\S]*?)</span>`, 'g');
+  return htmlText.replace(marker, (_, original: string) => keepOriginal ? original : '').replace(/ {2,}/g, ' ').trim();
+}
+
+function plainTextLength(htmlText: string): number {
+  return htmlText.replace(/<[^>]+>/g, '').replace(/&(?:\w+|#\d+);/g, ' ').length;
+}
+
+/**
+ * Splits a translated (HTML) text into two parts, the first holding roughly `headShare`
+ * of the visible characters. Tags are never cut, and the split moves to the nearest
+ * whitespace when there is one close by (languages without spaces split exactly).
+ */
+export function splitTranslationProportionally(htmlText: string, headShare: number): [string, string] {
+  const positions: number[] = []; // String index of each visible character
+  let inTag = false;
+  for (let i = 0; i < htmlText.length; i++) {
+    const ch = htmlText[i];
+    if (ch === '<') inTag = true;
+    if (!inTag) positions.push(i);
+    if (ch === '>') inTag = false;
+  }
+  if (positions.length === 0) return [htmlText, ''];
+
+  const target = Math.min(positions.length - 1, Math.max(0, Math.round(positions.length * headShare)));
+  const window = Math.max(5, Math.round(positions.length * 0.15));
+  let splitAt = positions[target];
+  for (let offset = 0; offset <= window; offset++) {
+    const candidates = [target + offset, target - offset].filter(i => i > 0 && i < positions.length);
+    const hit = candidates.find(i => /\s/.test(htmlText[positions[i]]));
+    if (hit !== undefined) {
+      splitAt = positions[hit];
+      break;
+    }
+  }
+  return [htmlText.slice(0, splitAt).trim(), htmlText.slice(splitAt).trim()];
+}
 
 export class TextProcessor {
   private plugin: OpenRouterTranslatorPlugin;
   public layoutDetector: LayoutDetector;
 
   // Caches
-  private measurementCache = new Map<HTMLElement, { rect: DOMRect; timestamp: number }>();
-  private styleCache = new Map<HTMLElement, CSSStyleDeclaration>();
   private colorDistanceCache = new Map<string, number>();
-  private lastPreparedUnits: { pageElement: HTMLElement, units: TranslationUnit[] } | null = null;
+  // Units of the last translation of each page, for rendering or saving it afterwards
+  private preparedUnits = new WeakMap<HTMLElement, TranslationUnit[]>();
+  // Quality check results of the last translation of each page, keyed by paragraph id
+  private qaResults = new WeakMap<HTMLElement, Map<string, QaResult>>();
 
   // State
   private overlayContainers: HTMLElement[] = [];
-  private translationFailures: { segmentIndex: number; error: string }[] = [];
   private lastColumnAnalysis: { edgeCols: DOMRect[]; gapCols: DOMRect[] } | null = null;
+  // Translations of next-page fragments produced by cross-page stitching, keyed by "pdfPath#page"
+  private crossPageCarryOvers = new Map<string, { sourceText: string; translation: string }>();
 
   constructor(plugin: OpenRouterTranslatorPlugin) {
     this.plugin = plugin;
@@ -53,11 +227,13 @@ export class TextProcessor {
    */
   public async addOverlayToPage(pageElement: HTMLElement) {
     try {
-      const translatedText = await this.translatePageContent(pageElement);
+      let contextTokens = 0;
+      const translatedText = await this.translatePageContent(pageElement, { onContextTokens: tokens => { contextTokens = tokens; } });
       if (translatedText) {
         await this.createOverlayWithText(pageElement, translatedText);
-        const successfulTranslations = translatedText.split('\n').filter(line => line !== 'Translation missing').length;
-        new Notice(`✅ Translation complete. Rendered ${successfulTranslations} segment(s).`, 3000);
+        const successfulTranslations = translatedText.split('\n').filter(line => !containsFailedSegment(line)).length;
+        const contextNote = contextTokens > 0 ? ` (+~${contextTokens} context tokens)` : '';
+        new Notice(`✅ Translation complete. Rendered ${successfulTranslations} segment(s)${contextNote}.`, 3000);
       }
     } catch (error: any) {
         console.error("addOverlayToPage process failed:", error);
@@ -68,9 +244,10 @@ export class TextProcessor {
   /**
    * Extracts text, gets the translation, but does NOT modify the DOM.
    * @param pageElement The .page element to process.
+   * @param options The PDF the page belongs to, whether to show a live preview and a context token callback.
    * @returns A single string containing all translated text, or null if failed.
    */
-  public async translatePageContent(pageElement: HTMLElement): Promise<string | null> {
+  public async translatePageContent(pageElement: HTMLElement, options: PageTranslationOptions = {}): Promise<string | null> {
     const textLayer = pageElement.querySelector('.textLayer') as HTMLElement;
     if (!textLayer) {
       new Notice('Text layer not found. Wait for PDF to fully render.');
@@ -83,25 +260,181 @@ export class TextProcessor {
       return null;
     }
 
-    this.lastPreparedUnits = { pageElement, units: [...translationUnits] };
-    const translatedLines = await this.executeTranslation(translationUnits);
-    return translatedLines.join('\n');
+    this.preparedUnits.set(pageElement, [...translationUnits]);
+    this.qaResults.delete(pageElement);
+    const pageNumber = parseInt(pageElement.dataset.pageNumber || '0', 10) || undefined;
+
+    const showPreview = options.livePreview ?? this.plugin.settings.streamResponses;
+    const livePreview = showPreview ? this.createLivePreview(translationUnits, pageElement) : null;
+    try {
+      const { lines, qaResults } = await this.translatePageUnits(translationUnits, {
+        pageNumber,
+        pdfFile: options.pdfFile ?? this.plugin.app.workspace.getActiveFile(),
+        getNextPageFirstUnit: () => this.getNextPageFirstUnit(pageElement, pageNumber!),
+        onProgress: livePreview ? (lines => livePreview.update(lines)) : undefined,
+        onContextTokens: options.onContextTokens,
+      });
+      if (qaResults) this.qaResults.set(pageElement, qaResults);
+      return lines.join('\n');
+    } finally {
+      livePreview?.dispose();
+    }
+  }
+
+  /**
+   * Translates a page given as plain text items, e.g. read from the PDF file without the viewer.
+   * Returns null when the page has no text to translate.
+   */
+  public async translatePageItems(page: PageItems, options: PageItemsTranslationOptions): Promise<PageTranslation | null> {
+    const units = this.prepareTranslationUnitsFromItems(page.items, page.size);
+    if (!units || units.length === 0) return null;
+
+    const { nextPage } = options;
+    const { lines, qaResults } = await this.translatePageUnits(units, {
+      pageNumber: options.pageNumber,
+      pdfFile: options.pdfFile,
+      getNextPageFirstUnit: () => nextPage ? this.prepareTranslationUnitsFromItems(nextPage.items, nextPage.size)?.[0] ?? null : null,
+      onContextTokens: options.onContextTokens,
+    });
+    return { units, lines, qaResults };
+  }
+
+  /**
+   * Translates the units of one page, with the translation carried over from the previous
+   * page and cross-page stitching, and runs the quality checks when they are on.
+   */
+  private async translatePageUnits(translationUnits: TranslationUnit[], context: PageUnitsContext): Promise<{ lines: string[]; qaResults?: Map<string, QaResult> }> {
+    const { pageNumber, pdfFile, onProgress } = context;
+    const pdfPath = pdfFile?.path ?? '';
+
+    // A fragment already translated together with the previous page's last paragraph
+    const carryOverKey = `${pdfPath}#${pageNumber}`;
+    const carryOver = this.crossPageCarryOvers.get(carryOverKey);
+    const carried = carryOver && carryOver.sourceText === translationUnits[0].text ? carryOver.translation : undefined;
+    this.crossPageCarryOvers.delete(carryOverKey);
+
+    const unitsToTranslate = [...translationUnits];
+    const lastIndex = unitsToTranslate.length - 1;
+    const stitch = pageNumber && !(carried !== undefined && lastIndex === 0)
+      ? this.planCrossPageStitch(translationUnits, pageNumber, context.getNextPageFirstUnit)
+      : null;
+    if (stitch) unitsToTranslate[lastIndex] = stitch.mergedUnit;
+    const requestUnits = carried !== undefined ? unitsToTranslate.slice(1) : unitsToTranslate;
+    const withCarried = (lines: string[]) => carried !== undefined ? [carried, ...lines] : lines;
+
+    const translatedLines = withCarried(requestUnits.length > 0
+      ? await this.executeTranslation(requestUnits, {
+          onProgress: onProgress && (lines => onProgress(withCarried(lines))),
+          pageNumber,
+          pdfFile,
+          onContextTokens: context.onContextTokens,
+        })
+      : []);
+
+    if (stitch) {
+      const stitchedLine = translatedLines[lastIndex];
+      if (stitchedLine && containsFailedSegment(stitchedLine)) {
+        // Failed as a whole: mark this page's part only and let the next page translate its own
+        translatedLines[lastIndex] = markFailedSegment(translationUnits[lastIndex].text);
+      } else if (stitchedLine && stitchedLine !== 'Translation missing' && stitchedLine !== stitch.mergedUnit.text) {
+        const [head, tail] = splitTranslationProportionally(stitchedLine, stitch.headShare);
+        translatedLines[lastIndex] = head;
+        this.crossPageCarryOvers.set(`${pdfPath}#${pageNumber! + 1}`, { sourceText: stitch.nextUnitText, translation: tail });
+      } else {
+        translatedLines[lastIndex] = translationUnits[lastIndex].text;
+      }
+    }
+    const qaResults = this.plugin.settings.qualityChecks
+      ? await this.runQualityChecks(translationUnits, translatedLines, pdfPath)
+      : undefined;
+    return { lines: translatedLines, qaResults };
+  }
+
+  /**
+   * First unit of the viewer page after `pageElement`, or null when that page is not rendered.
+   */
+  private getNextPageFirstUnit(pageElement: HTMLElement, pageNumber: number): TranslationUnit | null {
+    const nextPage = pageElement.parentElement?.querySelector<HTMLElement>(`.page[data-page-number="${pageNumber + 1}"]`);
+    const nextTextLayer = nextPage?.querySelector<HTMLElement>('.textLayer');
+    if (!nextPage || !nextTextLayer || !nextTextLayer.querySelector('span')) {
+      this.plugin.logDebug(`Page ${pageNumber} ends mid-sentence, but page ${pageNumber + 1} is not rendered; not stitching.`);
+      return null;
+    }
+    return this.prepareTranslationUnits(nextTextLayer, nextPage)?.[0] ?? null;
+  }
+
+  /**
+   * Detects a final paragraph that runs over the page break and, when the next page's
+   * text is available, merges it with the next page's first unit so the sentence is
+   * translated as a whole. Returns null when there is nothing to stitch.
+   */
+  private planCrossPageStitch(units: TranslationUnit[], pageNumber: number, getNextPageFirstUnit: () => TranslationUnit | null): { mergedUnit: TranslationUnit; headShare: number; nextUnitText: string } | null {
+    if (!this.plugin.settings.stitchCrossPageParagraphs) return null;
+
+    const lastUnit = units[units.length - 1];
+    if (endsWithSentenceTerminator(lastUnit.text) || plainTextLength(lastUnit.text) < MIN_STITCH_CHARS) return null;
+
+    const firstNextUnit = getNextPageFirstUnit();
+    if (!firstNextUnit) return null;
+
+    const headLength = plainTextLength(lastUnit.text);
+    const tailLength = plainTextLength(firstNextUnit.text);
+    this.plugin.logDebug(`Stitching the last paragraph of page ${pageNumber} with the first paragraph of page ${pageNumber + 1}.`);
+    return {
+      mergedUnit: { ...lastUnit, text: `${lastUnit.text} ${firstNextUnit.text}` },
+      headShare: headLength / (headLength + tailLength),
+      nextUnitText: firstNextUnit.text,
+    };
+  }
+
+  /**
+   * Renders streamed lines into a temporary overlay container while a page is being translated.
+   * Updates are coalesced to one per animation frame. The container is removed on dispose,
+   * right before the final overlay is created from the complete translation.
+   */
+  private createLivePreview(units: TranslationUnit[], pageElement: HTMLElement): { update: (lines: string[]) => void; dispose: () => void } {
+    let container: HTMLElement | null = null;
+    let pendingLines: string[] | null = null;
+    let disposed = false;
+
+    const update = (lines: string[]) => {
+      if (disposed) return;
+      const alreadyScheduled = pendingLines !== null;
+      pendingLines = lines;
+      if (alreadyScheduled) return;
+      requestAnimationFrame(() => {
+        const latest = pendingLines;
+        pendingLines = null;
+        if (disposed || !latest || !pageElement.isConnected) return;
+        if (!container || !container.isConnected) {
+          container = this.plugin.overlay.preparePageForOverlay(pageElement);
+        }
+        this.renderOverlay(units, latest, container, pageElement, true);
+      });
+    };
+
+    const dispose = () => {
+      disposed = true;
+      container?.remove();
+    };
+
+    return { update, dispose };
   }
 
   /**
    * Creates an overlay on the page using pre-translated text.
    * @param pageElement The .page element to add the overlay to.
    * @param translatedText A single string of translated text, with lines separated by '\n'.
+   * @param options `autoSave` saves the page's overlays regardless of the autoSaveOverlay setting.
    */
-  public async createOverlayWithText(pageElement: HTMLElement, translatedText: string): Promise<void> {
+  public async createOverlayWithText(pageElement: HTMLElement, translatedText: string, options: { autoSave?: boolean } = {}): Promise<void> {
     const prepResult = this.validateAndPreparePrerequisites(pageElement);
     if (!prepResult) return;
     const { textLayer, overlayContainer } = prepResult;
     this.overlayContainers.push(overlayContainer);
 
-    let translationUnits = (this.lastPreparedUnits?.pageElement === pageElement)
-        ? this.lastPreparedUnits.units
-        : this.prepareTranslationUnits(textLayer, pageElement);
+    let translationUnits = this.preparedUnits.get(pageElement)
+        ?? this.prepareTranslationUnits(textLayer, pageElement);
 
     if (!translationUnits || translationUnits.length === 0) {
         overlayContainer.remove();
@@ -118,7 +451,7 @@ export class TextProcessor {
 
     this.renderOverlay(translationUnits, translatedLines, overlayContainer, pageElement);
 
-    if (this.plugin.settings.autoSaveOverlay) {
+    if (options.autoSave ?? this.plugin.settings.autoSaveOverlay) {
         requestAnimationFrame(() => this.plugin.overlay.saveCurrentPageOverlay());
     }
   }
@@ -145,6 +478,7 @@ export class TextProcessor {
   /**
    * MODIFIED: Now a public method that can accept either the textLayer element
    * to process a whole page, or a specific array of spans for reprocessing.
+   * Reads the spans into text items and delegates to prepareTranslationUnitsFromItems.
    * @param textLayerOrSpans The parent .textLayer element OR an array of HTMLSpanElement.
    * @param pageElement The root .page element for context.
    * @returns An array of TranslationUnit[] or null.
@@ -154,13 +488,25 @@ export class TextProcessor {
       ? textLayerOrSpans
       : Array.from(textLayerOrSpans.querySelectorAll<HTMLSpanElement>('span'));
 
-    const textSpans = this.validateSpans(rawSpans).filter(span => this.isValidSpan(span));
+    const items = readTextItems(this.validateSpans(rawSpans), pageElement);
+    const pageRect = pageElement.getBoundingClientRect();
+    return this.prepareTranslationUnitsFromItems(items, { width: pageRect.width, height: pageRect.height });
+  }
+
+  /**
+   * Groups text items into paragraphs and turns them into translation units
+   * (long paragraphs are split into sentences). Works on plain data only.
+   * @param items The page's text items, positioned relative to the page.
+   * @param pageSize The page size in the same pixels as the item rects.
+   */
+  public prepareTranslationUnitsFromItems(items: TextItem[], pageSize: PageSize): TranslationUnit[] | null {
+    const textItems = items.filter(item => this.isValidTextItem(item));
 
-    if (textSpans.length === 0) {
+    if (textItems.length === 0) {
       return null;
     }
 
-    const result = this.layoutDetector.detectLayout(textSpans, pageElement);
+    const result = this.layoutDetector.detectLayout(textItems, pageSize);
     this.lastColumnAnalysis = result.columnAnalysis;
     this.clearCaches();
 
@@ -170,15 +516,15 @@ export class TextProcessor {
 
     const { maxBatchChars } = this.plugin.settings;
 
-    return result.paragraphs.flatMap((paragraphSpans, paraIndex) => {
-      if (!paragraphSpans || paragraphSpans.length === 0) return [];
+    return result.paragraphs.flatMap((paragraphItems, paraIndex) => {
+      if (!paragraphItems || paragraphItems.length === 0) return [];
       const paragraphId = `para-${paraIndex}`;
-      const paragraphAsHtml = this.spansToHtml(paragraphSpans);
+      const paragraphAsHtml = this.itemsToHtml(paragraphItems);
 
       if (paragraphAsHtml.length <= maxBatchChars) {
         if (paragraphAsHtml.length <= 5) return [];
         return [{
-          originalSpans: paragraphSpans,
+          originalItems: paragraphItems,
           text: paragraphAsHtml,
           id: paragraphId,
           paragraphId: paragraphId,
@@ -189,34 +535,32 @@ export class TextProcessor {
         console.log(`PDF Translator: Paragraph ${paraIndex} is too long, splitting into sentences.`);
       }
 
-      const sortedSpans = [...paragraphSpans].sort((a, b) => {
-        const rectA = this.getBoundingClientRectCached(a);
-        const rectB = this.getBoundingClientRectCached(b);
-        if (Math.abs(rectA.top - rectB.top) > 5) return rectA.top - rectB.top;
-        return rectA.left - rectB.left;
+      const sortedItems = [...paragraphItems].sort((a, b) => {
+        if (Math.abs(a.rect.top - b.rect.top) > 5) return a.rect.top - b.rect.top;
+        return a.rect.left - b.rect.left;
       });
 
-      const sentenceSpanGroups: HTMLSpanElement[][] = [];
-      let currentSentenceSpans: HTMLSpanElement[] = [];
+      const sentenceItemGroups: TextItem[][] = [];
+      let currentSentenceItems: TextItem[] = [];
       const sentenceEndRegex = /[.?!]\s*$/;
 
-      for (const span of sortedSpans) {
-        currentSentenceSpans.push(span);
-        if (sentenceEndRegex.test((span.textContent || '').trim())) {
-          sentenceSpanGroups.push(currentSentenceSpans);
-          currentSentenceSpans = [];
+      for (const item of sortedItems) {
+        currentSentenceItems.push(item);
+        if (sentenceEndRegex.test(item.text.trim())) {
+          sentenceItemGroups.push(currentSentenceItems);
+          currentSentenceItems = [];
         }
       }
-      if (currentSentenceSpans.length > 0) {
-        sentenceSpanGroups.push(currentSentenceSpans);
+      if (currentSentenceItems.length > 0) {
+        sentenceItemGroups.push(currentSentenceItems);
       }
 
-      return sentenceSpanGroups
-        .map((spans, sentenceIndex) => {
-          const text = this.spansToHtml(spans);
+      return sentenceItemGroups
+        .map((sentenceItems, sentenceIndex) => {
+          const text = this.itemsToHtml(sentenceItems);
           if (!text || text.length <= 5) return null;
           return {
-            originalSpans: spans,
+            originalItems: sentenceItems,
             text,
             id: `${paragraphId}-sent-${sentenceIndex}`,
             paragraphId: paragraphId,
@@ -230,10 +574,60 @@ export class TextProcessor {
    * MODIFIED: Now a public method.
    * Executes the translation process for a given set of text units.
    * @param units The text units to be translated.
+   * @param options Progress callback and the page/PDF the units come from.
    * @returns A promise that resolves to an array of translated strings.
    */
-  public async executeTranslation(units: TranslationUnit[]): Promise<string[]> {
-    this.translationFailures = [];
+  public async executeTranslation(units: TranslationUnit[], options: TranslationExecutionOptions = {}): Promise<string[]> {
+    const { onProgress, pageNumber } = options;
+    const pdfFile = options.pdfFile ?? this.plugin.app.workspace.getActiveFile();
+
+    const run: TranslationRun = {
+      pdfPath: pdfFile?.path ?? '',
+      model: options.model,
+      glossary: await this.plugin.glossary.loadForPdf(pdfFile),
+      documentContext: pdfFile && pageNumber
+        ? await this.plugin.documentContext.buildForPage(pdfFile, pageNumber)
+        : null,
+      contextTokens: 0,
+      failures: [],
+    };
+
+    // Serve what we can from the translation memory and only send the rest
+    const memory = options.model ? null : this.plugin.translationMemory;
+    const rememberedLines = units.map(unit => memory?.lookup(unit.text, run.glossary.signature));
+    const pendingIndices = units.map((_, i) => i).filter(i => rememberedLines[i] === undefined);
+
+    if (pendingIndices.length === 0) {
+      new Notice(`All ${units.length} segment(s) found in translation memory.`, 3000);
+      return rememberedLines as string[];
+    }
+    if (pendingIndices.length < units.length) {
+      this.plugin.logDebug(`${units.length - pendingIndices.length} segment(s) served from translation memory.`);
+    }
+
+    const mergeLines = (pendingLines: string[]): string[] => {
+      const merged = rememberedLines.map(line => line ?? '');
+      pendingIndices.forEach((unitIndex, j) => { merged[unitIndex] = pendingLines[j]; });
+      return merged;
+    };
+
+    const pendingUnits = pendingIndices.map(i => units[i]);
+    const translatedLines = await this.translateUnits(run, pendingUnits, onProgress && (lines => onProgress(mergeLines(lines))));
+    options.onContextTokens?.(run.contextTokens);
+
+    // Lines equal to the source are fallbacks for failed segments; don't remember those
+    pendingUnits.forEach((unit, j) => {
+      const line = translatedLines[j];
+      if (line && line !== 'Translation missing' && line !== unit.text && !containsFailedSegment(line)) memory?.store(unit.text, line, run.glossary.signature);
+    });
+
+    return mergeLines(translatedLines);
+  }
+
+  /**
+   * Sends units to the provider in a batch, in chunks or one by one, depending on settings and size.
+   */
+  private async translateUnits(run: TranslationRun, units: TranslationUnit[], onProgress?: (lines: string[]) => void): Promise<string[]> {
     const fullText = units.map((u, i) => `${i + 1}. ${u.text}`).join('\n');
     const { useBatchTranslation: useBatch, maxBatchChars } = this.plugin.settings;
     
@@ -243,28 +637,27 @@ export class TextProcessor {
         let translatedLines: string[];
         if (shouldUseChunking) {
             new Notice(`Long page detected. Translating in multiple batches...`, 4000);
-            translatedLines = await this.performChunkedTranslation(units, maxBatchChars);
+            translatedLines = await this.performChunkedTranslation(run, units, maxBatchChars, onProgress);
         } else if (useBatch && units.length > 1) {
             new Notice(`Translating ${units.length} segments in a batch...`, 3000);
-            const raw = await this.plugin.translation.translateBatch(fullText, units.length);
-            translatedLines = this.extractNumberedLines(raw, units.length);
+            translatedLines = await this.translateBatchUnits(run, units, onProgress);
         } else {
             new Notice(`Translating ${units.length} segment(s) sequentially...`, 3000);
-            translatedLines = await this.performSequentialTranslation(units);
+            translatedLines = await this.performSequentialTranslation(run, units, onProgress);
         }
 
+      await this.retryMissingSegments(run, units, translatedLines, onProgress);
+      this.reportGlossaryIssues(run, units, translatedLines);
+
       const missingCount = translatedLines.filter(t => t === 'Translation missing').length;
-      if (missingCount > 0.5 * units.length && units.length > 1) {
-        new Notice('⚠️ Invalid response. Falling back to original text.');
-        return units.map(u => u.text);
-      } else if (missingCount > 0) {
-        new Notice(`⚠️ ${missingCount} segments failed translation. See console for details.`);
-        this.reportTranslationFailures(units, translatedLines);
+      if (missingCount > 0) {
+        new Notice(`⚠️ ${missingCount} segment(s) could not be translated and are marked on the page. Right-click one to retry.`, 6000);
+        this.reportTranslationFailures(run, units, translatedLines);
       }
       return translatedLines;
     } catch (err: any) {
       this.plugin.logDebug('Translation failed:', err);
-      this.translationFailures.push({
+      run.failures.push({
         segmentIndex: -1,
         error: `Batch translation failed: ${err.message || 'Unknown error'}`,
       });
@@ -272,17 +665,11 @@ export class TextProcessor {
     }
   }
   
-  private async performChunkedTranslation(units: TranslationUnit[], maxChunkChars: number): Promise<string[]> {
+  private async performChunkedTranslation(run: TranslationRun, units: TranslationUnit[], maxChunkChars: number, onProgress?: (lines: string[]) => void): Promise<string[]> {
     const allTranslatedLines: string[] = Array(units.length).fill('Translation missing');
+    const progressLines: string[] = Array(units.length).fill('');
     interface Chunk { text: string; originalIndices: number[]; }
 
-    const endsWithSentenceTerminator = (htmlText: string): boolean => {
-        const trimmed = htmlText.trim();
-        if (trimmed.endsWith('<br>')) return true;
-        const regex = /[.?!](?:\s*<\/[bi]>)*\s*$/;
-        return regex.test(trimmed);
-    };
-
     const chunks: Chunk[] = [];
     let currentChunkText = '';
     let currentChunkIndices: number[] = [];
@@ -321,60 +708,268 @@ export class TextProcessor {
         console.log(`PDF Translator: Splitting translation into ${chunks.length} chunks.`);
     }
 
-    for (let i = 0; i < chunks.length; i++) {
-        const chunk = chunks[i];
+    // Chunks are sent together; the provider's rate limiter decides how many run at once
+    new Notice(`Translating ${chunks.length} batches...`);
+    await Promise.all(chunks.map(async (chunk, i) => {
         try {
-            new Notice(`Translating batch ${i + 1} of ${chunks.length}...`);
-            const raw = await this.plugin.translation.translateBatch(chunk.text, chunk.originalIndices.length);
-            const translatedChunkLines = this.extractNumberedLines(raw, chunk.originalIndices.length);
+            const onChunkProgress = onProgress && ((streamedLines: string[]) => {
+                chunk.originalIndices.forEach((originalIndex, j) => { progressLines[originalIndex] = streamedLines[j]; });
+                onProgress([...progressLines]);
+            });
+            const translatedChunkLines = await this.translateBatchUnits(run, chunk.originalIndices.map(index => units[index]), onChunkProgress);
             for (let j = 0; j < translatedChunkLines.length; j++) {
                 const originalIndex = chunk.originalIndices[j];
-                if (originalIndex !== undefined) allTranslatedLines[originalIndex] = translatedChunkLines[j];
+                if (originalIndex !== undefined) {
+                    allTranslatedLines[originalIndex] = translatedChunkLines[j];
+                    progressLines[originalIndex] = translatedChunkLines[j];
+                }
             }
         } catch (error: any) {
+            // The chunk's lines stay missing and are retried with the other failed segments
             this.plugin.logDebug(`Translation for chunk ${i+1} failed:`, error);
-            new Notice(`⚠️ Batch ${i+1} failed. Original text will be used for that section.`);
-            chunk.originalIndices.forEach(originalIndex => { allTranslatedLines[originalIndex] = units[originalIndex].text; });
+            run.failures.push({ segmentIndex: -1, error: `Batch ${i+1} failed: ${error.message || 'Unknown error'}` });
         }
-    }
+    }));
     return allTranslatedLines;
   }
   
-  private renderOverlay(units: TranslationUnit[], translatedLines: string[], overlayContainer: HTMLElement, pageElement: HTMLElement) {
-    const reassembledParagraphs = new Map<string, { originalSpans: HTMLSpanElement[]; translatedText: string; }>();
+  /**
+   * Requests the segments still marked 'Translation missing' again, in place: first together in a
+   * smaller batch (when batching is on and several are missing), then one by one.
+   */
+  private async retryMissingSegments(run: TranslationRun, units: TranslationUnit[], translatedLines: string[], onProgress?: (lines: string[]) => void): Promise<void> {
+    const missing = () => units.map((_, i) => i).filter(i => translatedLines[i] === 'Translation missing');
+    const progress = onProgress && (() => onProgress(translatedLines.map(line => line === 'Translation missing' ? '' : line)));
+
+    let indices = missing();
+    if (indices.length > 1 && this.plugin.settings.useBatchTranslation) {
+      this.plugin.logDebug(`Retrying ${indices.length} missing segment(s) in a smaller batch.`);
+      try {
+        const retried = await this.translateBatchUnits(run, indices.map(i => units[i]));
+        indices.forEach((unitIndex, j) => { translatedLines[unitIndex] = retried[j]; });
+        progress?.();
+      } catch (error: any) {
+        this.plugin.logDebug('Retry batch failed:', error);
+      }
+      indices = missing();
+    }
+
+    await Promise.all(indices.map(async i => {
+      try {
+        const line = await this.plugin.translation.translateWithOpenRouter(units[i].text, this.buildRequestOptions(run, units[i].text));
+        // makeApiCall answers with the input when the model returns nothing
+        if (line.trim() && line !== units[i].text) {
+          translatedLines[i] = toSingleLine(line.trim());
+          progress?.();
+        }
+      } catch (error: any) {
+        run.failures.push({ segmentIndex: i, error: error.message || 'Unknown error' });
+      }
+    }));
+  }
+
+  /**
+   * Public single-segment translation for retrying one overlay. Uses the PDF's glossary but no
+   * document context.
+   */
+  public async translateSegment(text: string, pdfFile: TFile | null): Promise<string> {
+    const glossary = await this.plugin.glossary.loadForPdf(pdfFile);
+    return await this.plugin.translation.translateWithOpenRouter(text, {
+      glossary: this.plugin.glossary.formatForPrompt(glossary, text),
+      pdfPath: pdfFile?.path,
+    });
+  }
+
+  /**
+   * Translates units in one request with the protocol chosen in settings: a numbered list,
+   * or JSON with segment ids. Missing segments come back as 'Translation missing'.
+   */
+  private async translateBatchUnits(run: TranslationRun, units: TranslationUnit[], onProgress?: (lines: string[]) => void): Promise<string[]> {
+    if (this.plugin.settings.structuredBatchOutput) {
+      const lines = await this.translateJsonBatch(run, units, onProgress);
+      if (lines) return lines;
+      this.plugin.logDebug('JSON batch answer could not be parsed, retrying with the numbered-list prompt.');
+    }
+    const text = units.map((u, i) => `${i + 1}. ${u.text}`).join('\n');
+    const onPartial = onProgress && ((partial: string) => onProgress(this.extractStreamedLines(partial, units.length)));
+    const raw = await this.plugin.translation.translateBatch(text, units.length, this.buildRequestOptions(run, text, onPartial));
+    return this.extractNumberedLines(raw, units.length);
+  }
+
+  /**
+   * Sends the units as JSON segments and validates the answer per id. Ids missing from the
+   * answer are requested again on their own, up to JSON_MISSING_RETRIES times.
+   * Returns null when the first answer is not usable JSON.
+   */
+  private async translateJsonBatch(run: TranslationRun, units: TranslationUnit[], onProgress?: (lines: string[]) => void): Promise<string[] | null> {
+    const lines: string[] = Array(units.length).fill('Translation missing');
+    let pending = units.map((_, i) => i);
+
+    for (let round = 0; round <= JSON_MISSING_RETRIES && pending.length > 0; round++) {
+      const segments: JsonSegment[] = pending.map((unitIndex, j) => ({ id: j + 1, text: units[unitIndex].text }));
+      const text = segments.map(segment => segment.text).join('\n');
+      const requested = pending;
+      const onPartial = onProgress && ((partial: string) => {
+        const streamed = this.extractStreamedJson(partial, segments.length);
+        const progress = lines.map(line => line === 'Translation missing' ? '' : line);
+        requested.forEach((unitIndex, j) => { if (streamed[j]) progress[unitIndex] = streamed[j]; });
+        onProgress(progress);
+      });
+
+      const raw = await this.plugin.translation.translateBatchJson(segments, this.buildRequestOptions(run, text, onPartial));
+      const translations = this.parseJsonTranslations(raw, segments.length);
+      if (!translations) {
+        if (round === 0) return null;
+        break;
+      }
+      translations.forEach((translation, id) => { lines[requested[id - 1]] = translation; });
+      pending = requested.filter(unitIndex => lines[unitIndex] === 'Translation missing');
+      if (pending.length > 0 && round < JSON_MISSING_RETRIES) {
+        this.plugin.logDebug(`JSON batch answer is missing ${pending.length} segment(s), requesting them again.`);
+      }
+    }
+    return lines;
+  }
+
+  /**
+   * Merges sentence units back into paragraphs and renders them.
+   * In live mode, lines that have not arrived yet are skipped and empty paragraphs show a placeholder.
+   */
+  private renderOverlay(units: TranslationUnit[], translatedLines: string[], overlayContainer: HTMLElement, pageElement: HTMLElement, live = false) {
+    const { mergedUnits, mergedTranslatedLines } = this.mergeSentenceUnits(units, translatedLines, live);
+    const qaResults = live ? undefined : this.getQaResults(this.qaResults.get(pageElement), mergedUnits);
+    this.plugin.overlay.renderOverlays(mergedUnits, mergedTranslatedLines, overlayContainer, pageElement, qaResults);
+  }
+
+  /**
+   * Runs the quality checks on the page's paragraphs (the units its overlays are made of)
+   * and returns the results by paragraph id, for rendering or saving the page.
+   */
+  private async runQualityChecks(units: TranslationUnit[], translatedLines: string[], pdfPath: string): Promise<Map<string, QaResult>> {
+    const { mergedUnits, mergedTranslatedLines } = this.mergeSentenceUnits(units, translatedLines);
+    const results = await this.plugin.quality.checkPage(
+      mergedUnits.map((unit, i) => ({ source: unit.text, translation: mergedTranslatedLines[i] })),
+      pdfPath || undefined
+    );
+    const flagged = results.filter(result => result.flags.length > 0).length;
+    if (flagged > 0) new Notice(`⚑ ${flagged} overlay(s) flagged by quality checks.`, 3000);
+    return new Map(mergedUnits.map((unit, i) => [unit.paragraphId, results[i]]));
+  }
+
+  private getQaResults(byParagraph: Map<string, QaResult> | undefined, mergedUnits: TranslationUnit[]): (QaResult | undefined)[] | undefined {
+    if (!byParagraph) return undefined;
+    return mergedUnits.map(unit => byParagraph.get(unit.paragraphId));
+  }
+
+  /**
+   * Groups sentence units (and their translated lines) back into one unit per paragraph.
+   * The merged unit keeps the joined original text, which is saved as the overlay's source text.
+   */
+  private mergeSentenceUnits(units: TranslationUnit[], translatedLines: string[], live = false): { mergedUnits: TranslationUnit[]; mergedTranslatedLines: string[] } {
+    const reassembledParagraphs = new Map<string, { originalItems: TextItem[]; originalText: string; translatedText: string; }>();
     units.forEach((unit, index) => {
-      const { paragraphId, originalSpans } = unit;
+      const { paragraphId, originalItems } = unit;
       const translatedLine = translatedLines[index];
-      if (!reassembledParagraphs.has(paragraphId)) reassembledParagraphs.set(paragraphId, { originalSpans: [], translatedText: '' });
+      if (!reassembledParagraphs.has(paragraphId)) reassembledParagraphs.set(paragraphId, { originalItems: [], originalText: '', translatedText: '' });
       const group = reassembledParagraphs.get(paragraphId)!;
-      group.originalSpans.push(...originalSpans);
+      group.originalItems.push(...originalItems);
+      group.originalText += (group.originalText ? ' ' : '') + unit.text;
+      if (live && !translatedLine) return;
       group.translatedText += (group.translatedText ? ' ' : '') + translatedLine;
     });
 
     const mergedUnits: TranslationUnit[] = [];
     const mergedTranslatedLines: string[] = [];
     reassembledParagraphs.forEach((group, paragraphId) => {
-      mergedUnits.push({ id: paragraphId, paragraphId: paragraphId, originalSpans: group.originalSpans, text: '' });
-      mergedTranslatedLines.push(group.translatedText);
+      mergedUnits.push({ id: paragraphId, paragraphId: paragraphId, originalItems: group.originalItems, text: group.originalText });
+      mergedTranslatedLines.push(live && !group.translatedText ? '…' : group.translatedText);
     });
+    return { mergedUnits, mergedTranslatedLines };
+  }
 
-    this.plugin.overlay.renderOverlays(mergedUnits, mergedTranslatedLines, overlayContainer, pageElement);
+  /**
+   * Builds the saved overlay data for a page straight from the translation, without rendering
+   * overlay elements. Used where nobody looks at the page, e.g. model comparison.
+   * @param pageElement The .page element that was passed to translatePageContent.
+   * @param translatedText The result of translatePageContent.
+   * @param scale The page's render scale; font sizes are stored at scale 1 like extractPositionData does.
+   * @param preparedUnits The units the translation belongs to, when it did not come from translatePageContent.
+   */
+  public buildPositionData(pageElement: HTMLElement, translatedText: string, scale: number, preparedUnits?: TranslationUnit[]): OverlayPositionData[] {
+    const textLayer = pageElement.querySelector<HTMLElement>('.textLayer');
+    const units = preparedUnits ?? this.preparedUnits.get(pageElement);
+    if (!textLayer || !units) return [];
+
+    const pageRect = pageElement.getBoundingClientRect();
+    const layerRect = textLayer.getBoundingClientRect();
+    const translation: PageTranslation = {
+      units,
+      lines: translatedText.split('\n'),
+      qaResults: preparedUnits ? undefined : this.qaResults.get(pageElement),
+    };
+    const pageNumber = parseInt(pageElement.dataset.pageNumber || '0', 10);
+    const area = makeRect(layerRect.left - pageRect.left, layerRect.top - pageRect.top, layerRect.width, layerRect.height);
+    return this.buildPositionDataFromTranslation(translation, pageNumber, scale, area);
   }
 
-  private spansToHtml(spans: HTMLSpanElement[]): string {
-    if (!spans?.length) return '';
-    const lines = new Map<number, HTMLSpanElement[]>();
-    spans.forEach(span => {
-      const lineKey = Math.round(this.getBoundingClientRectCached(span).top);
+  /**
+   * Builds the saved overlay data for a translated page.
+   * @param area The box overlays are placed relative to, in the same coordinates as the text items.
+   */
+  public buildPositionDataFromTranslation(translation: PageTranslation, pageNumber: number, scale: number, area: ItemRect): OverlayPositionData[] {
+    const { units, lines: translatedLines } = translation;
+    if (translatedLines.length !== units.length) {
+      console.error('Translation structure mismatch. Original units:', units.length, 'Translated lines:', translatedLines.length);
+      return [];
+    }
+    if (area.width === 0 || area.height === 0) return [];
+
+    const { mergedUnits, mergedTranslatedLines } = this.mergeSentenceUnits(units, translatedLines);
+    const qaResults = this.getQaResults(translation.qaResults, mergedUnits);
+    const revision = { source: 'machine' as const, timestamp: Date.now(), model: this.plugin.translation.getModelLabel() };
+    const positionData: OverlayPositionData[] = [];
+    mergedUnits.forEach((unit, i) => {
+      const translated = mergedTranslatedLines[i] || unit.text;
+      const { rect, fontSizes, fontFamily } = this.getItemsBbox(unit.originalItems);
+      if (!rect || !translated.trim()) return;
+
+      const relativeFontSizes = fontSizes.map(size => size / scale);
+      positionData.push({
+        id: createOverlayId(),
+        selector: '',
+        textContent: htmlToPlainText(unit.text),
+        relativeRect: {
+          left: (rect.left - area.left) / area.width,
+          top: (rect.top - area.top) / area.height,
+          width: rect.width / area.width,
+          height: rect.height / area.height,
+        },
+        page: pageNumber,
+        translatedText: translated.trim(),
+        fontSize: relativeFontSizes.length > 0 ? relativeFontSizes.reduce((a, b) => a + b, 0) / relativeFontSizes.length : undefined,
+        fontFamily,
+        originalFontSizes: relativeFontSizes,
+        qaFlags: qaResults?.[i]?.flags.length ? qaResults[i]!.flags : undefined,
+        qaScore: qaResults?.[i]?.score,
+        revision,
+      });
+    });
+    this.clearCaches();
+    return positionData;
+  }
+
+  private itemsToHtml(items: TextItem[]): string {
+    if (!items?.length) return '';
+    const lines = new Map<number, TextItem[]>();
+    items.forEach(item => {
+      const lineKey = Math.round(item.rect.top);
       if (!lines.has(lineKey)) lines.set(lineKey, []);
-      lines.get(lineKey)!.push(span);
+      lines.get(lineKey)!.push(item);
     });
-    return Array.from(lines.entries()).sort((a, b) => a[0] - b[0]).map(([_, lineSpans]) => lineSpans.sort((a, b) => this.getBoundingClientRectCached(a).left - this.getBoundingClientRectCached(b).left).map(span => {
-      const style = this.getComputedStyleCached(span);
-      let content = this.escapeHtml(span.textContent || '');
-      const isBold = parseInt(style.fontWeight, 10) >= 700 || style.fontWeight === 'bold';
-      if (isBold) content = `<b>${content}</b>`;
-      if (style.fontStyle === 'italic') content = `<i>${content}</i>`;
+    return Array.from(lines.entries()).sort((a, b) => a[0] - b[0]).map(([_, lineItems]) => lineItems.sort((a, b) => a.rect.left - b.rect.left).map(item => {
+      let content = this.escapeHtml(item.text);
+      if (item.fontWeight >= 700) content = `<b>${content}</b>`;
+      if (item.fontStyle === 'italic') content = `<i>${content}</i>`;
       return content;
     }).join(' ')).join('<br>');
   }
@@ -400,10 +995,68 @@ export class TextProcessor {
     return lines;
   }
 
-  public isValidSpan(span: HTMLSpanElement): boolean {
-    const rect = this.getBoundingClientRectCached(span);
-    const text = (span.textContent || '').trim();
-    if (rect.width <= 1 || rect.height <= 1 || !text) return false;
+  /**
+   * Reads a JSON batch answer into translations by id (1..expectedCount). Code fences and text
+   * around the JSON object are ignored; entries with unknown ids or empty translations are dropped.
+   * Returns null when the answer holds no parseable translations list.
+   */
+  private parseJsonTranslations(rawText: string, expectedCount: number): Map<number, string> | null {
+    const start = rawText.search(/[[{]/);
+    const end = Math.max(rawText.lastIndexOf('}'), rawText.lastIndexOf(']'));
+    if (start < 0 || end < start) return null;
+    let parsed: any;
+    try {
+      parsed = JSON.parse(rawText.slice(start, end + 1));
+    } catch {
+      return null;
+    }
+    const entries = Array.isArray(parsed) ? parsed : parsed?.translations;
+    if (!Array.isArray(entries)) return null;
+
+    const translations = new Map<number, string>();
+    for (const entry of entries) {
+      const id = Number(entry?.id);
+      const translation = typeof entry?.translation === 'string' ? toSingleLine(entry.translation.trim()) : '';
+      if (Number.isInteger(id) && id >= 1 && id <= expectedCount && translation) translations.set(id, translation);
+    }
+    return translations;
+  }
+
+  /**
+   * Reads the translations that are complete so far out of a JSON answer that is still streaming.
+   * Lines that have not arrived yet are empty strings.
+   */
+  private extractStreamedJson(partialText: string, expectedCount: number): string[] {
+    const lines: string[] = Array(expectedCount).fill('');
+    const regex = /"id"\s*:\s*(\d+)\s*,\s*"translation"\s*:\s*("(?:[^"\\]|\\.)*")/g;
+    let match;
+    while ((match = regex.exec(partialText)) !== null) {
+      const num = parseInt(match[1], 10) - 1;
+      if (num < 0 || num >= expectedCount) continue;
+      try { lines[num] = toSingleLine(JSON.parse(match[2]).trim()); } catch { /* incomplete escape */ }
+    }
+    return lines;
+  }
+
+  /**
+   * Reads numbered lines out of a response that is still streaming. Unlike extractNumberedLines
+   * there is no positional fallback, and lines that have not arrived yet are empty strings.
+   * The last line may be cut off mid-sentence.
+   */
+  private extractStreamedLines(partialText: string, expectedCount: number): string[] {
+    const lines: string[] = Array(expectedCount).fill('');
+    const regex = /^\s*(\d+)\.\s+(.+?)(?:\n|$)/gm;
+    let match;
+    while ((match = regex.exec(partialText)) !== null) {
+      const num = parseInt(match[1], 10) - 1;
+      if (num >= 0 && num < expectedCount) lines[num] = match[2].trim();
+    }
+    return lines;
+  }
+
+  public isValidTextItem(item: TextItem): boolean {
+    const text = item.text.trim();
+    if (item.rect.width <= 1 || item.rect.height <= 1 || !text) return false;
     if (/^\d{1,3}$/.test(text)) return false;
     if (text.length === 1 && /[•\-•»«]/.test(text)) return false;
     if (text.startsWith('http')) return false;
@@ -412,60 +1065,83 @@ export class TextProcessor {
 
   private validateSpans(spans: HTMLSpanElement[]): HTMLSpanElement[] { return spans.filter(span => span instanceof HTMLSpanElement && span.isConnected); }
   private validatePageElement(pageElement: HTMLElement): boolean { return pageElement instanceof HTMLElement && pageElement.isConnected; }
-  private getBoundingClientRectCached(element: HTMLElement): DOMRect {
-    const now = Date.now();
-    const cached = this.measurementCache.get(element);
-    if (cached && now - cached.timestamp < 100) return cached.rect;
-    const rect = element.getBoundingClientRect();
-    this.measurementCache.set(element, { rect, timestamp: now });
-    return rect;
-  }
-  private getComputedStyleCached(element: HTMLElement): CSSStyleDeclaration { return this.styleCache.get(element) || this.styleCache.set(element, window.getComputedStyle(element)).get(element)!; }
   private clearCaches(): void {
-    this.measurementCache.clear();
-    this.styleCache.clear();
     if (this.colorDistanceCache.size > 1000) this.colorDistanceCache.clear();
   }
 
-  public getSpansBbox(spans: HTMLSpanElement[], pageElement: HTMLElement) {
-    if (!spans?.length) return { rect: null, fontSizes: [], avgFontSize: 12, fontFamily: 'sans-serif' };
-    const pageRect = pageElement.getBoundingClientRect();
+  /**
+   * Bounding box of the items relative to the page, with their font sizes and the first
+   * family name of the first item that declares one.
+   */
+  public getItemsBbox(items: TextItem[]) {
+    if (!items?.length) return { rect: null, fontSizes: [], avgFontSize: 12, fontFamily: 'sans-serif' };
     let left = Infinity, top = Infinity, right = -Infinity, bottom = -Infinity;
     const fontSizes: number[] = [];
     let fontFamily = 'sans-serif';
-    for (const span of spans) {
-      const rect = this.getBoundingClientRectCached(span);
-      left = Math.min(left, rect.left); top = Math.min(top, rect.top); right = Math.max(right, rect.right); bottom = Math.max(bottom, rect.bottom);
-      const style = this.getComputedStyleCached(span);
-      fontSizes.push(parseFloat(style.fontSize) || 12);
-      if (fontFamily === 'sans-serif' && style.fontFamily) fontFamily = style.fontFamily.split(',')[0].replace(/['"]/g, '').trim();
+    for (const item of items) {
+      left = Math.min(left, item.rect.left); top = Math.min(top, item.rect.top); right = Math.max(right, item.rect.right); bottom = Math.max(bottom, item.rect.bottom);
+      fontSizes.push(item.fontSize || 12);
+      if (fontFamily === 'sans-serif' && item.fontFamily) fontFamily = item.fontFamily.split(',')[0].replace(/['"]/g, '').trim();
     }
     if (!isFinite(left)) return { rect: null, fontSizes: [], avgFontSize: 12, fontFamily };
-    const rect = new DOMRect(left - pageRect.left, top - pageRect.top, right - left, bottom - top);
+    const rect = new DOMRect(left, top, right - left, bottom - top);
     const avgFontSize = fontSizes.reduce((a, b) => a + b, 0) / fontSizes.length || 12;
     return { rect, fontSizes, avgFontSize, fontFamily };
   }
 
-  private async performSequentialTranslation(units: TranslationUnit[]): Promise<string[]> {
+  private async performSequentialTranslation(run: TranslationRun, units: TranslationUnit[], onProgress?: (lines: string[]) => void): Promise<string[]> {
+    const progressLines: string[] = Array(units.length).fill('');
     return Promise.all(units.map(async (unit, i) => {
-      try { return await this.plugin.translation.translateWithOpenRouter(unit.text); }
+      const onPartial = onProgress && ((partial: string) => {
+        progressLines[i] = partial;
+        onProgress([...progressLines]);
+      });
+      try { return await this.plugin.translation.translateWithOpenRouter(unit.text, this.buildRequestOptions(run, unit.text, onPartial)); }
       catch (error: any) {
         this.plugin.logDebug(`Translation failed for segment ${i}:`, error);
-        this.translationFailures.push({ segmentIndex: i, error: error.message || 'Unknown error' });
+        run.failures.push({ segmentIndex: i, error: error.message || 'Unknown error' });
         return "Translation missing";
       }
     }));
   }
 
-  private reportTranslationFailures(units: TranslationUnit[], translatedLines: string[]): void {
-    this.translationFailures.forEach(({ segmentIndex, error }) => {
+  /**
+   * Collects the per-request prompt extras (glossary terms found in the text, document context)
+   * and counts the context tokens each request adds.
+   */
+  private buildRequestOptions(run: TranslationRun, text: string, onPartial?: PartialTextCallback): TranslationRequestOptions {
+    if (run.documentContext) run.contextTokens += run.documentContext.estimatedTokens;
+    return {
+      onPartial,
+      glossary: this.plugin.glossary.formatForPrompt(run.glossary, text),
+      context: run.documentContext?.text,
+      pdfPath: run.pdfPath || undefined,
+      model: run.model,
+    };
+  }
+
+  /**
+   * Warns about translated lines that miss a required glossary translation.
+   */
+  private reportGlossaryIssues(run: TranslationRun, units: TranslationUnit[], translatedLines: string[]): void {
+    const issues = this.plugin.glossary.checkTranslations(run.glossary, units, translatedLines);
+    if (issues.length === 0) return;
+    const lineCount = new Set(issues.map(issue => issue.lineIndex)).size;
+    new Notice(`⚠️ ${lineCount} segment(s) miss required glossary terms. See console for details.`, 5000);
+    issues.forEach(({ lineIndex, entry }) => {
+      console.warn(`PDF Translator: Segment ${lineIndex + 1} should translate "${entry.source}" as "${entry.target}". Got: "${translatedLines[lineIndex].substring(0, 100)}..."`);
+    });
+  }
+
+  private reportTranslationFailures(run: TranslationRun, units: TranslationUnit[], translatedLines: string[]): void {
+    run.failures.forEach(({ segmentIndex, error }) => {
       if (segmentIndex >= 0) this.plugin.logDebug(`Segment ${segmentIndex + 1} failed:`, error, `Original: "${units[segmentIndex].text.substring(0, 100)}..."`);
       else this.plugin.logDebug(`Batch translation failed:`, error);
     });
     for (let i = 0; i < translatedLines.length; i++) {
       if (translatedLines[i] === 'Translation missing') {
-        this.plugin.logDebug(`Segment ${i + 1} was missing from the batch response. Original: "${units[i].text.substring(0, 100)}..."`);
-        translatedLines[i] = units[i].text;
+        this.plugin.logDebug(`Segment ${i + 1} could not be translated after retries. Original: "${units[i].text.substring(0, 100)}..."`);
+        translatedLines[i] = markFailedSegment(units[i].text);
       }
     }
   }
@@ -474,8 +1150,9 @@ export class TextProcessor {
     this.overlayContainers.forEach(container => container.remove());
     this.overlayContainers = [];
     this.clearCaches();
-    this.translationFailures = [];
     this.lastColumnAnalysis = null;
-    this.lastPreparedUnits = null;
+    this.preparedUnits = new WeakMap();
+    this.qaResults = new WeakMap();
+    this.crossPageCarryOvers.clear();
   }
 }
\ No newline at end of file
@@ -0,0 +1,537 @@
+// providers.ts
+import { requestUrl, RequestUrlParam } from 'obsidian';
+import type { ProviderSettings, RateLimitSettings } from './types';
+
+// === Interfaces ===
+
+/**
+ * What a provider's backend can do beyond a plain request/response call.
+ */
+export interface ProviderCapabilities {
+    /** The model list can be fetched from the backend for the settings dropdown. */
+    listModels: boolean;
+    /** The backend can stream tokens; `streamFormat` and `parseStreamChunk` must be set. */
+    streaming: boolean;
+    /** The backend can be held to a JSON schema for its answer; `buildRequest` applies `responseSchema`. */
+    structuredOutput: boolean;
+}
+
+/**
+ * Result of classifying a failed (non-200) response.
+ */
+export interface ProviderError {
+    message: string;
+    /** True when the request should be retried with backoff. */
+    rateLimited: boolean;
+}
+
+/**
+ * Token counts (and the price, when the backend reports one) of a response.
+ * Streamed responses report them in pieces, so every field is optional.
+ */
+export interface TokenUsage {
+    promptTokens?: number;
+    completionTokens?: number;
+    /** Cost in USD as charged by the backend. */
+    cost?: number;
+}
+
+/**
+ * A single field rendered in the settings tab for a provider.
+ * `model` fields become a dropdown when the provider can list models.
+ */
+export interface ProviderField {
+    key: keyof ProviderSettings;
+    name: string;
+    desc?: string;
+    placeholder?: string;
+    type: 'text' | 'password' | 'textarea' | 'model';
+    /** Re-render the settings tab after a change (e.g. endpoint changes the model list). */
+    refreshOnChange?: boolean;
+}
+
+/**
+ * A translation backend. Builds the HTTP request, extracts the translated
+ * text from a response and classifies errors, so TranslationEngine never
+ * needs to know which backend it is talking to.
+ */
+export interface TranslationProvider {
+    id: string;
+    name: string;
+    capabilities: ProviderCapabilities;
+    defaults: ProviderSettings;
+    /** Quota defaults overriding DEFAULT_RATE_LIMITS (e.g. one request at a time for local servers). */
+    rateLimits?: Partial<RateLimitSettings>;
+    fields: ProviderField[];
+
+    /** Wire format of a streamed body: `data:` lines (SSE) or one JSON object per line (NDJSON). */
+    streamFormat?: 'sse' | 'ndjson';
+
+    buildRequest(settings: ProviderSettings, systemPrompt: string, userPrompt: string, stream?: boolean, responseSchema?: object): { url: string; options: RequestUrlParam };
+    parseResponse(settings: ProviderSettings, json: any): string | undefined;
+    /** Extracts the text delta from one parsed stream event, or undefined for non-text events. */
+    parseStreamChunk?(settings: ProviderSettings, json: any): string | undefined;
+    classifyError(status: number, json: any, text: string): ProviderError;
+    /** Reads token usage from a response body or a stream event. */
+    parseUsage?(json: any): TokenUsage | undefined;
+    listModels?(settings: ProviderSettings): Promise<{ id: string; name: string }[]>;
+}
+
+// Quotas for providers that declare none: no per-minute limits, a few requests in parallel
+export const DEFAULT_RATE_LIMITS: RateLimitSettings = {
+    requestsPerMinute: 0,
+    tokensPerMinute: 0,
+    maxConcurrency: 4,
+};
+
+// === Shared Helpers ===
+
+/**
+ * Safely retrieves a nested property from an object using a string path (e.g., 'choices[0].message.content').
+ */
+export function getPropertyByPath(obj: any, path: string): any {
+    const keys = path.replace(/\[(\w+)\]/g, '.$1').replace(/^\./, '').split('.');
+    let result = obj;
+    for (const key of keys) {
+        if (result === null || result === undefined) {
+            return undefined;
+        }
+        result = result[key];
+    }
+    return result;
+}
+
+/**
+ * Escapes characters in a string for safe inclusion in a JSON request body.
+ */
+export function escapeJsonString(str: string): string {
+    return str.replace(/\\/g, '\\\\')
+              .replace(/"/g, '\\"')
+              .replace(/\n/g, '\\n')
+              .replace(/\r/g, '\\r')
+              .replace(/\t/g, '\\t');
+}
+
+/**
+ * Removes a trailing slash so paths can be appended safely.
+ */
+export function trimEndpoint(endpoint: string): string {
+    return endpoint.endsWith('/') ? endpoint.slice(0, -1) : endpoint;
+}
+
+/**
+ * Default error classification shared by the OpenAI-style backends.
+ */
+export function classifyHttpError(status: number, json: any, text: string): ProviderError {
+    const message = json?.error?.message || (typeof json?.error === 'string' ? json.error : '') || text;
+    const rateLimited = status === 429 || (typeof message === 'string' && message.toLowerCase().includes('rate limit'));
+    return { message, rateLimited };
+}
+
+/**
+ * Reads the OpenAI-style `usage` object. OpenRouter adds the charged `cost` to it.
+ */
+export function parseOpenAiUsage(json: any): TokenUsage | undefined {
+    const usage = json?.usage;
+    if (!usage) return undefined;
+    return {
+        promptTokens: usage.prompt_tokens,
+        completionTokens: usage.completion_tokens,
+        cost: typeof usage.cost === 'number' ? usage.cost : undefined,
+    };
+}
+
+/**
+ * Reads Ollama's eval counts, present on the final object of a response.
+ */
+function parseOllamaUsage(json: any): TokenUsage | undefined {
+    if (json?.prompt_eval_count === undefined && json?.eval_count === undefined) return undefined;
+    return { promptTokens: json.prompt_eval_count, completionTokens: json.eval_count };
+}
+
+/**
+ * OpenAI-style `response_format` requiring the answer to match the schema.
+ */
+function jsonSchemaFormat(schema: object) {
+    return { type: 'json_schema', json_schema: { name: 'translations', strict: true, schema } };
+}
+
+function postJson(url: string, headers: Record<string, string>, body: any): { url: string; options: RequestUrlParam } {
+    return {
+        url,
+        options: {
+            method: 'POST',
+            headers,
+            body: JSON.stringify(body),
+            throw: false,
+        }
+    };
+}
+
+// === Built-in Providers ===
+
+const openRouterProvider: TranslationProvider = {
+    id: 'openrouter',
+    name: 'OpenRouter',
+    capabilities: { listModels: true, streaming: true, structuredOutput: true },
+    streamFormat: 'sse',
+    defaults: {
+        apiKey: '',
+        model: 'google/gemini-flash-1.5'
+    },
+    fields: [
+        { key: 'apiKey', name: 'OpenRouter API Key', desc: 'Get your key from https://openrouter.ai/keys', placeholder: 'sk-or-v1-...', type: 'password' },
+        { key: 'model', name: 'Model', desc: 'Choose a model (e.g., google/gemini-flash-1.5 is recommended)', type: 'model' },
+    ],
+
+    buildRequest(settings, systemPrompt, userPrompt, stream = false, responseSchema) {
+        if (!settings.apiKey) throw new Error('OpenRouter API key is missing.');
+        return postJson('https://openrouter.ai/api/v1/chat/completions', {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${settings.apiKey}`,
+            'HTTP-Referer': 'obsidian://pdf-translator',
+            'X-Title': 'PDF Translator Plugin',
+        }, {
+            model: settings.model,
+            messages: [
+                { role: 'system', content: systemPrompt },
+                { role: 'user', content: userPrompt }
+            ],
+            max_tokens: 4096,
+            temperature: 0.1,
+            stream,
+            usage: { include: true }, // Adds token counts and the charged cost to the response
+            ...(responseSchema && { response_format: jsonSchemaFormat(responseSchema) }),
+        });
+    },
+
+    parseResponse(settings, json) {
+        return getPropertyByPath(json, 'choices[0].message.content');
+    },
+
+    parseStreamChunk(settings, json) {
+        return getPropertyByPath(json, 'choices[0].delta.content');
+    },
+
+    classifyError: classifyHttpError,
+    parseUsage: parseOpenAiUsage,
+
+    async listModels() {
+        const resp = await requestUrl('https://openrouter.ai/api/v1/models');
+        const data = await resp.json;
+        return (Array.isArray(data.data) ? data.data : [])
+            .sort((a: any, b: any) => a.name.localeCompare(b.name))
+            .map((m: any) => ({ id: m.id, name: `${m.name} (${m.id})` }));
+    },
+};
+
+const ollamaProvider: TranslationProvider = {
+    id: 'ollama',
+    name: 'Ollama (Local)',
+    capabilities: { listModels: true, streaming: true, structuredOutput: true },
+    streamFormat: 'ndjson',
+    defaults: {
+        apiEndpoint: 'http://localhost:11434',
+        model: 'llama3'
+    },
+    rateLimits: { maxConcurrency: 1 }, // Local servers usually handle one request at a time
+    fields: [
+        { key: 'apiEndpoint', name: 'Ollama API Endpoint', desc: 'The local URL for your Ollama server.', placeholder: 'http://localhost:11434', type: 'text', refreshOnChange: true },
+        { key: 'model', name: 'Model', desc: 'Choose a local model to use.', type: 'model' },
+    ],
+
+    buildRequest(settings, systemPrompt, userPrompt, stream = false, responseSchema) {
+        if (!settings.apiEndpoint || !settings.model) throw new Error('Ollama endpoint or model is missing.');
+        return postJson(`${trimEndpoint(settings.apiEndpoint)}/api/chat`, { 'Content-Type': 'application/json' }, {
+            model: settings.model,
+            stream,
+            messages: [
+                { role: 'system', content: systemPrompt },
+                { role: 'user', content: userPrompt }
+            ],
+            // Ollama takes the JSON schema itself as the output format
+            ...(responseSchema && { format: responseSchema }),
+        });
+    },
+
+    parseResponse(settings, json) {
+        return getPropertyByPath(json, 'message.content');
+    },
+
+    parseStreamChunk(settings, json) {
+        return getPropertyByPath(json, 'message.content');
+    },
+
+    classifyError: classifyHttpError,
+    parseUsage: parseOllamaUsage,
+
+    async listModels(settings) {
+        const endpoint = trimEndpoint(settings.apiEndpoint || 'http://localhost:11434');
+        const resp = await requestUrl({ url: `${endpoint}/api/tags` });
+        const data = await resp.json;
+        return (data.models || []).map((m: any) => ({ id: m.name, name: m.name }));
+    },
+};
+
+const customProvider: TranslationProvider = {
+    id: 'custom',
+    name: 'Custom Endpoint',
+    capabilities: { listModels: false, streaming: false, structuredOutput: false },
+    defaults: {
+        apiEndpoint: '',
+        apiKey: '',
+        model: '',
+        headers: '{\n  "Content-Type": "application/json",\n  "Authorization": "Bearer {apiKey}"\n}',
+        requestBody: '{\n  "model": "{model}",\n  "messages": [\n    {\n      "role": "system",\n      "content": "{systemPrompt}"\n    },\n    {\n      "role": "user",\n      "content": "{userPrompt}"\n    }\n  ]\n}',
+        responsePath: 'choices[0].message.content'
+    },
+    fields: [
+        { key: 'apiEndpoint', name: 'API Endpoint URL', type: 'text' },
+        { key: 'apiKey', name: 'API Key (Optional)', desc: 'Your API key. Use {apiKey} in Headers if needed.', type: 'password' },
+        { key: 'model', name: 'Model Name', desc: 'The model identifier to include in the request body.', type: 'text' },
+        { key: 'headers', name: 'Request Headers (JSON)', desc: 'JSON object for request headers. Use {apiKey} for your key.', type: 'textarea' },
+        { key: 'requestBody', name: 'Request Body (JSON Template)', desc: 'JSON template with placeholders: {model}, {systemPrompt}, {userPrompt}.', type: 'textarea' },
+        { key: 'responsePath', name: 'Response Path', desc: 'Dot notation path to the translated text in the response JSON.', placeholder: 'e.g., choices[0].message.content', type: 'text' },
+    ],
+
+    buildRequest(settings, systemPrompt, userPrompt) {
+        if (!settings.apiEndpoint) throw new Error('Custom API endpoint is missing.');
+
+        let headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (settings.headers) {
+            const populatedHeaders = settings.headers.replace(/{apiKey}/g, settings.apiKey || '');
+            try {
+                headers = { ...headers, ...JSON.parse(populatedHeaders) };
+            } catch (e) {
+                throw new Error('Failed to parse custom headers JSON.');
+            }
+        }
+
+        if (!settings.requestBody) throw new Error('Custom request body setting is missing.');
+        const populatedBody = settings.requestBody
+            .replace(/{model}/g, settings.model || '')
+            .replace(/{systemPrompt}/g, escapeJsonString(systemPrompt))
+            .replace(/{userPrompt}/g, escapeJsonString(userPrompt));
+        let body: any;
+        try {
+            body = JSON.parse(populatedBody);
+        } catch (e) {
+            throw new Error('Failed to parse custom request body JSON.');
+        }
+
+        return postJson(settings.apiEndpoint, headers, body);
+    },
+
+    parseResponse(settings, json) {
+        return getPropertyByPath(json, settings.responsePath || 'choices[0].message.content');
+    },
+
+    classifyError: classifyHttpError,
+    parseUsage: parseOpenAiUsage,
+};
+
+const openAiCompatibleProvider: TranslationProvider = {
+    id: 'openai-compatible',
+    name: 'OpenAI-compatible (LM Studio, vLLM, llama.cpp)',
+    capabilities: { listModels: true, streaming: true, structuredOutput: true },
+    streamFormat: 'sse',
+    defaults: {
+        apiEndpoint: 'http://localhost:1234/v1',
+        apiKey: '',
+        model: ''
+    },
+    rateLimits: { maxConcurrency: 1 },
+    fields: [
+        { key: 'apiEndpoint', name: 'Base URL', desc: 'Server base URL including /v1, e.g. http://localhost:1234/v1 (LM Studio) or http://localhost:8080/v1 (llama.cpp).', placeholder: 'http://localhost:1234/v1', type: 'text', refreshOnChange: true },
+        { key: 'apiKey', name: 'API Key (Optional)', desc: 'Sent as a Bearer token. Local servers usually do not need one.', type: 'password' },
+        { key: 'model', name: 'Model', desc: 'Model served by the endpoint.', type: 'model' },
+    ],
+
+    buildRequest(settings, systemPrompt, userPrompt, stream = false, responseSchema) {
+        if (!settings.apiEndpoint) throw new Error('OpenAI-compatible base URL is missing.');
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (settings.apiKey) headers['Authorization'] = `Bearer ${settings.apiKey}`;
+        return postJson(`${trimEndpoint(settings.apiEndpoint)}/chat/completions`, headers, {
+            model: settings.model,
+            messages: [
+                { role: 'system', content: systemPrompt },
+                { role: 'user', content: userPrompt }
+            ],
+            temperature: 0.1,
+            stream,
+            ...(responseSchema && { response_format: jsonSchemaFormat(responseSchema) }),
+        });
+    },
+
+    parseResponse(settings, json) {
+        return getPropertyByPath(json, 'choices[0].message.content');
+    },
+
+    parseStreamChunk(settings, json) {
+        return getPropertyByPath(json, 'choices[0].delta.content');
+    },
+
+    classifyError: classifyHttpError,
+    parseUsage: parseOpenAiUsage,
+
+    async listModels(settings) {
+        const endpoint = trimEndpoint(settings.apiEndpoint || 'http://localhost:1234/v1');
+        const headers: Record<string, string> = {};
+        if (settings.apiKey) headers['Authorization'] = `Bearer ${settings.apiKey}`;
+        const resp = await requestUrl({ url: `${endpoint}/models`, headers });
+        const data = await resp.json;
+        return (Array.isArray(data.data) ? data.data : []).map((m: any) => ({ id: m.id, name: m.id }));
+    },
+};
+
+const anthropicProvider: TranslationProvider = {
+    id: 'anthropic',
+    name: 'Anthropic-style Messages API',
+    capabilities: { listModels: false, streaming: true, structuredOutput: false },
+    streamFormat: 'sse',
+    defaults: {
+        apiEndpoint: 'https://api.anthropic.com',
+        apiKey: '',
+        model: ''
+    },
+    fields: [
+        { key: 'apiEndpoint', name: 'Base URL', desc: 'The request is sent to {Base URL}/v1/messages.', placeholder: 'https://api.anthropic.com', type: 'text' },
+        { key: 'apiKey', name: 'API Key', desc: 'Sent in the x-api-key header.', type: 'password' },
+        { key: 'model', name: 'Model Name', desc: 'The model identifier to include in the request body.', type: 'text' },
+    ],
+
+    buildRequest(settings, systemPrompt, userPrompt, stream = false) {
+        if (!settings.apiKey) throw new Error('Anthropic API key is missing.');
+        if (!settings.model) throw new Error('Anthropic model name is missing.');
+        const endpoint = trimEndpoint(settings.apiEndpoint || 'https://api.anthropic.com');
+        return postJson(`${endpoint}/v1/messages`, {
+            'Content-Type': 'application/json',
+            'x-api-key': settings.apiKey,
+            'anthropic-version': '2023-06-01',
+        }, {
+            model: settings.model,
+            system: systemPrompt,
+            messages: [
+                { role: 'user', content: userPrompt }
+            ],
+            max_tokens: 4096,
+            temperature: 0.1,
+            stream,
+        });
+    },
+
+    parseResponse(settings, json) {
+        // The reply is a list of content blocks; join the text ones.
+        if (!Array.isArray(json?.content)) return undefined;
+        return json.content
+            .filter((block: any) => block?.type === 'text' && typeof block.text === 'string')
+            .map((block: any) => block.text)
+            .join('');
+    },
+
+    parseStreamChunk(settings, json) {
+        // Only content_block_delta events carry text; message_start, ping etc. are skipped.
+        if (json?.type !== 'content_block_delta') return undefined;
+        return json.delta?.text;
+    },
+
+    classifyError(status, json, text) {
+        const message = json?.error?.message || text;
+        const errorType = json?.error?.type;
+        // 529 / overloaded_error is transient, same as a rate limit.
+        const rateLimited = status === 429 || status === 529 ||
+            errorType === 'rate_limit_error' || errorType === 'overloaded_error';
+        return { message, rateLimited };
+    },
+
+    parseUsage(json) {
+        // Responses and message_start carry the full usage, message_delta only the output tokens
+        const usage = json?.usage ?? json?.message?.usage;
+        if (!usage) return undefined;
+        return { promptTokens: usage.input_tokens, completionTokens: usage.output_tokens };
+    },
+};
+
+const ollamaGenerateProvider: TranslationProvider = {
+    id: 'ollama-generate',
+    name: 'Ollama (Local, /api/generate)',
+    capabilities: { listModels: true, streaming: true, structuredOutput: true },
+    streamFormat: 'ndjson',
+    defaults: {
+        apiEndpoint: 'http://localhost:11434',
+        model: 'llama3'
+    },
+    rateLimits: { maxConcurrency: 1 },
+    fields: [
+        { key: 'apiEndpoint', name: 'Ollama API Endpoint', desc: 'The local URL for your Ollama server.', placeholder: 'http://localhost:11434', type: 'text', refreshOnChange: true },
+        { key: 'model', name: 'Model', desc: 'Choose a local model to use. Useful for base models without a chat template.', type: 'model' },
+    ],
+
+    buildRequest(settings, systemPrompt, userPrompt, stream = false, responseSchema) {
+        if (!settings.apiEndpoint || !settings.model) throw new Error('Ollama endpoint or model is missing.');
+        return postJson(`${trimEndpoint(settings.apiEndpoint)}/api/generate`, { 'Content-Type': 'application/json' }, {
+            model: settings.model,
+            stream,
+            system: systemPrompt,
+            prompt: userPrompt,
+            ...(responseSchema && { format: responseSchema }),
+        });
+    },
+
+    parseResponse(settings, json) {
+        return getPropertyByPath(json, 'response');
+    },
+
+    parseStreamChunk(settings, json) {
+        return getPropertyByPath(json, 'response');
+    },
+
+    classifyError: classifyHttpError,
+    parseUsage: parseOllamaUsage,
+
+    listModels: ollamaProvider.listModels,
+};
+
+// === Registry ===
+
+/**
+ * Central list of translation providers. Registration order is the order
+ * shown in the settings dropdown.
+ */
+export class ProviderRegistry {
+    private static providers: Map<string, TranslationProvider> = new Map();
+
+    static register(provider: TranslationProvider): void {
+        this.providers.set(provider.id, provider);
+    }
+
+    static get(id: string): TranslationProvider | undefined {
+        return this.providers.get(id);
+    }
+
+    static getAll(): TranslationProvider[] {
+        return [...this.providers.values()];
+    }
+
+    /**
+     * Default settings for every registered provider, keyed by provider id.
+     */
+    static getDefaultSettings(): Record<string, ProviderSettings> {
+        const result: Record<string, ProviderSettings> = {};
+        this.providers.forEach((provider, id) => { result[id] = { ...provider.defaults }; });
+        return result;
+    }
+
+    static getDefaultRateLimits(): Record<string, RateLimitSettings> {
+        const result: Record<string, RateLimitSettings> = {};
+        this.providers.forEach((provider, id) => { result[id] = { ...DEFAULT_RATE_LIMITS, ...provider.rateLimits }; });
+        return result;
+    }
+}
+
+ProviderRegistry.register(openRouterProvider);
+ProviderRegistry.register(ollamaProvider);
+ProviderRegistry.register(openAiCompatibleProvider);
+ProviderRegistry.register(anthropicProvider);
+ProviderRegistry.register(ollamaGenerateProvider);
+ProviderRegistry.register(customProvider);
\ No newline at end of file
@@ -0,0 +1,336 @@
+// quality.ts
+import { App, ButtonComponent, Modal, TFile } from 'obsidian';
+import type OpenRouterTranslatorPlugin from './main';
+import type { OverlayPositionData, QaFlag } from './types';
+import { containsFailedSegment } from './processing';
+import { htmlToPlainText } from './html-text';
+
+// Constants
+export const QA_ATTRIBUTE = 'data-qa'; // Overlay attribute holding { flags, score } until the overlay is saved
+const MIN_LETTERS = 10; // Shorter texts are too short to judge their language
+const MIN_LENGTH_CHECK_CHARS = 30;
+const MIN_LENGTH_SAMPLES = 3; // Overlays needed on a page to know its usual length ratio
+const LENGTH_RATIO_TOLERANCE = 2.2; // Flag ratios this many times above or below the page median
+const MIN_STOPWORD_HITS = 3;
+const FOREIGN_SCRIPT_SHARE = 0.5;
+const JUDGE_FLAG_SCORE = 2; // Judge scores at or below this are flagged
+const JUDGE_MAX_CHARS = 12000; // Per judge request; longer pages are split
+
+const JUDGE_PROMPT = `You review translations from {sourceLang} to {targetLang}. The user message is a JSON object with "pairs", each with an "id", a "source" and a "translation".
+Score every translation from 1 to 5: 5 = accurate and fluent, 4 = minor issues, 3 = understandable but flawed, 2 = wrong meaning or partly untranslated, 1 = unusable.
+Answer with JSON only: {"scores": [{"id": 1, "score": 4}]}`;
+
+const JUDGE_SCHEMA = {
+    type: 'object',
+    properties: {
+        scores: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    id: { type: 'integer' },
+                    score: { type: 'integer' },
+                },
+                required: ['id', 'score'],
+                additionalProperties: false,
+            },
+        },
+    },
+    required: ['scores'],
+    additionalProperties: false,
+};
+
+// Frequent function words; a translation full of another language's is probably untranslated
+const STOPWORDS: Record<string, Set<string>> = {
+    en: new Set(['the', 'and', 'of', 'to', 'is', 'that', 'with', 'for', 'are', 'this', 'it', 'was', 'which', 'be', 'from']),
+    de: new Set(['der', 'die', 'und', 'das', 'ist', 'nicht', 'mit', 'ein', 'eine', 'den', 'von', 'zu', 'sich', 'auf', 'für', 'dem', 'des', 'wird']),
+    fr: new Set(['le', 'la', 'les', 'et', 'des', 'est', 'une', 'un', 'du', 'dans', 'que', 'pour', 'pas', 'sur', 'qui', 'au', 'avec']),
+    es: new Set(['el', 'la', 'los', 'las', 'y', 'que', 'en', 'es', 'por', 'una', 'con', 'para', 'del', 'se', 'al', 'como']),
+    it: new Set(['il', 'la', 'di', 'che', 'e', 'è', 'per', 'una', 'non', 'con', 'del', 'della', 'sono', 'gli', 'nel']),
+    pt: new Set(['o', 'os', 'as', 'que', 'e', 'do', 'da', 'em', 'um', 'uma', 'para', 'com', 'não', 'são', 'dos']),
+    nl: new Set(['de', 'het', 'een', 'en', 'van', 'is', 'dat', 'niet', 'op', 'te', 'zijn', 'met', 'voor', 'die', 'er']),
+};
+
+// Letters of the target languages that are not written in Latin script
+const SCRIPTS: Record<string, RegExp> = {
+    ru: /[\u0400-\u04FF]/, uk: /[\u0400-\u04FF]/, bg: /[\u0400-\u04FF]/,
+    el: /[\u0370-\u03FF]/,
+    ar: /[\u0600-\u06FF]/, fa: /[\u0600-\u06FF]/,
+    he: /[\u0590-\u05FF]/,
+    zh: /[\u4E00-\u9FFF]/,
+    ja: /[\u3040-\u30FF\u4E00-\u9FFF]/,
+    ko: /[\uAC00-\uD7AF\u1100-\u11FF]/,
+    hi: /[\u0900-\u097F]/,
+    th: /[\u0E00-\u0E7F]/,
+};
+const LATIN = /[A-Za-z\u00C0-\u024F]/;
+
+/**
+ * Result of the quality check for one overlay.
+ */
+export interface QaResult {
+    flags: QaFlag[];
+    score?: number;
+}
+
+export interface QaPair {
+    source: string; // HTML of the original paragraph
+    translation: string; // HTML of its translation
+}
+
+function letters(text: string): string[] {
+    return text.match(/\p{L}/gu) ?? [];
+}
+
+function extractNumbers(text: string): string[] {
+    // "1,000.5" and "1.000,5" compare equal: only the digits are kept
+    return (text.match(/\d+(?:[.,\u00A0\u202F]\d+)*/g) ?? []).map(n => n.replace(/\D/g, ''));
+}
+
+function extractUrls(text: string): string[] {
+    return (text.match(/\b(?:https?:\/\/|www\.)[^\s<>"']+|[\w.+-]+@[\w-]+\.[\w.-]+/gi) ?? []).map(url => url.replace(/[.,;:)\]]+$/, ''));
+}
+
+/**
+ * Items of `expected` (with repeats) that `actual` lacks.
+ */
+function missingItems(expected: string[], actual: string[]): string[] {
+    const remaining = [...actual];
+    return expected.filter(item => {
+        const index = remaining.indexOf(item);
+        if (index < 0) return true;
+        remaining.splice(index, 1);
+        return false;
+    });
+}
+
+/**
+ * Stored QA data of an overlay element, for saving it with the overlay.
+ */
+export function readQaAttribute(el: Element): Pick<OverlayPositionData, 'qaFlags' | 'qaScore'> {
+    const raw = el.getAttribute(QA_ATTRIBUTE);
+    if (!raw) return {};
+    try {
+        const { flags, score } = JSON.parse(raw);
+        return {
+            qaFlags: Array.isArray(flags) && flags.length > 0 ? flags : undefined,
+            qaScore: typeof score === 'number' ? score : undefined,
+        };
+    } catch {
+        return {};
+    }
+}
+
+/**
+ * Optional quality pass over a translated page. Flags translations that look untranslated,
+ * are unusually long or short for the page, or lost numbers or links, and can have the model
+ * score each translation (LLM as judge).
+ */
+export class QualityChecker {
+    private plugin: OpenRouterTranslatorPlugin;
+
+    constructor(plugin: OpenRouterTranslatorPlugin) {
+        this.plugin = plugin;
+    }
+
+    /**
+     * Checks the overlays of one page. Returns one result per pair, in order.
+     * A failing judge request is logged and leaves the scores out.
+     */
+    async checkPage(pairs: QaPair[], pdfPath?: string): Promise<QaResult[]> {
+        const plain = pairs.map(({ source, translation }) => ({ source: htmlToPlainText(source), translation: htmlToPlainText(translation) }));
+        const checked = pairs.map(pair => !!pair.translation.trim() && !containsFailedSegment(pair.translation));
+        const results: QaResult[] = plain.map((pair, i) => ({ flags: checked[i] ? this.checkPair(pair.source, pair.translation) : [] }));
+        this.flagLengthOutliers(plain, checked, results);
+
+        if (this.plugin.settings.qualityJudge) {
+            const scores = await this.judge(plain, checked, pdfPath);
+            scores.forEach((score, i) => {
+                if (score === undefined) return;
+                results[i].score = score;
+                if (score <= JUDGE_FLAG_SCORE) results[i].flags.push({ kind: 'judge', message: `Judge score ${score}/5` });
+            });
+        }
+        return results;
+    }
+
+    // === Heuristics ===
+
+    private checkPair(source: string, translation: string): QaFlag[] {
+        const flags: QaFlag[] = [];
+        const untranslated = this.checkLanguage(source, translation);
+        if (untranslated) flags.push({ kind: 'untranslated', message: untranslated });
+
+        const missingNumbers = missingItems(extractNumbers(source), extractNumbers(translation));
+        const addedNumbers = missingItems(extractNumbers(translation), extractNumbers(source));
+        if (missingNumbers.length > 0 || addedNumbers.length > 0) {
+            const parts = [];
+            if (missingNumbers.length > 0) parts.push(`missing ${missingNumbers.join(', ')}`);
+            if (addedNumbers.length > 0) parts.push(`added ${addedNumbers.join(', ')}`);
+            flags.push({ kind: 'numbers', message: `Numbers differ: ${parts.join('; ')}` });
+        }
+
+        const missingUrls = missingItems(extractUrls(source), extractUrls(translation));
+        if (missingUrls.length > 0) flags.push({ kind: 'urls', message: `Links changed or missing: ${missingUrls.join(', ')}` });
+        return flags;
+    }
+
+    /**
+     * Describes why the translation seems to be (partly) in another language than the target,
+     * or returns null.
+     */
+    private checkLanguage(source: string, translation: string): string | null {
+        const translationLetters = letters(translation);
+        if (translationLetters.length < MIN_LETTERS) return null;
+        if (source.toLowerCase() === translation.toLowerCase()) return 'Identical to the source text';
+
+        const target = this.plugin.settings.targetLanguage;
+        const script = SCRIPTS[target];
+        if (script) {
+            const share = translationLetters.filter(ch => script.test(ch)).length / translationLetters.length;
+            return share < 1 - FOREIGN_SCRIPT_SHARE ? 'Mostly not written in the target script' : null;
+        }
+
+        const latinShare = translationLetters.filter(ch => LATIN.test(ch)).length / translationLetters.length;
+        if (latinShare < FOREIGN_SCRIPT_SHARE) return 'Mostly not written in the target script';
+
+        const targetStopwords = STOPWORDS[target];
+        if (!targetStopwords) return null;
+        const words = translation.toLowerCase().split(/[^\p{L}]+/u).filter(Boolean);
+        const hits = (stopwords: Set<string>) => words.filter(word => stopwords.has(word)).length;
+        const targetHits = hits(targetStopwords);
+        for (const [code, stopwords] of Object.entries(STOPWORDS)) {
+            if (code === target) continue;
+            const otherHits = hits(stopwords);
+            if (otherHits >= MIN_STOPWORD_HITS && otherHits > 2 * targetHits) return `Looks like ${code.toUpperCase()}, not ${target.toUpperCase()}`;
+        }
+        return null;
+    }
+
+    /**
+     * Flags translations whose length ratio to the source is far from the page's median ratio.
+     */
+    private flagLengthOutliers(pairs: { source: string; translation: string }[], checked: boolean[], results: QaResult[]): void {
+        const ratios = pairs.map((pair, i) => checked[i] && pair.source.length >= MIN_LENGTH_CHECK_CHARS
+            ? pair.translation.length / pair.source.length
+            : null);
+        const samples = ratios.filter((ratio): ratio is number => ratio !== null).sort((a, b) => a - b);
+        if (samples.length < MIN_LENGTH_SAMPLES) return;
+        const median = samples[Math.floor(samples.length / 2)];
+        if (median <= 0) return;
+
+        ratios.forEach((ratio, i) => {
+            if (ratio === null) return;
+            const relative = ratio / median;
+            if (relative > LENGTH_RATIO_TOLERANCE || relative < 1 / LENGTH_RATIO_TOLERANCE) {
+                results[i].flags.push({ kind: 'length', message: `${Math.round(relative * 100)}% of the usual translation length on this page` });
+            }
+        });
+    }
+
+    // === LLM Judge ===
+
+    private async judge(pairs: { source: string; translation: string }[], checked: boolean[], pdfPath?: string): Promise<(number | undefined)[]> {
+        const scores: (number | undefined)[] = pairs.map(() => undefined);
+        const translation = this.plugin.translation;
+        const systemPrompt = JUDGE_PROMPT
+            .replace(/{sourceLang}/g, translation.getSourceLangName())
+            .replace(/{targetLang}/g, translation.getTargetLangName());
+
+        // Requests of at most JUDGE_MAX_CHARS; ids are 1-based indices into `pairs`
+        const requests: { id: number; source: string; translation: string }[][] = [[]];
+        let size = 0;
+        pairs.forEach((pair, i) => {
+            if (!checked[i]) return;
+            const length = pair.source.length + pair.translation.length;
+            if (size + length > JUDGE_MAX_CHARS && requests[requests.length - 1].length > 0) {
+                requests.push([]);
+                size = 0;
+            }
+            requests[requests.length - 1].push({ id: i + 1, ...pair });
+            size += length;
+        });
+
+        await Promise.all(requests.filter(batch => batch.length > 0).map(async batch => {
+            try {
+                const raw = await translation.makeApiCall(systemPrompt, JSON.stringify({ pairs: batch }), { pdfPath, responseSchema: JUDGE_SCHEMA });
+                const start = raw.indexOf('{');
+                const parsed = JSON.parse(raw.slice(start, raw.lastIndexOf('}') + 1));
+                for (const entry of Array.isArray(parsed?.scores) ? parsed.scores : []) {
+                    const index = Number(entry?.id) - 1;
+                    const score = Number(entry?.score);
+                    if (batch.some(pair => pair.id === index + 1) && score >= 1 && score <= 5) scores[index] = Math.round(score);
+                }
+            } catch (error) {
+                this.plugin.logDebug('Quality judge request failed:', error);
+            }
+        }));
+        return scores;
+    }
+
+    // === Review ===
+
+    /**
+     * Saved overlays of a PDF that carry quality flags, in page order.
+     */
+    async getFlaggedOverlays(pdfFile: TFile): Promise<OverlayPositionData[]> {
+        const saved = await this.plugin.storage.readSavedOverlayForFile(pdfFile);
+        if (!saved) return [];
+        return Object.keys(saved.overlay.pageOverlays)
+            .map(Number)
+            .sort((a, b) => a - b)
+            .flatMap(page => saved.overlay.pageOverlays[page].filter(item => item.qaFlags?.length));
+    }
+}
+
+/**
+ * Lists the flagged overlays of one PDF with their flags, with a link to each page.
+ */
+export class QualityReviewModal extends Modal {
+    private plugin: OpenRouterTranslatorPlugin;
+    private pdfFile: TFile;
+
+    constructor(app: App, plugin: OpenRouterTranslatorPlugin, pdfFile: TFile) {
+        super(app);
+        this.plugin = plugin;
+        this.pdfFile = pdfFile;
+    }
+
+    async onOpen() {
+        const { contentEl } = this;
+        this.titleEl.setText(`Flagged Translations: ${this.pdfFile.basename}`);
+        contentEl.createEl('p', { text: 'Loading...' });
+
+        const items = await this.plugin.quality.getFlaggedOverlays(this.pdfFile);
+        contentEl.empty();
+        if (items.length === 0) {
+            contentEl.createEl('p', { text: 'No flagged translations. Turn on "Quality Checks" in settings to flag new translations.' });
+            return;
+        }
+
+        contentEl.createEl('p', { text: `${items.length} flagged overlay(s).` });
+        let currentPage = -1;
+        for (const item of items) {
+            if (item.page !== currentPage) {
+                currentPage = item.page;
+                const header = contentEl.createDiv({ cls: 'translator-button-container' });
+                header.createEl('h4', { text: `Page ${item.page}` });
+                const page = item.page;
+                new ButtonComponent(header).setButtonText('Go to page').onClick(() => {
+                    this.app.workspace.openLinkText(`${this.pdfFile.path}#page=${page}`, '', false);
+                    this.close();
+                });
+            }
+            const row = contentEl.createDiv({ cls: 'translator-job-row' });
+            row.createEl('p', { text: item.textContent.length > 160 ? `${item.textContent.slice(0, 160)}…` : item.textContent });
+            const translation = htmlToPlainText(item.translatedText);
+            row.createEl('p', { text: `→ ${translation.length > 160 ? `${translation.slice(0, 160)}…` : translation}` });
+            const list = row.createEl('ul');
+            item.qaFlags!.forEach(flag => list.createEl('li', { text: flag.message }));
+        }
+    }
+
+    onClose() {
+        this.contentEl.empty();
+    }
+}
\ No newline at end of file
@@ -0,0 +1,128 @@
+// rate-limiter.ts
+import type { RateLimitSettings } from './types';
+
+// Constants
+const WINDOW_MS = 60_000; // Quotas are per minute, checked over a sliding window
+
+interface WindowEntry {
+    time: number;
+    tokens: number;
+}
+
+interface Waiter {
+    tokens: number;
+    resolve: (release: () => void) => void;
+}
+
+/**
+ * Parses a Retry-After header (delay in seconds or an HTTP date) into milliseconds.
+ * Returns null when the header is missing or unreadable.
+ */
+export function parseRetryAfter(value: string | null | undefined): number | null {
+    if (!value) return null;
+    const seconds = Number(value.trim());
+    if (!isNaN(seconds)) return Math.max(0, seconds * 1000);
+    const date = Date.parse(value);
+    return isNaN(date) ? null : Math.max(0, date - Date.now());
+}
+
+/**
+ * Keeps the requests to one provider under its requests-per-minute and tokens-per-minute
+ * quotas and its concurrency limit. Callers are served in FIFO order; `blockFor` holds
+ * everyone back, e.g. until a server's Retry-After has passed. A limit of 0 means unlimited.
+ */
+export class RateLimiter {
+    private limits: RateLimitSettings;
+    private active = 0;
+    private window: WindowEntry[] = [];
+    private waiters: Waiter[] = [];
+    private blockedUntil = 0;
+    private timer: number | null = null;
+
+    constructor(limits: RateLimitSettings) {
+        this.limits = { ...limits };
+    }
+
+    configure(limits: RateLimitSettings): void {
+        this.limits = { ...limits };
+        this.pump();
+    }
+
+    /**
+     * Waits for a free slot and returns the function that releases it. `estimatedTokens`
+     * counts against the token quota; a request larger than the whole quota runs alone.
+     */
+    acquire(estimatedTokens: number): Promise<() => void> {
+        return new Promise(resolve => {
+            this.waiters.push({ tokens: estimatedTokens, resolve });
+            this.pump();
+        });
+    }
+
+    /** Lets no new request start for `ms` milliseconds. */
+    blockFor(ms: number): void {
+        this.blockedUntil = Math.max(this.blockedUntil, Date.now() + ms);
+        this.pump();
+    }
+
+    get queuedRequests(): number {
+        return this.waiters.length;
+    }
+
+    private pump(): void {
+        if (this.timer !== null) {
+            window.clearTimeout(this.timer);
+            this.timer = null;
+        }
+        while (this.waiters.length > 0) {
+            const wait = this.getWaitTime(this.waiters[0].tokens);
+            if (wait === null) return; // A running request has to finish first
+            if (wait > 0) {
+                this.timer = window.setTimeout(() => {
+                    this.timer = null;
+                    this.pump();
+                }, wait);
+                return;
+            }
+
+            const waiter = this.waiters.shift()!;
+            this.active++;
+            this.window.push({ time: Date.now(), tokens: waiter.tokens });
+            let released = false;
+            waiter.resolve(() => {
+                if (released) return;
+                released = true;
+                this.active--;
+                this.pump();
+            });
+        }
+    }
+
+    /**
+     * Milliseconds until a request of this size may start, or null while the
+     * concurrency limit is reached.
+     */
+    private getWaitTime(tokens: number): number | null {
+        const now = Date.now();
+        this.window = this.window.filter(entry => now - entry.time < WINDOW_MS);
+        const { requestsPerMinute, tokensPerMinute, maxConcurrency } = this.limits;
+
+        if (maxConcurrency > 0 && this.active >= maxConcurrency) return null;
+
+        let wait = Math.max(0, this.blockedUntil - now);
+        if (requestsPerMinute > 0 && this.window.length >= requestsPerMinute) {
+            const oldestToExpire = this.window[this.window.length - requestsPerMinute];
+            wait = Math.max(wait, oldestToExpire.time + WINDOW_MS - now);
+        }
+        if (tokensPerMinute > 0) {
+            let used = this.window.reduce((sum, entry) => sum + entry.tokens, 0);
+            let expired = 0;
+            while (used + tokens > tokensPerMinute && expired < this.window.length) {
+                used -= this.window[expired].tokens;
+                expired++;
+            }
+            if (expired > 0) wait = Math.max(wait, this.window[expired - 1].time + WINDOW_MS - now);
+        }
+        return wait;
+    }
+}
\ No newline at end of file
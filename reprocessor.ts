@@ -1,8 +1,11 @@
 // reprocessor.ts
 import { App, Notice, TFile } from 'obsidian';
 import OpenRouterTranslatorPlugin from './main';
-import { OverlayPositionData, SavedOverlay } from './types';
+import { OverlayPositionData, RevisionInfo, SavedOverlay } from './types';
 import { LayoutResult } from './layout-detector';
+import { readTextItems } from './TextItem';
+import { carryOverHistory } from './history';
+import { formatModelChoice } from './compare';
 
 /**
  * RegionReprocessor
@@ -23,6 +26,7 @@ export class RegionReprocessor {
     private isActive = false;
     private frameId: number | null = null;
     private debugGuides = new Set<HTMLElement>();
+    private compareModels = false;
 
     constructor(plugin: OpenRouterTranslatorPlugin) {
         this.plugin = plugin;
@@ -31,8 +35,11 @@ export class RegionReprocessor {
 
     /**
      * Starts a new reprocessing session.
+     * @param compareModels Translate the region with the comparison models and let the user pick per segment.
      */
-    public start(): void {
+    public start(compareModels = false): void {
+        if (compareModels && !this.plugin.comparison.getComparisonModels()) return;
+        this.compareModels = compareModels;
         if (this.isActive) {
             new Notice('Another reprocessing session is active. Canceling previous one.');
             this.cleanupAll();
@@ -192,17 +199,19 @@ export class RegionReprocessor {
                 const r = span.getBoundingClientRect();
                 const overlaps = !(r.right < screenRect.left || r.left > screenRect.right || r.bottom < screenRect.top || r.top > screenRect.bottom);
                 return overlaps;
-            })
-            .filter(span => this.plugin.processor.isValidSpan(span));
+            });
+        const selectedItems = readTextItems(selectedSpans, pageEl)
+            .filter(item => this.plugin.processor.isValidTextItem(item));
 
-        if (selectedSpans.length === 0) {
+        if (selectedItems.length === 0) {
             new Notice('⚠️ No valid text found in selected region.');
             this.finish();
             return;
         }
 
         // Step 2: Delegate processing and translation to the main TextProcessor
-        const translationUnits = this.plugin.processor.prepareTranslationUnits(selectedSpans, pageEl);
+        const pageBox = pageEl.getBoundingClientRect();
+        const translationUnits = this.plugin.processor.prepareTranslationUnitsFromItems(selectedItems, { width: pageBox.width, height: pageBox.height });
         if (!translationUnits || translationUnits.length === 0) {
             new Notice('No translatable segments found in the selected region.');
             this.finish();
@@ -211,16 +220,37 @@ export class RegionReprocessor {
         new Notice(`🔁 Translating ${translationUnits.length} segment(s)...`, 3000);
 
         let translatedTexts: string[];
-        try {
-            translatedTexts = await this.plugin.processor.executeTranslation(translationUnits);
-        } catch (err: any) {
-            console.error('[RegionReprocessor] Translation failed:', err);
-            new Notice(`❌ Translation failed: ${err.message}. Using original text.`);
-            translatedTexts = translationUnits.map(u => u.text); // Fallback to original text
+        if (this.compareModels) {
+            const chosen = await this.plugin.comparison.chooseTranslations(translationUnits, {
+                pageNumber: parseInt(pageEl.dataset.pageNumber || '0', 10) || undefined,
+                pdfFile: file,
+            });
+            if (!chosen) {
+                this.finish();
+                return;
+            }
+            translatedTexts = chosen;
+        } else {
+            try {
+                translatedTexts = await this.plugin.processor.executeTranslation(translationUnits, {
+                    pageNumber: parseInt(pageEl.dataset.pageNumber || '0', 10) || undefined,
+                });
+            } catch (err: any) {
+                console.error('[RegionReprocessor] Translation failed:', err);
+                new Notice(`❌ Translation failed: ${err.message}. Using original text.`);
+                translatedTexts = translationUnits.map(u => u.text); // Fallback to original text
+            }
         }
 
         // Step 3: Generate overlay data for saving (Reprocessor's unique job)
         const newItems: OverlayPositionData[] = [];
+        const revision: RevisionInfo = {
+            source: 'machine',
+            timestamp: Date.now(),
+            model: this.compareModels
+                ? (this.plugin.comparison.getComparisonModels() ?? []).map(formatModelChoice).join(' / ')
+                : this.plugin.translation.getModelLabel(),
+        };
 
         // --- CORRECTED FONT SIZE CALCULATION ---
         // Get the current scale factor from the PDF viewer container *at the time of selection*.
@@ -234,11 +264,11 @@ export class RegionReprocessor {
         // --- END CORRECTED FONT SIZE CALCULATION ---
 
         for (let i = 0; i < translationUnits.length; i++) {
-            const { originalSpans, text } = translationUnits[i];
-            if (originalSpans.length === 0) continue;
+            const { originalItems, text } = translationUnits[i];
+            if (originalItems.length === 0) continue;
 
-            // Use processor.getSpansBbox which returns scaled values relative to the page element
-            const bboxResult = this.plugin.processor.getSpansBbox(originalSpans, pageEl);
+            // Use processor.getItemsBbox which returns scaled values relative to the page element
+            const bboxResult = this.plugin.processor.getItemsBbox(originalItems);
             if (!bboxResult || !bboxResult.rect) continue;
 
             const rawBbox = bboxResult.rect; // This is already scaled relative to pageEl's current transform
@@ -258,7 +288,7 @@ export class RegionReprocessor {
             }
 
             // --- CORRECTED FONT SIZE CALCULATION ---
-            // bboxResult.fontSizes and avgFontSize are scaled (they come from getSpansBbox on scaled spans).
+            // bboxResult.fontSizes and avgFontSize are scaled (they come from getItemsBbox on scaled spans).
             // To store the 'original' size for later rendering, we need to divide by the current scale.
             // However, the OverlayUIRenderer expects 'originalFontSizes' to be the base size *before* applying scale and outputFontSizeScale.
             // Therefore, storing the sizes as they were *observed* (scaled) and letting OverlayUIRenderer handle the scaling correctly is key.
@@ -288,6 +318,7 @@ export class RegionReprocessor {
                 // If you still want to store it, store the base size:
                 fontSize: baseAvgFontSize,
                 id: `reproc-${Date.now()}-${i}`, // Unique ID for the item
+                revision,
             });
         }
 
@@ -305,7 +336,8 @@ export class RegionReprocessor {
             !newItems.some(newItem => this.isOverlapping(oldItem.relativeRect, newItem.relativeRect))
         );
 
-        savedOverlay.pageOverlays[pageKey] = [...nonOverlappingOldItems, ...newItems];
+        // Replaced items keep their id and history
+        savedOverlay.pageOverlays[pageKey] = carryOverHistory(existingItems, [...nonOverlappingOldItems, ...newItems]);
         savedOverlay.timestamp = Date.now();
 
         await this.saveOverlay(savedOverlay, file);
@@ -11,11 +11,12 @@ import {
     TextAreaComponent,
     ButtonComponent,
     Notice,
-    requestUrl,
     TFolder
 } from 'obsidian';
 import OpenRouterTranslatorPlugin from './main';
-import { AVAILABLE_LANGUAGES, DEFAULT_SETTINGS } from './types';
+import { AVAILABLE_LANGUAGES, DEFAULT_SETTINGS, RateLimitSettings } from './types';
+import { ProviderRegistry, TranslationProvider, ProviderField, DEFAULT_RATE_LIMITS } from './providers';
+import { formatModelChoice, parseModelChoices } from './compare';
 
 // === Folder Suggester Component (No changes needed) ===
 export class FolderSuggest extends TextComponent {
@@ -105,11 +106,9 @@ export default class OpenRouterSettingsTab extends PluginSettingTab {
             .setName('API Provider')
             .setDesc('Choose your preferred translation service.')
             .addDropdown(dd => {
-                dd.addOption('openrouter', 'OpenRouter')
-                  .addOption('ollama', 'Ollama (Local)')
-                  .addOption('custom', 'Custom Endpoint')
-                  .setValue(this.plugin.settings.apiProvider)
-                  .onChange(async (value: 'openrouter' | 'ollama' | 'custom') => {
+                ProviderRegistry.getAll().forEach(p => dd.addOption(p.id, p.name));
+                dd.setValue(this.plugin.settings.apiProvider)
+                  .onChange(async (value) => {
                       this.plugin.settings.apiProvider = value;
                       await this.plugin.saveSettings();
                       // Re-render the settings tab to show provider-specific options
@@ -118,162 +117,11 @@ export default class OpenRouterSettingsTab extends PluginSettingTab {
             });
         
         containerEl.createEl('hr');
-        
-        const provider = this.plugin.settings.apiProvider;
-        const providerSettings = this.plugin.settings.providerSettings[provider];
 
         // --- PROVIDER-SPECIFIC SETTINGS ---
-        
-        if (provider === 'openrouter') {
-            new Setting(containerEl).setName('OpenRouter Settings').setHeading();
-
-            new Setting(containerEl)
-                .setName('OpenRouter API Key')
-                .setDesc('Get your key from https://openrouter.ai/keys')
-                .addText(text => {
-                    text.setPlaceholder('sk-or-v1-...')
-                        .setValue(providerSettings.apiKey || '')
-                        .onChange(async (value) => {
-                            providerSettings.apiKey = value.trim();
-                            await this.plugin.saveSettings();
-                        });
-                    text.inputEl.type = 'password';
-                });
-
-            new Setting(containerEl)
-                .setName('Model')
-                .setDesc('Choose a model (e.g., google/gemini-flash-1.5 is recommended)')
-                .addDropdown(async dd => {
-                    dd.setDisabled(true);
-                    dd.addOption('', 'Loading models...');
-                    
-                    try {
-                        const resp = await requestUrl('https://openrouter.ai/api/v1/models');
-                        const data = await resp.json;
-                        const models = (Array.isArray(data.data) ? data.data : [])
-                            .sort((a: any, b: any) => a.name.localeCompare(b.name));
-
-                        dd.selectEl.empty(); // Clear "Loading..."
-                        models.forEach((m: any) => dd.addOption(m.id, `${m.name} (${m.id})`));
-                        
-                        dd.setValue(providerSettings.model || 'google/gemini-flash-1.5');
-                        dd.setDisabled(false);
-                    } catch (err) {
-                        console.error('Failed to load models from OpenRouter:', err);
-                        dd.selectEl.empty();
-                        dd.addOption(providerSettings.model || 'google/gemini-flash-1.5', `Default (${providerSettings.model || 'google/gemini-flash-1.5'})`);
-                        dd.setValue(providerSettings.model || 'google/gemini-flash-1.5');
-                        new Notice('⚠️ Could not load models. Using current setting.');
-                        dd.setDisabled(false);
-                    }
-
-                    dd.onChange(async v => {
-                        providerSettings.model = v;
-                        await this.plugin.saveSettings();
-                    });
-                });
-
-        } else if (provider === 'ollama') {
-            new Setting(containerEl).setName('Ollama (Local) Settings').setHeading();
-
-            new Setting(containerEl)
-                .setName('Ollama API Endpoint')
-                .setDesc('The local URL for your Ollama server.')
-                .addText(text => text
-                    .setPlaceholder('http://localhost:11434')
-                    .setValue(providerSettings.apiEndpoint || '')
-                    .onChange(async (value) => {
-                        providerSettings.apiEndpoint = value;
-                        await this.plugin.saveSettings();
-                        // Refresh the settings to re-fetch models
-                        this.display(); 
-                    }));
-
-            new Setting(containerEl)
-                .setName('Model')
-                .setDesc('Choose a local model to use.')
-                .addDropdown(async dd => {
-                    dd.setDisabled(true);
-                    dd.addOption('', 'Fetching local models...');
-                    
-                    const endpoint = providerSettings.apiEndpoint || 'http://localhost:11434';
-                    try {
-                        const resp = await requestUrl({ url: `${endpoint}/api/tags` });
-                        const data = await resp.json;
-                        
-                        dd.selectEl.empty();
-                        if (data.models && data.models.length > 0) {
-                             data.models.forEach((m: any) => dd.addOption(m.name, m.name));
-                             dd.setValue(providerSettings.model || data.models[0].name);
-                        } else {
-                            dd.addOption('', 'No models found');
-                        }
-                    } catch(e) {
-                        console.error("Error fetching Ollama models:", e);
-                        new Notice(`⚠️ Could not connect to Ollama at ${endpoint}.`);
-                        dd.selectEl.empty();
-                        dd.addOption(providerSettings.model || 'llama3', `(Enter model name manually)`);
-                        dd.setValue(providerSettings.model || 'llama3');
-                    }
-                    dd.setDisabled(false);
-
-                    dd.onChange(async v => {
-                        providerSettings.model = v;
-                        await this.plugin.saveSettings();
-                    });
-                });
-
-        } else if (provider === 'custom') {
-            new Setting(containerEl).setName('Custom Endpoint Settings').setHeading();
-            
-            new Setting(containerEl)
-                .setName('API Endpoint URL')
-                .addText(t => t.setValue(providerSettings.apiEndpoint || '').onChange(async v => {
-                    providerSettings.apiEndpoint = v; await this.plugin.saveSettings();
-                }));
-            
-            new Setting(containerEl)
-                .setName('API Key (Optional)')
-                .setDesc('Your API key. Use {apiKey} in Headers if needed.')
-                .addText(t => {
-                    t.setValue(providerSettings.apiKey || '').onChange(async v => {
-                        providerSettings.apiKey = v.trim(); await this.plugin.saveSettings();
-                    });
-                    t.inputEl.type = 'password';
-                });
-
-            new Setting(containerEl)
-                .setName('Model Name')
-                .setDesc('The model identifier to include in the request body.')
-                .addText(t => t.setValue(providerSettings.model || '').onChange(async v => {
-                    providerSettings.model = v; await this.plugin.saveSettings();
-                }));
-
-            new Setting(containerEl)
-                .setName('Request Headers (JSON)')
-                .setDesc('JSON object for request headers. Use {apiKey} for your key.')
-                .addTextArea(ta => {
-                    ta.setValue(providerSettings.headers || DEFAULT_SETTINGS.providerSettings.custom.headers)
-                    .onChange(async v => { providerSettings.headers = v; await this.plugin.saveSettings(); });
-                    ta.inputEl.rows = 4;
-                });
-            
-            new Setting(containerEl)
-                .setName('Request Body (JSON Template)')
-                .setDesc('JSON template with placeholders: {model}, {systemPrompt}, {userPrompt}.')
-                .addTextArea(ta => {
-                    ta.setValue(providerSettings.requestBody || DEFAULT_SETTINGS.providerSettings.custom.requestBody)
-                    .onChange(async v => { providerSettings.requestBody = v; await this.plugin.saveSettings(); });
-                    ta.inputEl.rows = 10;
-                });
-
-            new Setting(containerEl)
-                .setName('Response Path')
-                .setDesc('Dot notation path to the translated text in the response JSON.')
-                .addText(t => t
-                    .setPlaceholder('e.g., choices[0].message.content')
-                    .setValue(providerSettings.responsePath || DEFAULT_SETTINGS.providerSettings.custom.responsePath)
-                    .onChange(async v => { providerSettings.responsePath = v; await this.plugin.saveSettings(); }));
+        const provider = ProviderRegistry.get(this.plugin.settings.apiProvider);
+        if (provider) {
+            this.renderProviderSettings(containerEl, provider);
         }
 
         containerEl.createEl('hr');
@@ -314,6 +162,110 @@ export default class OpenRouterSettingsTab extends PluginSettingTab {
             .addToggle(t => t.setValue(this.plugin.settings.useBatchTranslation).onChange(async v => {
                 this.plugin.settings.useBatchTranslation = v; await this.plugin.saveSettings();
             }));
+
+        new Setting(containerEl)
+            .setName('Structured JSON Output')
+            .setDesc('Send batches as a JSON list of segments with ids and request JSON back, enforced with a JSON schema where the provider supports it. Segments missing from the answer are requested again. Falls back to the numbered-list prompt if the answer is not valid JSON.')
+            .addToggle(t => t.setValue(this.plugin.settings.structuredBatchOutput).onChange(async v => {
+                this.plugin.settings.structuredBatchOutput = v; await this.plugin.saveSettings();
+            }));
+
+        new Setting(containerEl)
+            .setName('Stream Responses')
+            .setDesc('Show translated lines on the page as they arrive. Falls back to a normal request if the provider cannot stream.')
+            .addToggle(t => t.setValue(this.plugin.settings.streamResponses).onChange(async v => {
+                this.plugin.settings.streamResponses = v; await this.plugin.saveSettings();
+            }));
+
+        new Setting(containerEl)
+            .setName('Request Timeout (seconds)')
+            .setDesc('Abort a request when no tokens arrive for this long. Without streaming this limits the whole request.')
+            .addSlider(s => s.setLimits(10, 300, 5).setValue(this.plugin.settings.requestTimeoutSeconds).setDynamicTooltip().onChange(async v => {
+                this.plugin.settings.requestTimeoutSeconds = v; await this.plugin.saveSettings();
+            }));
+
+        new Setting(containerEl)
+            .setName('Global Glossary')
+            .setDesc('Path to a markdown or CSV term list used for every PDF. Add "glossary: [[file]]" to a translation file\'s frontmatter for a per-PDF list.')
+            .addText(text => text.setPlaceholder('Glossary.md').setValue(this.plugin.settings.glossaryPath).onChange(async v => {
+                this.plugin.settings.glossaryPath = v.trim(); await this.plugin.saveSettings();
+            }));
+
+        new Setting(containerEl)
+            .setName('Stitch Paragraphs Across Pages')
+            .setDesc('Translate a sentence that continues on the next page as a whole, then split the result between both pages.')
+            .addToggle(t => t.setValue(this.plugin.settings.stitchCrossPageParagraphs).onChange(async v => {
+                this.plugin.settings.stitchCrossPageParagraphs = v; await this.plugin.saveSettings();
+            }));
+
+        new Setting(containerEl)
+            .setName('Background Page-Range Translation')
+            .setDesc('"Translate multiple pages" reads the pages directly from the PDF file instead of scrolling the viewer to each page. Turn off to use the rendered viewer pages.')
+            .addToggle(t => t.setValue(this.plugin.settings.headlessBatchTranslation).onChange(async v => {
+                this.plugin.settings.headlessBatchTranslation = v; await this.plugin.saveSettings();
+            }));
+
+        new Setting(containerEl)
+            .setName('Monthly Budget (USD)')
+            .setDesc('Pause batch translations once this month\'s recorded API cost reaches this amount. 0 = no limit. See "Open usage dashboard".')
+            .addText(text => text.setPlaceholder('0').setValue(String(this.plugin.settings.monthlyBudget)).onChange(async v => {
+                const n = parseFloat(v);
+                this.plugin.settings.monthlyBudget = isNaN(n) || n < 0 ? 0 : n; await this.plugin.saveSettings();
+            }));
+
+        new Setting(containerEl)
+            .setName('Document Context')
+            .setDesc('Send the end of the previous page (original and translation) and the document summary as read-only context. Costs extra tokens per request.')
+            .addToggle(t => t.setValue(this.plugin.settings.useDocumentContext).onChange(async v => {
+                this.plugin.settings.useDocumentContext = v; await this.plugin.saveSettings();
+            }));
+
+        new Setting(containerEl)
+            .setName('Context Paragraphs')
+            .setDesc('How many paragraphs from the end of the previous page to include.')
+            .addSlider(s => s.setLimits(1, 5, 1).setValue(this.plugin.settings.contextParagraphs).setDynamicTooltip().onChange(async v => {
+                this.plugin.settings.contextParagraphs = v; await this.plugin.saveSettings();
+            }));
+
+        new Setting(containerEl)
+            .setName('PDF Export Resolution (DPI)')
+            .setDesc('"Export translated PDF" stores each page as an image at this resolution. Higher values give sharper text and larger files.')
+            .addSlider(s => s.setLimits(72, 300, 12).setValue(this.plugin.settings.pdfExportDpi).setDynamicTooltip().onChange(async v => {
+                this.plugin.settings.pdfExportDpi = v; await this.plugin.saveSettings();
+            }));
+
+        new Setting(containerEl)
+            .setName('Use Translation Memory')
+            .setDesc('Reuse earlier translations of identical segments (same languages, provider, model and prompts) instead of calling the API.')
+            .addToggle(t => t.setValue(this.plugin.settings.useTranslationMemory).onChange(async v => {
+                this.plugin.settings.useTranslationMemory = v; await this.plugin.saveSettings();
+            }));
+                
+        new Setting(containerEl)
+            .setName('Quality Checks')
+            .setDesc('After each page, flag translations that look untranslated, have an unusual length, or changed numbers or links. Flagged overlays get a ⚑ badge; see "Review flagged translations".')
+            .addToggle(t => t.setValue(this.plugin.settings.qualityChecks).onChange(async v => {
+                this.plugin.settings.qualityChecks = v; await this.plugin.saveSettings();
+            }));
+
+        new Setting(containerEl)
+            .setName('LLM Quality Judge')
+            .setDesc('With Quality Checks on, also ask the model to score each translation from 1 to 5 and flag low scores. Costs one extra request per page.')
+            .addToggle(t => t.setValue(this.plugin.settings.qualityJudge).onChange(async v => {
+                this.plugin.settings.qualityJudge = v; await this.plugin.saveSettings();
+            }));
+
+        new Setting(containerEl)
+            .setName('Comparison Models')
+            .setDesc('Two or three models for "Compare models", one "provider:model" per line (e.g. openrouter:google/gemini-flash-1.5). Each provider uses its API key and endpoint from below.')
+            .addTextArea(ta => {
+                ta.setPlaceholder('openrouter:google/gemini-flash-1.5\nollama:llama3')
+                  .setValue(this.plugin.settings.comparisonModels.map(formatModelChoice).join('\n'))
+                  .onChange(async v => {
+                      this.plugin.settings.comparisonModels = parseModelChoices(v); await this.plugin.saveSettings();
+                  });
+                ta.inputEl.rows = 3;
+            });
                 
         new Setting(containerEl)
             .setName('Auto-save Overlay')
@@ -353,7 +305,7 @@ export default class OpenRouterSettingsTab extends PluginSettingTab {
         // Prompts
         new Setting(containerEl)
             .setName('Batch Translation Prompt')
-            .setDesc('System prompt for batch translations. Placeholders: {sourceLang}, {targetLang}, {lineCount}, {inputText}')
+            .setDesc('System prompt for batch translations. Placeholders: {sourceLang}, {targetLang}, {lineCount}, {inputText}, {context}, {glossary}')
             .then(setting => {
                 setting.controlEl.style.flexDirection = 'column';
                 setting.controlEl.style.alignItems = 'flex-end';
@@ -372,9 +324,30 @@ export default class OpenRouterSettingsTab extends PluginSettingTab {
                 }).buttonEl.style.marginTop = '8px';
             });
 
+        new Setting(containerEl)
+            .setName('JSON Batch Prompt')
+            .setDesc('System prompt for batches when Structured JSON Output is on. The segments are sent as the user message. Placeholders: {sourceLang}, {targetLang}, {lineCount}, {context}, {glossary}')
+            .then(setting => {
+                setting.controlEl.style.flexDirection = 'column';
+                setting.controlEl.style.alignItems = 'flex-end';
+                
+                const textarea = new TextAreaComponent(setting.controlEl)
+                    .setValue(this.plugin.settings.jsonBatchPrompt).onChange(async v => {
+                        this.plugin.settings.jsonBatchPrompt = v; await this.plugin.saveSettings();
+                    });
+                textarea.inputEl.style.width = '100%';
+                textarea.inputEl.rows = 8;
+
+                new ButtonComponent(setting.controlEl).setButtonText('Restore Default').onClick(async () => {
+                    this.plugin.settings.jsonBatchPrompt = DEFAULT_SETTINGS.jsonBatchPrompt;
+                    await this.plugin.saveSettings();
+                    textarea.setValue(DEFAULT_SETTINGS.jsonBatchPrompt);
+                }).buttonEl.style.marginTop = '8px';
+            });
+
         new Setting(containerEl)
             .setName('Single Sentence Prompt')
-            .setDesc('System prompt for single translations. Placeholders: {sourceLang}, {targetLang}')
+            .setDesc('System prompt for single translations. Placeholders: {sourceLang}, {targetLang}, {context}, {glossary}')
             .then(setting => {
                 setting.controlEl.style.flexDirection = 'column';
                 setting.controlEl.style.alignItems = 'flex-end';
@@ -459,7 +432,7 @@ export default class OpenRouterSettingsTab extends PluginSettingTab {
             
         new Setting(containerEl)
             .setName('Manual Paragraph Refinement')
-            .setDesc('Enable Shift+click and Ctrl+M to merge translation blocks.')
+            .setDesc('Enable the "Edit overlay boxes" command and menu entry to move, resize, split and merge translation boxes by hand.')
             .addToggle(t => t.setValue(this.plugin.settings.manualRefinementMode).onChange(async v => {
                 this.plugin.settings.manualRefinementMode = v; await this.plugin.saveSettings();
             }));
@@ -471,4 +444,106 @@ export default class OpenRouterSettingsTab extends PluginSettingTab {
                 this.plugin.settings.debugMode = v; await this.plugin.saveSettings();
             }));
     }
+
+    /**
+     * Renders the fields declared by a provider. Model fields become a dropdown
+     * filled from the provider's model list when it can fetch one.
+     */
+    private renderProviderSettings(containerEl: HTMLElement, provider: TranslationProvider): void {
+        const settings = this.plugin.settings.providerSettings;
+        if (!settings[provider.id]) settings[provider.id] = { ...provider.defaults };
+        const providerSettings = settings[provider.id];
+
+        new Setting(containerEl).setName(`${provider.name} Settings`).setHeading();
+
+        for (const field of provider.fields) {
+            const setting = new Setting(containerEl).setName(field.name);
+            if (field.desc) setting.setDesc(field.desc);
+
+            const save = async (value: string) => {
+                providerSettings[field.key] = field.type === 'password' ? value.trim() : value;
+                await this.plugin.saveSettings();
+                if (field.refreshOnChange) this.display();
+            };
+
+            if (field.type === 'model' && provider.capabilities.listModels && provider.listModels) {
+                this.addModelDropdown(setting, provider, field);
+            } else if (field.type === 'textarea') {
+                setting.addTextArea(ta => {
+                    ta.setValue(providerSettings[field.key] || provider.defaults[field.key] || '')
+                      .onChange(save);
+                    ta.inputEl.rows = field.key === 'requestBody' ? 10 : 4;
+                });
+            } else {
+                setting.addText(text => {
+                    text.setPlaceholder(field.placeholder || '')
+                        .setValue(providerSettings[field.key] || '')
+                        .onChange(save);
+                    if (field.type === 'password') text.inputEl.type = 'password';
+                });
+            }
+        }
+
+        this.renderRateLimitSettings(containerEl, provider);
+    }
+
+    /**
+     * Renders the provider's request quotas. Requests from page translation, batch jobs
+     * and summaries all share these limits.
+     */
+    private renderRateLimitSettings(containerEl: HTMLElement, provider: TranslationProvider): void {
+        const rateLimits = this.plugin.settings.rateLimits;
+        if (!rateLimits[provider.id]) rateLimits[provider.id] = { ...DEFAULT_RATE_LIMITS, ...provider.rateLimits };
+        const limits = rateLimits[provider.id];
+
+        const addLimit = (key: keyof RateLimitSettings, name: string, desc: string, min: number) => {
+            new Setting(containerEl)
+                .setName(name)
+                .setDesc(desc)
+                .addText(text => text
+                    .setValue(String(limits[key]))
+                    .onChange(async value => {
+                        const n = parseInt(value, 10);
+                        if (isNaN(n) || n < min) return;
+                        limits[key] = n;
+                        await this.plugin.saveSettings();
+                    }));
+        };
+        addLimit('requestsPerMinute', 'Requests per Minute', 'Maximum requests started per minute. 0 = unlimited.', 0);
+        addLimit('tokensPerMinute', 'Tokens per Minute', 'Estimated prompt and response tokens per minute. 0 = unlimited.', 0);
+        addLimit('maxConcurrency', 'Parallel Requests', 'How many segments may be translated at the same time.', 1);
+    }
+
+    private addModelDropdown(setting: Setting, provider: TranslationProvider, field: ProviderField): void {
+        const providerSettings = this.plugin.settings.providerSettings[provider.id];
+        const fallback = providerSettings[field.key] || provider.defaults[field.key] || '';
+
+        setting.addDropdown(async dd => {
+            dd.setDisabled(true);
+            dd.addOption('', 'Loading models...');
+
+            try {
+                const models = await provider.listModels!(providerSettings);
+                dd.selectEl.empty(); // Clear "Loading..."
+                if (models.length > 0) {
+                    models.forEach(m => dd.addOption(m.id, m.name));
+                    dd.setValue(fallback || models[0].id);
+                } else {
+                    dd.addOption('', 'No models found');
+                }
+            } catch (err) {
+                console.error(`Failed to load models for ${provider.name}:`, err);
+                dd.selectEl.empty();
+                dd.addOption(fallback, `Default (${fallback})`);
+                dd.setValue(fallback);
+                new Notice(`⚠️ Could not load models from ${provider.name}. Using current setting.`);
+            }
+            dd.setDisabled(false);
+
+            dd.onChange(async v => {
+                providerSettings[field.key] = v;
+                await this.plugin.saveSettings();
+            });
+        });
+    }
 }
\ No newline at end of file
@@ -2,6 +2,8 @@
 import { TFile, TFolder, normalizePath, Notice, parseYaml, App } from 'obsidian';
 import OpenRouterTranslatorPlugin from './main';
 import { SavedOverlay, OverlayPositionData } from './types';
+import { readQaAttribute } from './quality';
+import { carryOverHistory, readRevisionAttribute, recordRevision } from './history';
 
 /**
  * VERSION HISTORY:
@@ -10,6 +12,23 @@ import { SavedOverlay, OverlayPositionData } from './types';
  * v3: Current improved format (JSON in %% comments, no table)
  */
 const STORAGE_FORMAT_VERSION = 3;
+// Frontmatter keys written by generateMarkdownForOverlay; any other keys belong to the user
+const MANAGED_FRONTMATTER_KEYS = /^(pdf-source|timestamp|format-version|version):/;
+// Overlay attribute holding the id of the saved entry the overlay shows
+export const OVERLAY_ID_ATTRIBUTE = 'data-overlay-id';
+
+/**
+ * Creates the id of a new overlay entry. It is saved with the entry and never changes.
+ */
+export function createOverlayId(): string {
+    return `ov-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+/**
+ * Computes a page's new entries from its saved ones, for updates that must not
+ * overwrite entries changed in the meantime.
+ */
+export type PageOverlayUpdater = (items: OverlayPositionData[]) => OverlayPositionData[];
 
 /**
  * Manages storage and retrieval of translation overlays in individual .translations.md files.
@@ -86,6 +105,32 @@ export class TranslationStorage {
         return normalizePath(`${cleanDir ? cleanDir + '/' : ''}${baseName}.translations.md`);
     }
 
+    /**
+     * Path of a file placed directly in the storage location (vault root when none is set).
+     */
+    getStorageFilePath(fileName: string): string {
+        const dir = (this.storageLocation || '').replace(/\/+$/, '');
+        return normalizePath(`${dir && dir !== '/' ? dir + '/' : ''}${fileName}`);
+    }
+
+    /**
+     * Writes a text file into the vault, replacing the file when it already exists.
+     */
+    async writeTextFile(path: string, content: string): Promise<void> {
+        const existing = this.app.vault.getAbstractFileByPath(path);
+        if (existing instanceof TFile) await this.app.vault.modify(existing, content);
+        else await this.app.vault.create(path, content);
+    }
+
+    /**
+     * Writes a binary file into the vault, replacing the file when it already exists.
+     */
+    async writeBinaryFile(path: string, data: ArrayBuffer): Promise<void> {
+        const existing = this.app.vault.getAbstractFileByPath(path);
+        if (existing instanceof TFile) await this.app.vault.modifyBinary(existing, data);
+        else await this.app.vault.createBinary(path, data);
+    }
+
     /**
      * Generates the markdown content for a translation file in the v3 format.
      */
@@ -94,7 +139,7 @@ export class TranslationStorage {
 pdf-source: '[[${pdfFile.path}]]'
 timestamp: ${new Date(savedOverlay.timestamp).toISOString()}
 format-version: ${STORAGE_FORMAT_VERSION}
----
+${savedOverlay.extraFrontmatter ? savedOverlay.extraFrontmatter + '\n' : ''}---
 `;
 
         let md = frontmatter + `
@@ -128,6 +173,9 @@ format-version: ${STORAGE_FORMAT_VERSION}
                     page: item.page,
                     ot: originalText, // Original Text
                 };
+                if (item.id) {
+                    metadata.id = item.id;
+                }
 
                 // Add font info if available
                 if (item.fontSize !== undefined) {
@@ -139,6 +187,18 @@ format-version: ${STORAGE_FORMAT_VERSION}
                 if (item.originalFontSizes && item.originalFontSizes.length > 0) {
                     metadata.ofs = item.originalFontSizes.map(fs => parseFloat(fs.toFixed(2))); // originalFontSizes
                 }
+                if (item.qaFlags?.length) {
+                    metadata.qa = item.qaFlags.map(flag => ({ k: flag.kind, m: flag.message })); // qaFlags
+                }
+                if (item.qaScore !== undefined) {
+                    metadata.qs = item.qaScore; // qaScore
+                }
+                if (item.revision) {
+                    metadata.rv = { s: item.revision.source, at: item.revision.timestamp, m: item.revision.model }; // revision
+                }
+                if (item.history?.length) {
+                    metadata.h = item.history.map(entry => ({ t: entry.translatedText, s: entry.source, at: entry.timestamp, m: entry.model })); // history
+                }
 
                 const metadataStr = JSON.stringify(metadata);
                 const comment = `%% ${metadataStr} %%`;
@@ -186,6 +246,7 @@ format-version: ${STORAGE_FORMAT_VERSION}
         const frontmatterMatch = content.match(/---\n([\s\S]+?)\n---/);
         let formatVersion = 1;
         let timestamp = Date.now();
+        let extraFrontmatter = '';
 
         if (frontmatterMatch) {
             try {
@@ -199,6 +260,12 @@ format-version: ${STORAGE_FORMAT_VERSION}
             } catch (err) {
                 console.warn('PDF Translator: Failed to parse frontmatter YAML', err);
             }
+            // Keep user-added keys (glossary, summary, ...) so rewriting the file doesn't drop them
+            extraFrontmatter = frontmatterMatch[1]
+                .split('\n')
+                .filter(line => !MANAGED_FRONTMATTER_KEYS.test(line))
+                .join('\n')
+                .trim();
         }
 
         const body = content.substring(frontmatterMatch?.[0].length || 0);
@@ -244,6 +311,8 @@ format-version: ${STORAGE_FORMAT_VERSION}
                         }
 
                         const overlayData: OverlayPositionData = {
+                            // Entries saved before ids existed are numbered by position; the id is written on the next save
+                            id: metadata.id || `p${currentPage}-${pageOverlays[currentPage].length + 1}`,
                             selector: '', // Selector is deprecated
                             textContent: metadata.ot || '', // Original Text from metadata
                             relativeRect: {
@@ -257,6 +326,12 @@ format-version: ${STORAGE_FORMAT_VERSION}
                             fontSize: metadata.fs,
                             fontFamily: metadata.ff,
                             originalFontSizes: metadata.ofs,
+                            qaFlags: Array.isArray(metadata.qa) ? metadata.qa.map((flag: any) => ({ kind: flag.k, message: flag.m })) : undefined,
+                            qaScore: metadata.qs,
+                            revision: metadata.rv ? { source: metadata.rv.s, timestamp: metadata.rv.at, model: metadata.rv.m } : undefined,
+                            history: Array.isArray(metadata.h)
+                                ? metadata.h.map((entry: any) => ({ translatedText: entry.t, source: entry.s, timestamp: entry.at, model: entry.m }))
+                                : undefined,
                         };
                         pageOverlays[currentPage].push(overlayData);
                     } catch (e) {
@@ -306,6 +381,7 @@ format-version: ${STORAGE_FORMAT_VERSION}
                 const translatedText = translatedCell.replace(/\\\|/g, '|').replace(/\\n/g, '\n');
                 
                 const overlayData: OverlayPositionData = {
+                    id: `p${currentPage}-${pageOverlays[currentPage].length + 1}`,
                     selector: metadata.sel || '',
                     textContent,
                     relativeRect: { left: metadata.r.l, top: metadata.r.t, width: metadata.r.w, height: metadata.r.h },
@@ -328,6 +404,7 @@ format-version: ${STORAGE_FORMAT_VERSION}
             filePath: pdfFile.path,
             timestamp,
             pageOverlays,
+            extraFrontmatter: extraFrontmatter || undefined,
         };
     }
 
@@ -611,6 +688,7 @@ format-version: ${STORAGE_FORMAT_VERSION}
             const fontFamily = overlay.getAttribute('data-font-family') || overlay.style.fontFamily || undefined;
 
             const overlayData: OverlayPositionData = {
+                id: overlay.getAttribute(OVERLAY_ID_ATTRIBUTE) || undefined,
                 selector: '',
                 textContent: originalText,
                 relativeRect,
@@ -620,6 +698,8 @@ format-version: ${STORAGE_FORMAT_VERSION}
                 fontSize: avgRelative,
                 fontFamily,
                 originalFontSizes: relativeFontSizes,
+                ...readQaAttribute(overlay),
+                ...readRevisionAttribute(overlay),
             };
 
             positionData.push(overlayData);
@@ -675,9 +755,11 @@ format-version: ${STORAGE_FORMAT_VERSION}
     /**
      * Updates one or more pages in a SavedOverlay and writes to disk.
      * This function is now corrected to prevent race conditions.
-     * pages is a map pageNumber -> array of OverlayPositionData.
+     * pages is a map pageNumber -> array of OverlayPositionData, or a function
+     * that computes the page's new entries from the saved ones.
+     * Entries given as an array keep the id and history of the saved entry they replace.
      */
-    async updatePageOverlaysAndWrite(pdfFile: TFile, pages: Record<number, OverlayPositionData[]>): Promise<void> {
+    async updatePageOverlaysAndWrite(pdfFile: TFile, pages: Record<number, OverlayPositionData[] | PageOverlayUpdater>): Promise<void> {
         const lockKey = pdfFile.path;
 
         // The core logic of reading, updating, and writing the file.
@@ -714,8 +796,10 @@ format-version: ${STORAGE_FORMAT_VERSION}
             }
 
             // Merge the new page data into the overlay
-            for (const [pageStr, items] of Object.entries(pages)) {
+            for (const [pageStr, update] of Object.entries(pages)) {
                 const p = Number(pageStr);
+                const previous = savedOverlay.pageOverlays[p] || [];
+                const items = typeof update === 'function' ? update(previous) : carryOverHistory(previous, update);
                 if (items.length > 0) {
                     savedOverlay.pageOverlays[p] = items;
                 } else {
@@ -740,7 +824,47 @@ format-version: ${STORAGE_FORMAT_VERSION}
             // --- END OF CORRECTED LOGIC ---
         };
 
-        // Promise-based locking mechanism to serialize write operations for the same file
+        await this.withWriteLock(lockKey, writer);
+    }
+
+    /**
+     * Changes one saved overlay entry, found by its id, and leaves the rest of the file as it is.
+     * Returns false when the PDF has no saved entry with that id.
+     */
+    async updateOverlayItem(pdfFile: TFile, pageNumber: number, id: string, changes: Partial<OverlayPositionData>): Promise<boolean> {
+        const saved = await this.readSavedOverlayForFile(pdfFile);
+        if (!saved?.overlay.pageOverlays[pageNumber]?.some(item => item.id === id)) return false;
+
+        let found = false;
+        await this.updatePageOverlaysAndWrite(pdfFile, {
+            [pageNumber]: items => items.map(item => {
+                if (item.id !== id) return item;
+                found = true;
+                return recordRevision(item, { ...item, ...changes });
+            }),
+        });
+        return found;
+    }
+
+    /**
+     * Updates the frontmatter of a PDF's translation file, serialized with the overlay
+     * writes so neither overwrites the other. Returns false when there is no translation file yet.
+     */
+    async updateFrontmatter(pdfFile: TFile, update: (frontmatter: any) => void): Promise<boolean> {
+        let updated = false;
+        await this.withWriteLock(pdfFile.path, async () => {
+            const mdFile = this.app.vault.getAbstractFileByPath(this.getTranslationFilePath(pdfFile));
+            if (!(mdFile instanceof TFile)) return;
+            await this.app.fileManager.processFrontMatter(mdFile, update);
+            updated = true;
+        });
+        return updated;
+    }
+
+    /**
+     * Promise-based locking mechanism to serialize write operations for the same file.
+     */
+    private async withWriteLock(lockKey: string, writer: () => Promise<void>): Promise<void> {
         const pendingPromise = this.writingPromises.get(lockKey) || Promise.resolve();
         const newPromise = pendingPromise.then(() => writer()).finally(() => {
             // IMPORTANT: Clean up the map once the operation is done.
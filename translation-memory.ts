@@ -0,0 +1,298 @@
+// translation-memory.ts
+import { App, FuzzySuggestModal, Notice, TFile, debounce, normalizePath } from 'obsidian';
+import type OpenRouterTranslatorPlugin from './main';
+
+// Constants
+const MEMORY_FILE_NAME = 'translation-memory.json';
+const MEMORY_FORMAT_VERSION = 1;
+const MAX_ENTRIES = 20000; // Least recently used entries are dropped beyond this
+const SAVE_DEBOUNCE = 2000;
+
+/**
+ * One remembered translation. The source text and the context fields are kept
+ * alongside the hashed key so exports stay readable and can be re-keyed on import.
+ */
+export interface TranslationMemoryEntry {
+    source: string;
+    translation: string;
+    sourceLang: string;
+    targetLang: string;
+    provider: string;
+    model: string;
+    promptHash: string;
+    hits: number;
+    lastUsed: number;
+}
+
+interface TranslationMemoryFile {
+    version: number;
+    stats: { hits: number; misses: number };
+    entries: TranslationMemoryEntry[];
+}
+
+export interface TranslationMemoryStats {
+    entries: number;
+    sessionHits: number;
+    sessionMisses: number;
+    totalHits: number;
+    totalMisses: number;
+}
+
+/**
+ * Fast 53-bit string hash (cyrb53). Not cryptographic; used for cache keys only.
+ */
+export function hashString(str: string, seed = 0): string {
+    let h1 = 0xdeadbeef ^ seed, h2 = 0x41c6ce57 ^ seed;
+    for (let i = 0; i < str.length; i++) {
+        const ch = str.charCodeAt(i);
+        h1 = Math.imul(h1 ^ ch, 2654435761);
+        h2 = Math.imul(h2 ^ ch, 1597334677);
+    }
+    h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507) ^ Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+    h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507) ^ Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+    return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
+
+/**
+ * Persistent cache of translated segments, stored as JSON in the plugin folder.
+ * Entries are keyed by the normalized source text plus everything that changes
+ * the output: language pair, provider, model and the prompt templates.
+ */
+export class TranslationMemory {
+    private plugin: OpenRouterTranslatorPlugin;
+    private entries: Map<string, TranslationMemoryEntry> = new Map();
+    private totalHits = 0;
+    private totalMisses = 0;
+    private sessionHits = 0;
+    private sessionMisses = 0;
+    private loaded = false;
+    private requestSave: () => void;
+
+    constructor(plugin: OpenRouterTranslatorPlugin) {
+        this.plugin = plugin;
+        this.requestSave = debounce(() => { this.save(); }, SAVE_DEBOUNCE, true);
+    }
+
+    // === Persistence ===
+
+    private getFilePath(): string {
+        return normalizePath(`${this.plugin.manifest.dir}/${MEMORY_FILE_NAME}`);
+    }
+
+    async load(): Promise<void> {
+        const adapter = this.plugin.app.vault.adapter;
+        const path = this.getFilePath();
+        try {
+            if (await adapter.exists(path)) {
+                const data = JSON.parse(await adapter.read(path)) as TranslationMemoryFile;
+                this.entries.clear();
+                this.mergeEntries(data.entries || []);
+                this.totalHits = data.stats?.hits || 0;
+                this.totalMisses = data.stats?.misses || 0;
+            }
+        } catch (error) {
+            console.error('Failed to load translation memory:', error);
+        }
+        this.loaded = true;
+        this.plugin.logDebug(`Translation memory loaded: ${this.entries.size} entries.`);
+    }
+
+    async save(): Promise<void> {
+        if (!this.loaded) return;
+        this.evictIfNeeded();
+        try {
+            await this.plugin.app.vault.adapter.write(this.getFilePath(), JSON.stringify(this.toFileData()));
+        } catch (error) {
+            console.error('Failed to save translation memory:', error);
+        }
+    }
+
+    private toFileData(): TranslationMemoryFile {
+        return {
+            version: MEMORY_FORMAT_VERSION,
+            stats: { hits: this.totalHits, misses: this.totalMisses },
+            entries: Array.from(this.entries.values()),
+        };
+    }
+
+    private evictIfNeeded(): void {
+        if (this.entries.size <= MAX_ENTRIES) return;
+        const sorted = Array.from(this.entries.entries()).sort((a, b) => a[1].lastUsed - b[1].lastUsed);
+        for (const [key] of sorted.slice(0, this.entries.size - MAX_ENTRIES)) {
+            this.entries.delete(key);
+        }
+    }
+
+    // === Keys ===
+
+    /**
+     * Collapses whitespace so that the same paragraph extracted with slightly
+     * different line breaks or spacing maps to the same entry.
+     */
+    private normalizeText(text: string): string {
+        return text.normalize('NFC').replace(/\s*<br>\s*/g, ' ').replace(/\s+/g, ' ').trim();
+    }
+
+    private getContext(glossarySignature: string): Omit<TranslationMemoryEntry, 'source' | 'translation' | 'hits' | 'lastUsed'> {
+        const { provider, providerSettings } = this.plugin.translation.getActiveProvider();
+        const { sourceLanguage, targetLanguage, structuredBatchOutput, jsonBatchPrompt, singlePrompt } = this.plugin.settings;
+        const batchPrompt = structuredBatchOutput ? jsonBatchPrompt : this.plugin.settings.batchPrompt;
+        return {
+            sourceLang: sourceLanguage,
+            targetLang: targetLanguage,
+            provider: provider.id,
+            model: providerSettings.model || '',
+            // The glossary changes the output too, so it is part of the prompt hash
+            promptHash: hashString(`${batchPrompt}\u0000${singlePrompt}\u0000${glossarySignature}`),
+        };
+    }
+
+    private makeKey(entry: Omit<TranslationMemoryEntry, 'translation' | 'hits' | 'lastUsed'>): string {
+        return hashString([entry.sourceLang, entry.targetLang, entry.provider, entry.model, entry.promptHash, entry.source].join('\u0000'));
+    }
+
+    // === Lookup and Store ===
+
+    /**
+     * Returns the remembered translation for a segment in the current context, or undefined.
+     * `glossarySignature` identifies the glossary the translation is made with.
+     */
+    lookup(text: string, glossarySignature: string): string | undefined {
+        if (!this.plugin.settings.useTranslationMemory || !this.loaded) return undefined;
+        const source = this.normalizeText(text);
+        if (!source) return undefined;
+
+        const entry = this.entries.get(this.makeKey({ ...this.getContext(glossarySignature), source }));
+        if (entry) {
+            entry.hits++;
+            entry.lastUsed = Date.now();
+            this.sessionHits++;
+            this.totalHits++;
+        } else {
+            this.sessionMisses++;
+            this.totalMisses++;
+        }
+        this.requestSave();
+        return entry?.translation;
+    }
+
+    /**
+     * Remembers a translation for a segment in the current context.
+     */
+    store(text: string, translation: string, glossarySignature: string): void {
+        if (!this.plugin.settings.useTranslationMemory || !this.loaded) return;
+        const source = this.normalizeText(text);
+        if (!source || !translation.trim()) return;
+
+        const entry: TranslationMemoryEntry = {
+            ...this.getContext(glossarySignature),
+            source,
+            translation,
+            hits: 0,
+            lastUsed: Date.now(),
+        };
+        this.entries.set(this.makeKey(entry), entry);
+        this.requestSave();
+    }
+
+    // === Maintenance ===
+
+    getStats(): TranslationMemoryStats {
+        return {
+            entries: this.entries.size,
+            sessionHits: this.sessionHits,
+            sessionMisses: this.sessionMisses,
+            totalHits: this.totalHits,
+            totalMisses: this.totalMisses,
+        };
+    }
+
+    showStats(): void {
+        const stats = this.getStats();
+        const rate = (hits: number, misses: number) => hits + misses > 0 ? `${Math.round(100 * hits / (hits + misses))}%` : 'n/a';
+        new Notice(
+            `Translation memory: ${stats.entries} entries\n` +
+            `This session: ${stats.sessionHits} hits / ${stats.sessionMisses} misses (${rate(stats.sessionHits, stats.sessionMisses)})\n` +
+            `All time: ${stats.totalHits} hits / ${stats.totalMisses} misses (${rate(stats.totalHits, stats.totalMisses)})`,
+            8000
+        );
+    }
+
+    async clear(): Promise<void> {
+        this.entries.clear();
+        this.totalHits = this.totalMisses = this.sessionHits = this.sessionMisses = 0;
+        await this.save();
+        new Notice('Translation memory cleared.');
+    }
+
+    /**
+     * Writes the whole memory as JSON into the vault (next to the translation files).
+     */
+    async exportToVault(): Promise<void> {
+        const stamp = new Date().toISOString().slice(0, 10);
+        const path = this.plugin.storage.getStorageFilePath(`translation-memory-${stamp}.json`);
+        const content = JSON.stringify(this.toFileData(), null, 2);
+        try {
+            await this.plugin.storage.ensureStorageFolder();
+            await this.plugin.storage.writeTextFile(path, content);
+            new Notice(`✅ Exported ${this.entries.size} entries to ${path}`);
+        } catch (error: any) {
+            console.error('Translation memory export failed:', error);
+            new Notice(`⚠️ Export failed: ${error.message}`);
+        }
+    }
+
+    /**
+     * Merges entries from an exported JSON file. Entries are re-keyed, so files
+     * from other installs or older versions merge cleanly.
+     */
+    async importFromFile(file: TFile): Promise<void> {
+        try {
+            const data = JSON.parse(await this.plugin.app.vault.read(file)) as TranslationMemoryFile;
+            if (!Array.isArray(data?.entries)) throw new Error('No entries found in file.');
+            const before = this.entries.size;
+            this.mergeEntries(data.entries);
+            await this.save();
+            new Notice(`✅ Imported ${this.entries.size - before} new entries from ${file.name}`);
+        } catch (error: any) {
+            console.error('Translation memory import failed:', error);
+            new Notice(`⚠️ Import failed: ${error.message}`);
+        }
+    }
+
+    private mergeEntries(entries: TranslationMemoryEntry[]): void {
+        for (const entry of entries) {
+            if (!entry?.source || typeof entry.translation !== 'string') continue;
+            const key = this.makeKey(entry);
+            const existing = this.entries.get(key);
+            if (!existing || (entry.lastUsed || 0) > existing.lastUsed) {
+                this.entries.set(key, { ...entry, hits: entry.hits || 0, lastUsed: entry.lastUsed || 0 });
+            }
+        }
+    }
+}
+
+/**
+ * Lets the user pick a JSON file from the vault to import into the translation memory.
+ */
+export class TranslationMemoryImportModal extends FuzzySuggestModal<TFile> {
+    private plugin: OpenRouterTranslatorPlugin;
+
+    constructor(app: App, plugin: OpenRouterTranslatorPlugin) {
+        super(app);
+        this.plugin = plugin;
+        this.setPlaceholder('Select an exported translation memory (.json)...');
+    }
+
+    getItems(): TFile[] {
+        return this.app.vault.getFiles().filter(file => file.extension === 'json');
+    }
+
+    getItemText(file: TFile): string {
+        return file.path;
+    }
+
+    onChooseItem(file: TFile): void {
+        this.plugin.translationMemory.importFromFile(file);
+    }
+}
\ No newline at end of file
@@ -0,0 +1,226 @@
+// translation-pane.ts
+import { ItemView, TFile, WorkspaceLeaf, debounce, sanitizeHTMLToDom } from 'obsidian';
+import type OpenRouterTranslatorPlugin from './main';
+import type { OverlayPositionData } from './types';
+
+// Constants
+export const TRANSLATION_PANE_VIEW_TYPE = 'pdf-translator-pane';
+const SCROLL_DEBOUNCE = 150;
+const SYNC_SUPPRESS_MS = 400; // Scroll events caused by syncing the other side are ignored this long
+const REFRESH_DEBOUNCE = 1000;
+const HIGHLIGHT_CLASS = 'pdf-translation-pane-highlight';
+
+/**
+ * Shows the saved translation of the PDF open in the last active PDF leaf as one reflowed
+ * document. Scrolling either side brings the other to the same page, and hovering a
+ * paragraph highlights its box on the PDF page.
+ */
+export class TranslationPaneView extends ItemView {
+    private plugin: OpenRouterTranslatorPlugin;
+    private pdfLeaf: WorkspaceLeaf | null = null;
+    private pdfScrollHandler: (() => void) | null = null;
+    private renderedPath: string | null = null;
+    private pageSections = new Map<number, HTMLElement>();
+    private ignoreScrollUntil = 0;
+    private highlight: HTMLElement | null = null;
+
+    constructor(leaf: WorkspaceLeaf, plugin: OpenRouterTranslatorPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return TRANSLATION_PANE_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return 'Translation';
+    }
+
+    getIcon(): string {
+        return 'languages';
+    }
+
+    async onOpen() {
+        this.registerEvent(this.app.workspace.on('active-leaf-change', leaf => {
+            if (leaf?.view.getViewType() === 'pdf') void this.attach(leaf);
+        }));
+        this.registerEvent(this.app.workspace.on('file-open', file => {
+            if (file?.extension === 'pdf') void this.attach(this.findPdfLeaf());
+        }));
+        const refresh = debounce(() => void this.render(), REFRESH_DEBOUNCE, true);
+        this.registerEvent(this.app.vault.on('modify', file => {
+            const pdfFile = this.getPdfFile();
+            if (pdfFile && file.path === this.plugin.pdfToMdMap.get(pdfFile.path)) refresh();
+        }));
+        this.registerDomEvent(this.contentEl, 'scroll', debounce(() => this.onPaneScroll(), SCROLL_DEBOUNCE));
+        await this.attach(this.findPdfLeaf());
+    }
+
+    async onClose() {
+        this.detachPdf();
+        this.pdfLeaf = null;
+    }
+
+    private findPdfLeaf(): WorkspaceLeaf | null {
+        return this.plugin.overlay.getActivePDFLeaf() ?? this.app.workspace.getLeavesOfType('pdf')[0] ?? null;
+    }
+
+    private getPdfFile(): TFile | null {
+        return (this.pdfLeaf?.view as any)?.file ?? null;
+    }
+
+    /**
+     * Follows a PDF leaf: listens to its scrolling and shows its translation.
+     */
+    private async attach(leaf: WorkspaceLeaf | null): Promise<void> {
+        if (leaf === this.pdfLeaf && this.renderedPath === (this.getPdfFile()?.path ?? null)) return;
+        this.detachPdf();
+        this.pdfLeaf = leaf;
+        if (leaf) {
+            // Scroll events don't bubble; capture them from whichever element scrolls the viewer
+            const handler = debounce(() => this.onPdfScroll(), SCROLL_DEBOUNCE);
+            leaf.view.containerEl.addEventListener('scroll', handler, true);
+            this.pdfScrollHandler = handler;
+        }
+        await this.render();
+    }
+
+    private detachPdf(): void {
+        if (this.pdfLeaf && this.pdfScrollHandler) {
+            this.pdfLeaf.view.containerEl.removeEventListener('scroll', this.pdfScrollHandler, true);
+        }
+        this.pdfScrollHandler = null;
+        this.clearHighlight();
+    }
+
+    private async render(): Promise<void> {
+        const el = this.contentEl;
+        const pdfFile = this.getPdfFile();
+        if (!pdfFile) {
+            this.renderedPath = null;
+            this.pageSections.clear();
+            el.empty();
+            el.createEl('p', { text: 'Open a PDF to see its translation here.' });
+            return;
+        }
+
+        const saved = await this.plugin.storage.readSavedOverlayForFile(pdfFile);
+        if (this.getPdfFile() !== pdfFile) return; // Another PDF was opened in the meantime
+        const sameFile = this.renderedPath === pdfFile.path;
+        const scrollTop = el.scrollTop;
+        this.renderedPath = pdfFile.path;
+        this.pageSections.clear();
+        el.empty();
+        el.createEl('h3', { text: pdfFile.basename });
+
+        const pageOverlays = saved?.overlay.pageOverlays ?? {};
+        const pageNumbers = Object.keys(pageOverlays).map(Number).sort((a, b) => a - b);
+        if (pageNumbers.length === 0) {
+            el.createEl('p', { text: 'No saved translations for this PDF yet.' });
+            return;
+        }
+
+        for (const pageNumber of pageNumbers) {
+            const section = el.createDiv({ cls: 'pdf-translation-pane-page' });
+            const heading = section.createEl('h4', { text: `Page ${pageNumber}` });
+            heading.style.cursor = 'pointer';
+            heading.addEventListener('click', () => this.scrollPdfToPage(pageNumber));
+            for (const item of pageOverlays[pageNumber]) {
+                const paragraph = section.createDiv({ cls: 'pdf-translation-pane-paragraph' });
+                paragraph.style.marginBottom = '0.8em';
+                paragraph.title = item.textContent;
+                paragraph.appendChild(sanitizeHTMLToDom(item.translatedText));
+                paragraph.addEventListener('mouseenter', () => this.showHighlight(item));
+                paragraph.addEventListener('mouseleave', () => this.clearHighlight());
+                paragraph.addEventListener('click', () => this.scrollPdfToPage(pageNumber));
+            }
+            this.pageSections.set(pageNumber, section);
+        }
+
+        if (sameFile) el.scrollTop = scrollTop;
+        else this.onPdfScroll();
+    }
+
+    // === Scroll Sync ===
+
+    private getPdfPageElement(pageNumber: number): HTMLElement | null {
+        return this.pdfLeaf?.view.containerEl.querySelector<HTMLElement>(`.page[data-page-number="${pageNumber}"]`) ?? null;
+    }
+
+    private getPdfPageNumber(): number | null {
+        const pages = this.pdfLeaf?.view.containerEl.querySelectorAll<HTMLElement>('.page[data-page-number]');
+        if (!pages?.length) return null;
+        const page = this.plugin.overlay.getCurrentVisiblePage(pages);
+        return page ? parseInt(page.dataset.pageNumber || '0', 10) || null : null;
+    }
+
+    /**
+     * The page whose section is at the top of the pane.
+     */
+    private getPanePageNumber(): number | null {
+        const top = this.contentEl.getBoundingClientRect().top;
+        for (const [pageNumber, section] of this.pageSections) {
+            if (section.getBoundingClientRect().bottom > top + 1) return pageNumber;
+        }
+        return null;
+    }
+
+    private onPdfScroll(): void {
+        if (Date.now() < this.ignoreScrollUntil) return;
+        const pageNumber = this.getPdfPageNumber();
+        const section = pageNumber !== null ? this.pageSections.get(pageNumber) : undefined;
+        if (!section || this.getPanePageNumber() === pageNumber) return;
+
+        this.ignoreScrollUntil = Date.now() + SYNC_SUPPRESS_MS;
+        const el = this.contentEl;
+        el.scrollTop += section.getBoundingClientRect().top - el.getBoundingClientRect().top;
+    }
+
+    private onPaneScroll(): void {
+        if (Date.now() < this.ignoreScrollUntil) return;
+        const pageNumber = this.getPanePageNumber();
+        if (pageNumber === null || pageNumber === this.getPdfPageNumber()) return;
+        this.scrollPdfToPage(pageNumber);
+    }
+
+    private scrollPdfToPage(pageNumber: number): void {
+        const pageEl = this.getPdfPageElement(pageNumber);
+        if (!pageEl) return;
+        this.ignoreScrollUntil = Date.now() + SYNC_SUPPRESS_MS;
+        pageEl.scrollIntoView({ block: 'start' });
+    }
+
+    // === Highlight ===
+
+    /**
+     * Outlines an item's box on its PDF page, placed like its overlay.
+     */
+    private showHighlight(item: OverlayPositionData): void {
+        this.clearHighlight();
+        const pageEl = this.getPdfPageElement(item.page);
+        const textLayer = pageEl?.querySelector<HTMLElement>('.textLayer');
+        if (!pageEl || !textLayer) return;
+
+        const layerRect = textLayer.getBoundingClientRect();
+        const { left, top, width, height } = item.relativeRect;
+        const highlight = pageEl.createDiv({ cls: HIGHLIGHT_CLASS });
+        Object.assign(highlight.style, {
+            position: 'absolute',
+            left: `${left * layerRect.width}px`,
+            top: `${top * layerRect.height}px`,
+            width: `${width * layerRect.width}px`,
+            height: `${height * layerRect.height}px`,
+            background: 'var(--text-highlight-bg)',
+            outline: '2px solid var(--interactive-accent)',
+            pointerEvents: 'none',
+            zIndex: '102',
+        });
+        this.highlight = highlight;
+    }
+
+    private clearHighlight(): void {
+        this.highlight?.remove();
+        this.highlight = null;
+    }
+}
\ No newline at end of file
@@ -1,11 +1,111 @@
 // translation.ts
-import { requestUrl, Notice, RequestUrlParam } from 'obsidian';
+import { requestUrl, Notice, RequestUrlResponse } from 'obsidian';
 import OpenRouterTranslatorPlugin from './main';
-import { AVAILABLE_LANGUAGES } from './types';
+import { AVAILABLE_LANGUAGES, ModelChoice, ProviderSettings } from './types';
+import { DEFAULT_RATE_LIMITS, ProviderRegistry, TokenUsage, TranslationProvider } from './providers';
+import { RateLimiter, parseRetryAfter } from './rate-limiter';
+import { estimateTokens } from './document-context';
+
+/**
+ * Receives the full text accumulated so far while a response is streaming.
+ */
+export type PartialTextCallback = (textSoFar: string) => void;
+
+/**
+ * Optional per-request inputs for the high-level translation methods.
+ */
+export interface TranslationRequestOptions {
+    /** Called with the accumulated text while the response streams. */
+    onPartial?: PartialTextCallback;
+    /** Glossary instructions for the {glossary} placeholder (empty when no term applies). */
+    glossary?: string;
+    /** Read-only document context for the {context} placeholder. */
+    context?: string;
+    /** PDF the request translates; its token usage is added to that PDF's totals. */
+    pdfPath?: string;
+    /** Provider and model to use instead of the active ones. */
+    model?: ModelChoice;
+}
+
+/**
+ * Optional inputs for makeApiCall.
+ */
+export interface ApiCallOptions {
+    /** Called with the accumulated text while the response streams. */
+    onPartial?: PartialTextCallback;
+    /** Usage of the request is attributed to this PDF. */
+    pdfPath?: string;
+    /** JSON schema the answer must match, for providers with structured output. */
+    responseSchema?: object;
+    /** Provider and model to use instead of the active ones. */
+    model?: ModelChoice;
+}
+
+/**
+ * One segment of a JSON batch. Ids are 1-based positions within the batch.
+ */
+export interface JsonSegment {
+    id: number;
+    text: string;
+}
+
+/**
+ * Shape of a JSON batch answer, sent to providers that can enforce a schema.
+ */
+export const JSON_BATCH_SCHEMA = {
+    type: 'object',
+    properties: {
+        translations: {
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    id: { type: 'integer' },
+                    translation: { type: 'string' },
+                },
+                required: ['id', 'translation'],
+                additionalProperties: false,
+            },
+        },
+    },
+    required: ['translations'],
+    additionalProperties: false,
+};
+
+/**
+ * Status and body of a finished request. `streamedText` is set when the body
+ * was read as a stream and already assembled from its deltas.
+ */
+interface ApiResponse {
+    status: number;
+    json: any;
+    text: string;
+    streamedText?: string;
+    /** Delay requested by the server's Retry-After header. */
+    retryAfterMs?: number | null;
+    usage?: TokenUsage;
+}
+
+/**
+ * Combines usage pieces from stream events; later values win.
+ */
+function mergeUsage(base: TokenUsage | undefined, update: TokenUsage): TokenUsage {
+    const result = { ...base };
+    if (update.promptTokens !== undefined) result.promptTokens = update.promptTokens;
+    if (update.completionTokens !== undefined) result.completionTokens = update.completionTokens;
+    if (update.cost !== undefined) result.cost = update.cost;
+    return result;
+}
 
 export class TranslationEngine {
     private plugin: OpenRouterTranslatorPlugin;
     private warnedAboutQwen = false;
+    // Providers whose endpoint refused a streaming fetch (e.g. CORS); they use plain requests afterwards
+    private streamingUnavailable = new Set<string>();
+    // Providers whose endpoint rejected a response schema; JSON batches rely on the prompt there
+    private structuredOutputUnavailable = new Set<string>();
+    // One limiter per provider, shared by every request the plugin makes
+    private rateLimiters = new Map<string, RateLimiter>();
 
     constructor(plugin: OpenRouterTranslatorPlugin) {
         this.plugin = plugin;
@@ -26,195 +126,157 @@ export class TranslationEngine {
 
     /**
      * Translates a batch of text using the currently configured provider.
+     * When `options.onPartial` is given and streaming is enabled, it is called as tokens arrive.
      */
-    async translateBatch(originalText: string, expectedLineCount: number): Promise<string> {
+    async translateBatch(originalText: string, expectedLineCount: number, options: TranslationRequestOptions = {}): Promise<string> {
         const systemPromptTemplate = this.plugin.settings.batchPrompt;
         
         // Prepare the system prompt by filling in all placeholders except the main text
-        const systemPrompt = systemPromptTemplate
+        const systemPrompt = this.fillOptionalPlaceholders(systemPromptTemplate, options)
             .replace(/{sourceLang}/g, this.getSourceLangName())
             .replace(/{targetLang}/g, this.getTargetLangName())
             .replace(/{lineCount}/g, expectedLineCount.toString())
             .replace(/{inputText}/g, ''); // The actual text is sent as the user prompt
 
-        return await this.makeApiCall(systemPrompt, originalText);
+        return await this.makeApiCall(systemPrompt, originalText, options);
+    }
+
+    /**
+     * Translates a batch with the JSON protocol: the segments are sent as a JSON object and the
+     * answer is `{ "translations": [{ "id", "translation" }] }`, enforced with a schema where the
+     * provider supports it. Returns the raw answer; the caller validates it per id.
+     */
+    async translateBatchJson(segments: JsonSegment[], options: TranslationRequestOptions = {}): Promise<string> {
+        const systemPrompt = this.fillOptionalPlaceholders(this.plugin.settings.jsonBatchPrompt, options)
+            .replace(/{sourceLang}/g, this.getSourceLangName())
+            .replace(/{targetLang}/g, this.getTargetLangName())
+            .replace(/{lineCount}/g, segments.length.toString());
+
+        return await this.makeApiCall(systemPrompt, JSON.stringify({ segments }), { ...options, responseSchema: JSON_BATCH_SCHEMA });
     }
 
     /**
      * Translates a single piece of text. Maintained for compatibility.
      */
-    async translateWithOpenRouter(text: string): Promise<string> {
+    async translateWithOpenRouter(text: string, options: TranslationRequestOptions = {}): Promise<string> {
         const systemPromptTemplate = this.plugin.settings.singlePrompt;
         
         // Prepare the system prompt
-        const systemPrompt = systemPromptTemplate
+        const systemPrompt = this.fillOptionalPlaceholders(systemPromptTemplate, options)
             .replace(/{sourceLang}/g, this.getSourceLangName())
             .replace(/{targetLang}/g, this.getTargetLangName())
             .replace(/{inputText}/g, ''); // The actual text is sent as the user prompt
 
-        return await this.makeApiCall(systemPrompt, text.slice(0, 3000));
+        return await this.makeApiCall(systemPrompt, text.slice(0, 3000), options);
     }
 
-    // === Low-Level API Communication ===
-
     /**
-     * Safely retrieves a nested property from an object using a string path (e.g., 'choices[0].message.content').
+     * Fills the {context} and {glossary} placeholders. Prompts saved before a placeholder
+     * existed get its value appended, so the feature works without editing the prompt.
      */
-    private getPropertyByPath(obj: any, path: string): string | undefined {
-        const keys = path.replace(/\[(\w+)\]/g, '.$1').replace(/^\./, '').split('.');
-        let result = obj;
-        for (const key of keys) {
-            if (result === null || result === undefined) {
-                return undefined;
-            }
-            result = result[key];
-        }
-        return result;
+    private fillOptionalPlaceholders(template: string, options: TranslationRequestOptions): string {
+        const fill = (text: string, placeholder: string, value = '') => {
+            if (text.includes(placeholder)) return text.split(placeholder).join(value);
+            return value ? `${text}\n\n${value}` : text;
+        };
+        return fill(fill(template, '{context}', options.context), '{glossary}', options.glossary);
     }
-    
+
+    // === Low-Level API Communication ===
+
     /**
-     * Escapes characters in a string for safe inclusion in a JSON request body.
+     * "provider:model" of the active model, or of `choice`, as recorded with the translations it makes.
      */
-    private escapeJsonString(str: string): string {
-        return str.replace(/\\/g, '\\\\')
-                  .replace(/"/g, '\\"')
-                  .replace(/\n/g, '\\n')
-                  .replace(/\r/g, '\\r')
-                  .replace(/\t/g, '\\t');
+    getModelLabel(choice?: ModelChoice): string {
+        const { provider, providerSettings } = this.getActiveProvider(choice);
+        return providerSettings.model ? `${provider.id}:${providerSettings.model}` : provider.id;
     }
 
     /**
-     * Constructs the request URL, headers, and body based on the selected provider.
+     * Resolves the active provider and its settings, filling in defaults for
+     * providers registered after the settings were last saved. With `choice`, resolves
+     * that provider instead, with its saved settings (API key, endpoint) and the chosen model.
      */
-    private getRequestConfig(systemPrompt: string, userPrompt: string): { url: string; options: RequestUrlParam } {
-        const providerId = this.plugin.settings.apiProvider;
-        const provider = this.plugin.settings.providerSettings[providerId];
-        
-        let url: string;
-        let body: any;
-        let headers: Record<string, string> = { 'Content-Type': 'application/json' };
-
-        switch (providerId) {
-            case 'openrouter':
-                if (!provider.apiKey) throw new Error('OpenRouter API key is missing.');
-                url = 'https://openrouter.ai/api/v1/chat/completions';
-                headers['Authorization'] = `Bearer ${provider.apiKey}`;
-                headers['HTTP-Referer'] = 'obsidian://pdf-translator';
-                headers['X-Title'] = 'PDF Translator Plugin';
-                body = {
-                    model: provider.model,
-                    messages: [
-                        { role: 'system', content: systemPrompt },
-                        { role: 'user', content: userPrompt }
-                    ],
-                    max_tokens: 4096,
-                    temperature: 0.1,
-                };
-                break;
-            
-            case 'ollama':
-                if (!provider.apiEndpoint || !provider.model) throw new Error('Ollama endpoint or model is missing.');
-                const endpoint = provider.apiEndpoint.endsWith('/') ? provider.apiEndpoint.slice(0, -1) : provider.apiEndpoint;
-                url = `${endpoint}/api/chat`;
-                body = {
-                    model: provider.model,
-                    stream: false,
-                    messages: [
-                        { role: 'system', content: systemPrompt },
-                        { role: 'user', content: userPrompt }
-                    ]
-                };
-                break;
-
-            case 'custom':
-                if (!provider.apiEndpoint) throw new Error('Custom API endpoint is missing.');
-                url = provider.apiEndpoint;
-                
-                if (provider.headers) {
-                    const populatedHeaders = provider.headers.replace(/{apiKey}/g, provider.apiKey || '');
-                    try {
-                        headers = { ...headers, ...JSON.parse(populatedHeaders) };
-                    } catch (e) {
-                        throw new Error('Failed to parse custom headers JSON.');
-                    }
-                }
-
-                if (provider.requestBody) {
-                    const populatedBody = provider.requestBody
-                        .replace(/{model}/g, provider.model || '')
-                        .replace(/{systemPrompt}/g, this.escapeJsonString(systemPrompt))
-                        .replace(/{userPrompt}/g, this.escapeJsonString(userPrompt));
-                    try {
-                        body = JSON.parse(populatedBody);
-                    } catch (e) {
-                        throw new Error('Failed to parse custom request body JSON.');
-                    }
-                } else {
-                     throw new Error('Custom request body setting is missing.');
-                }
-                break;
+    getActiveProvider(choice?: ModelChoice): { provider: TranslationProvider; providerSettings: ProviderSettings } {
+        const providerId = choice?.provider ?? this.plugin.settings.apiProvider;
+        const provider = ProviderRegistry.get(providerId);
+        if (!provider) throw new Error(`Unsupported API provider: ${providerId}`);
 
-            default:
-                throw new Error(`Unsupported API provider: ${providerId}`);
+        if (!this.plugin.settings.providerSettings[providerId]) {
+            this.plugin.settings.providerSettings[providerId] = { ...provider.defaults };
         }
+        const providerSettings = this.plugin.settings.providerSettings[providerId];
+        return { provider, providerSettings: choice ? { ...providerSettings, model: choice.model } : providerSettings };
+    }
 
-        return {
-            url,
-            options: {
-                method: 'POST',
-                headers,
-                body: JSON.stringify(body),
-                throw: false,
-            }
-        };
+    /**
+     * Returns the provider's rate limiter, updated to the current quota settings.
+     */
+    getRateLimiter(providerId: string): RateLimiter {
+        const limits = this.plugin.settings.rateLimits[providerId] ?? DEFAULT_RATE_LIMITS;
+        let limiter = this.rateLimiters.get(providerId);
+        if (limiter) {
+            limiter.configure(limits);
+        } else {
+            limiter = new RateLimiter(limits);
+            this.rateLimiters.set(providerId, limiter);
+        }
+        return limiter;
     }
 
     /**
      * Makes an API call to the configured provider with retry logic.
+     * Streams the response when a callback is given and the provider supports it.
+     * Every attempt waits for the provider's rate limiter; a rate-limited response
+     * holds back all requests to that provider for its Retry-After (or the backoff delay).
+     * Token usage of the successful attempt is recorded, attributed to `pdfPath` when given.
+     * `responseSchema` is passed on to providers with structured output; if the endpoint
+     * rejects it, the request is repeated without it.
      */
-    async makeApiCall(systemPrompt: string, userPrompt: string): Promise<string> {
-        const providerId = this.plugin.settings.apiProvider;
-        const providerSettings = this.plugin.settings.providerSettings[providerId];
+    async makeApiCall(systemPrompt: string, userPrompt: string, options: ApiCallOptions = {}): Promise<string> {
+        const { onPartial, pdfPath, responseSchema } = options;
+        const { provider, providerSettings } = this.getActiveProvider(options.model);
 
-        if (providerId === 'openrouter' && providerSettings.model?.includes('qwen') && !this.warnedAboutQwen) {
+        if (provider.id === 'openrouter' && providerSettings.model?.includes('qwen') && !this.warnedAboutQwen) {
             new Notice('Warning: Some Qwen models have low rate limits. Consider gemini-flash.', 6000);
             this.warnedAboutQwen = true;
         }
 
         const MAX_RETRIES = 3;
         const BASE_DELAY = 1000;
+        const timeoutSeconds = this.plugin.settings.requestTimeoutSeconds || 45;
+
+        const limiter = this.getRateLimiter(provider.id);
+        // The translation is about as long as the prompt, so count both against the token quota
+        const estimatedTokens = estimateTokens(systemPrompt + userPrompt) * 2;
 
         for (let attempt = 1; attempt <= MAX_RETRIES; attempt++) {
+            const release = await limiter.acquire(estimatedTokens);
+            const schema = responseSchema && this.canUseSchema(provider) ? responseSchema : undefined;
             try {
-                const { url, options } = this.getRequestConfig(systemPrompt, userPrompt);
-                
-                const controller = new AbortController();
-                const timeoutId = setTimeout(() => controller.abort(), 45000);
-                options.signal = controller.signal;
-
-                const response = await requestUrl({ url, ...options });
-                clearTimeout(timeoutId);
+                const response = onPartial && this.canStream(provider)
+                    ? await this.streamRequest(provider, providerSettings, systemPrompt, userPrompt, onPartial, timeoutSeconds, schema)
+                    : await this.plainRequest(provider, providerSettings, systemPrompt, userPrompt, timeoutSeconds, schema);
 
                 if (response.status === 200) {
-                    let responsePath = 'choices[0].message.content'; // Default for OpenAI-compatible APIs
-                    if (providerId === 'ollama') {
-                        responsePath = 'message.content';
-                    } else if (providerId === 'custom') {
-                        responsePath = providerSettings.responsePath || responsePath;
-                    }
-
-                    const translatedText = this.getPropertyByPath(response.json, responsePath);
+                    const translatedText = response.streamedText ?? provider.parseResponse(providerSettings, response.json);
+                    this.recordUsage(provider.id, providerSettings.model || provider.id, response.usage, systemPrompt + userPrompt, translatedText || '', pdfPath);
                     return translatedText?.trim() || userPrompt;
                 }
 
-                const errorMsg = response.json?.error?.message || response.text;
-                if (response.status === 429 || (typeof errorMsg === 'string' && errorMsg.toLowerCase().includes('rate limit'))) {
+                const { message: errorMsg, rateLimited } = provider.classifyError(response.status, response.json, response.text);
+                if (schema && response.status === 400 && attempt < MAX_RETRIES) {
+                    this.plugin.logDebug(`${provider.id} rejected the response schema, sending without it:`, errorMsg);
+                    this.structuredOutputUnavailable.add(provider.id);
+                    continue;
+                }
+                if (rateLimited) {
+                    const delay = response.retryAfterMs ?? BASE_DELAY * Math.pow(2, attempt - 1) + Math.random() * 500;
+                    limiter.blockFor(delay);
                     if (attempt === MAX_RETRIES) break;
-                    const delay = BASE_DELAY * Math.pow(2, attempt - 1) + Math.random() * 500;
                     if (this.plugin.settings.debugMode) {
                         console.log(`Rate limit hit. Retrying in ${delay}ms (attempt ${attempt})`);
                     }
-                    await this.sleep(delay);
                     continue;
                 }
                 
@@ -222,18 +284,205 @@ export class TranslationEngine {
 
             } catch (err: any) {
                 if (err.name === 'AbortError') {
-                    throw new Error('Request timed out (45s)');
+                    throw new Error(`Request timed out (no tokens for ${timeoutSeconds}s)`);
                 }
                 if (attempt === MAX_RETRIES) {
                     new Notice(`API call failed: ${err.message}`);
                     throw err;
                 }
+            } finally {
+                release();
             }
         }
 
         throw new Error('Rate limit exceeded after multiple retries.');
     }
 
+    /**
+     * Records a response's token usage. Counts the backend did not report are estimated from the text.
+     */
+    private recordUsage(providerId: string, model: string, usage: TokenUsage | undefined, prompt: string, completion: string, pdfPath?: string): void {
+        this.plugin.usage.record({
+            provider: providerId,
+            model,
+            promptTokens: usage?.promptTokens ?? estimateTokens(prompt),
+            completionTokens: usage?.completionTokens ?? estimateTokens(completion),
+            cost: usage?.cost ?? null,
+            pdfPath,
+        });
+    }
+
+    private canUseSchema(provider: TranslationProvider): boolean {
+        return provider.capabilities.structuredOutput && !this.structuredOutputUnavailable.has(provider.id);
+    }
+
+    private canStream(provider: TranslationProvider): boolean {
+        return this.plugin.settings.streamResponses
+            && provider.capabilities.streaming
+            && !!provider.parseStreamChunk
+            && !this.streamingUnavailable.has(provider.id);
+    }
+
+    /**
+     * Sends a non-streaming request. The timeout covers the whole request,
+     * since no tokens are visible until the body arrives.
+     */
+    private async plainRequest(
+        provider: TranslationProvider,
+        providerSettings: ProviderSettings,
+        systemPrompt: string,
+        userPrompt: string,
+        timeoutSeconds: number,
+        responseSchema?: object
+    ): Promise<ApiResponse> {
+        const { url, options } = provider.buildRequest(providerSettings, systemPrompt, userPrompt, false, responseSchema);
+
+        const controller = new AbortController();
+        const timeoutId = setTimeout(() => controller.abort(), timeoutSeconds * 1000);
+        options.signal = controller.signal;
+
+        try {
+            const response = await requestUrl({ url, ...options });
+            const retryAfter = Object.entries(response.headers || {}).find(([name]) => name.toLowerCase() === 'retry-after')?.[1];
+            const json = this.safeJson(response);
+            return {
+                status: response.status,
+                json,
+                text: response.text,
+                retryAfterMs: parseRetryAfter(retryAfter),
+                usage: json ? provider.parseUsage?.(json) : undefined,
+            };
+        } finally {
+            clearTimeout(timeoutId);
+        }
+    }
+
+    /**
+     * Sends a streaming request through fetch (requestUrl cannot stream) and
+     * assembles the deltas. The timeout is an idle timeout: it restarts on every event.
+     * If the fetch itself is refused, the provider is marked as non-streaming and
+     * the request is repeated without streaming.
+     */
+    private async streamRequest(
+        provider: TranslationProvider,
+        providerSettings: ProviderSettings,
+        systemPrompt: string,
+        userPrompt: string,
+        onPartial: PartialTextCallback,
+        timeoutSeconds: number,
+        responseSchema?: object
+    ): Promise<ApiResponse> {
+        const { url, options } = provider.buildRequest(providerSettings, systemPrompt, userPrompt, true, responseSchema);
+
+        const controller = new AbortController();
+        let idleTimer = setTimeout(() => controller.abort(), timeoutSeconds * 1000);
+        const resetIdleTimer = () => {
+            clearTimeout(idleTimer);
+            idleTimer = setTimeout(() => controller.abort(), timeoutSeconds * 1000);
+        };
+
+        try {
+            let response: Response;
+            try {
+                response = await fetch(url, {
+                    method: options.method,
+                    headers: options.headers,
+                    body: options.body as string,
+                    signal: controller.signal,
+                });
+            } catch (err: any) {
+                if (err.name === 'AbortError') throw err;
+                this.plugin.logDebug(`Streaming request to ${provider.id} failed, falling back to a plain request:`, err);
+                this.streamingUnavailable.add(provider.id);
+                clearTimeout(idleTimer);
+                return await this.plainRequest(provider, providerSettings, systemPrompt, userPrompt, timeoutSeconds, responseSchema);
+            }
+
+            if (!response.ok || !response.body) {
+                const text = await response.text();
+                let json: any = null;
+                try { json = JSON.parse(text); } catch { /* non-JSON error page */ }
+                return { status: response.status, json, text, retryAfterMs: parseRetryAfter(response.headers.get('retry-after')) };
+            }
+
+            let accumulated = '';
+            let usage: TokenUsage | undefined;
+            await this.readStream(response.body, provider.streamFormat ?? 'sse', event => {
+                resetIdleTimer();
+                if (event?.error) {
+                    throw new Error(`API Error - stream: ${provider.classifyError(response.status, event, '').message}`);
+                }
+                const usagePiece = provider.parseUsage?.(event);
+                if (usagePiece) usage = mergeUsage(usage, usagePiece);
+                const delta = provider.parseStreamChunk!(providerSettings, event);
+                if (delta) {
+                    accumulated += delta;
+                    onPartial(accumulated);
+                }
+            });
+            return { status: 200, json: null, text: accumulated, streamedText: accumulated, usage };
+        } finally {
+            clearTimeout(idleTimer);
+        }
+    }
+
+    /**
+     * Splits a streamed body into events. SSE events are read from `data:` lines
+     * (other fields and keep-alive comments are ignored); NDJSON has one object per line.
+     */
+    private async readStream(body: ReadableStream<Uint8Array>, format: 'sse' | 'ndjson', onEvent: (json: any) => void): Promise<void> {
+        const reader = body.getReader();
+        const decoder = new TextDecoder();
+        let buffer = '';
+
+        // Returns true when the event marks the end of the stream
+        const handleLine = (line: string): boolean => {
+            let payload = line.trim();
+            if (!payload) return false;
+            if (format === 'sse') {
+                if (!payload.startsWith('data:')) return false;
+                payload = payload.slice(5).trim();
+                if (payload === '[DONE]') return true;
+            }
+            let json: any;
+            try {
+                json = JSON.parse(payload);
+            } catch {
+                this.plugin.logDebug('Skipping unparseable stream line:', payload);
+                return false;
+            }
+            onEvent(json);
+            return format === 'ndjson' && json?.done === true;
+        };
+
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() ?? '';
+            for (const line of lines) {
+                if (handleLine(line)) {
+                    await reader.cancel();
+                    return;
+                }
+            }
+        }
+        buffer += decoder.decode();
+        if (buffer) handleLine(buffer);
+    }
+
+    /**
+     * Reads the JSON body of a response without throwing on non-JSON error pages.
+     */
+    private safeJson(response: RequestUrlResponse): any {
+        try {
+            return response.json;
+        } catch {
+            return null;
+        }
+    }
+
     // === Utility: Safe delay ===
     async sleep(ms: number): Promise<void> {
         return new Promise(resolve => setTimeout(resolve, ms));
@@ -1,5 +1,7 @@
 // types.ts
 import type { Plugin } from 'obsidian';
+import { ProviderRegistry } from './providers';
+import type { TextItem } from './TextItem';
 
 // === Interfaces ===
 
@@ -16,21 +18,41 @@ export interface ProviderSettings {
     responsePath?: string;
 }
 
+/**
+ * Request quotas for an individual API provider. 0 means unlimited.
+ */
+export interface RateLimitSettings {
+    requestsPerMinute: number;
+    tokensPerMinute: number;
+    maxConcurrency: number; // Requests in flight at the same time
+}
+
 /**
  * Main settings for the OpenRouter Translator plugin.
  */
 export interface OpenRouterTranslatorSettings {
     // --- Provider Management ---
-    apiProvider: 'openrouter' | 'ollama' | 'custom';
-    providerSettings: {
-        openrouter: ProviderSettings;
-        ollama: ProviderSettings;
-        custom: ProviderSettings;
-    };
+    apiProvider: string; // Id of a provider registered in ProviderRegistry
+    providerSettings: Record<string, ProviderSettings>;
+    rateLimits: Record<string, RateLimitSettings>;
+    comparisonModels: ModelChoice[]; // Candidates for "Compare models"
 
     // Translation Behavior
     enableTranslation: boolean;
     useBatchTranslation: boolean;
+    structuredBatchOutput: boolean; // Batches are sent and answered as JSON with segment ids
+    streamResponses: boolean;
+    requestTimeoutSeconds: number; // Idle timeout: abort when no tokens arrive for this long
+    useTranslationMemory: boolean;
+    qualityChecks: boolean; // Flag suspicious translations after each page
+    qualityJudge: boolean; // Also have the model score each translation
+    glossaryPath: string; // Global glossary (markdown or CSV) applied to every PDF
+    useDocumentContext: boolean;
+    stitchCrossPageParagraphs: boolean;
+    pdfExportDpi: number; // Resolution of the page images in burned-in PDF exports
+    headlessBatchTranslation: boolean; // Multi-page jobs read pages with pdf.js instead of scrolling the viewer
+    monthlyBudget: number; // USD per calendar month; 0 = no limit
+    contextParagraphs: number; // Paragraphs of the previous page sent as context
     debugMode: boolean;
 
     // Language Settings
@@ -60,6 +82,7 @@ export interface OpenRouterTranslatorSettings {
 
     // Custom Prompts
     batchPrompt: string;
+    jsonBatchPrompt: string;
     singlePrompt: string;
 
     // --- NEW: Custom Copy Formats ---
@@ -68,14 +91,23 @@ export interface OpenRouterTranslatorSettings {
     footnoteFormat: string;
 }
 
+/**
+ * A provider and model to translate with instead of the active ones, e.g. when comparing models.
+ */
+export interface ModelChoice {
+    provider: string; // Id of a provider registered in ProviderRegistry
+    model: string;
+}
+
 export interface TranslationUnit {
-    originalSpans: HTMLSpanElement[];
+    originalItems: TextItem[]; // Text items (with their source spans when read from the DOM)
     text: string;
     id: string; // Unique ID for the chunk (sentence or paragraph)
     paragraphId: string; // ID to group chunks by original paragraph
 }
 
 export interface OverlayPositionData {
+    id?: string; // Stable id of the saved entry, used to update it in place
     selector: string;
     textContent: string;
     relativeRect: {
@@ -100,6 +132,41 @@ export interface OverlayPositionData {
     textAlign?: string;
     color?: string;
     originalStyledText?: StyledTextSegment[];
+    qaFlags?: QaFlag[]; // Set by the quality check pass
+    qaScore?: number; // LLM judge score, 1 (unusable) to 5 (perfect)
+    revision?: RevisionInfo; // Where translatedText came from
+    history?: TranslationRevision[]; // Earlier translations, oldest first
+}
+
+export type RevisionSource = 'machine' | 'manual' | 'import';
+
+/**
+ * An earlier translation of an overlay item, kept so it can be restored.
+ */
+export interface TranslationRevision {
+    translatedText: string;
+    source: RevisionSource;
+    timestamp?: number; // Unknown for translations saved before history was kept
+    model?: string; // "provider:model" of machine translations
+}
+
+export type RevisionInfo = Omit<TranslationRevision, 'translatedText'>;
+
+/**
+ * How a PDF's overlays are shown. 'overlay' covers the original with the translation,
+ * 'hover-original' adds the original text under a hovered overlay and 'original-popover'
+ * keeps the original visible and shows the translation of a hovered paragraph.
+ */
+export type OverlayDisplayMode = 'overlay' | 'hover-original' | 'original-popover';
+
+export type QaFlagKind = 'untranslated' | 'length' | 'numbers' | 'urls' | 'judge';
+
+/**
+ * A possible quality problem found in one overlay's translation.
+ */
+export interface QaFlag {
+    kind: QaFlagKind;
+    message: string;
 }
 
 export interface StyledTextSegment {
@@ -116,6 +183,7 @@ export interface SavedOverlay {
     timestamp: number;
     pageOverlays: Record<string, OverlayPositionData[]>;
     indexLine?: number;
+    extraFrontmatter?: string; // Raw YAML lines for user-added frontmatter keys, preserved on save
 }
 
 export interface OverlayElementData {
@@ -170,28 +238,26 @@ export const AVAILABLE_LANGUAGES = [
 export const DEFAULT_SETTINGS: OpenRouterTranslatorSettings = {
     // --- PROVIDER-AWARE DEFAULTS ---
     apiProvider: 'openrouter',
-    providerSettings: {
-        openrouter: {
-            apiKey: '',
-            model: 'google/gemini-flash-1.5'
-        },
-        ollama: {
-            apiEndpoint: 'http://localhost:11434',
-            model: 'llama3'
-        },
-        custom: {
-            apiEndpoint: '',
-            apiKey: '',
-            model: '',
-            headers: '{\n  "Content-Type": "application/json",\n  "Authorization": "Bearer {apiKey}"\n}',
-            requestBody: '{\n  "model": "{model}",\n  "messages": [\n    {\n      "role": "system",\n      "content": "{systemPrompt}"\n    },\n    {\n      "role": "user",\n      "content": "{userPrompt}"\n    }\n  ]\n}',
-            responsePath: 'choices[0].message.content'
-        }
-    },
+    providerSettings: ProviderRegistry.getDefaultSettings(),
+    rateLimits: ProviderRegistry.getDefaultRateLimits(),
+    comparisonModels: [],
 
     // Translation Behavior
     enableTranslation: true,
     useBatchTranslation: true,
+    structuredBatchOutput: false,
+    streamResponses: false,
+    requestTimeoutSeconds: 45,
+    useTranslationMemory: true,
+    qualityChecks: false,
+    qualityJudge: false,
+    glossaryPath: '',
+    useDocumentContext: false,
+    stitchCrossPageParagraphs: true,
+    pdfExportDpi: 150,
+    headlessBatchTranslation: true,
+    monthlyBudget: 0,
+    contextParagraphs: 2,
     debugMode: false,
 
     // Language Settings
@@ -230,6 +296,9 @@ Output:
 1. Hola mundo
 2. Muchas gracias
 
+{context}
+{glossary}
+
 Now translate:
 {inputText}
 
@@ -239,7 +308,18 @@ Return exactly {lineCount} lines in this format:
 ...
 No extra text. Never skip numbering. Only return the numbered list.`,
 
-    singlePrompt: `Translate from {sourceLang} to {targetLang}. Only output the translation. Preserve formatting and tone.`,
+    jsonBatchPrompt: `You are a precise document translator. The user message is a JSON object with {lineCount} segments, each with an "id" and a "text". Translate every text from {sourceLang} to {targetLang}, and only this language.
+
+{context}
+{glossary}
+
+Answer with JSON only, in this shape:
+{"translations": [{"id": 1, "translation": "..."}, {"id": 2, "translation": "..."}]}
+Return one entry for every id, with the same id. Keep inline markup such as <b>, <i> and <br>. Do not merge or split segments.`,
+
+    singlePrompt: `Translate from {sourceLang} to {targetLang}. Only output the translation. Preserve formatting and tone.
+{context}
+{glossary}`,
 
     // --- NEW: Custom Copy Formats ---
     calloutFormat: '> [!quote] Translation\n> {blockquote_text}\n>\n> {pagelink}',
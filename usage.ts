@@ -0,0 +1,374 @@
+// usage.ts
+import { ButtonComponent, ItemView, TFile, WorkspaceLeaf, debounce, normalizePath, requestUrl } from 'obsidian';
+import type OpenRouterTranslatorPlugin from './main';
+import { HeadlessPdfSession } from './headless';
+import { estimateTokens } from './document-context';
+
+// Constants
+const USAGE_FILE_NAME = 'usage.json';
+const USAGE_FORMAT_VERSION = 1;
+const SAVE_DEBOUNCE = 2000;
+const PDF_FLUSH_DEBOUNCE = 5000; // Frontmatter writes are batched, one per PDF
+const FRONTMATTER_KEY = 'translation-usage';
+const OPENROUTER_MODELS_URL = 'https://openrouter.ai/api/v1/models';
+const HISTORY_MONTHS = 12; // Months listed in the dashboard
+export const USAGE_VIEW_TYPE = 'pdf-translator-usage';
+
+export interface UsageTotals {
+    requests: number;
+    promptTokens: number;
+    completionTokens: number;
+    /** USD. Only includes requests whose price is known. */
+    cost: number;
+}
+
+/**
+ * One finished API request. `cost` is null when the backend did not report a price;
+ * it is then estimated from the model's pricing, if known.
+ */
+export interface UsageEvent {
+    provider: string;
+    model: string;
+    promptTokens: number;
+    completionTokens: number;
+    cost: number | null;
+    pdfPath?: string;
+}
+
+export interface UsageEstimate {
+    pages: number;
+    promptTokens: number;
+    completionTokens: number;
+    /** USD, or null when no price is known for the current model. */
+    cost: number | null;
+}
+
+interface MonthUsage {
+    totals: UsageTotals;
+    /** Keyed by "provider:model". */
+    models: Record<string, UsageTotals>;
+}
+
+interface UsageFile {
+    version: number;
+    months: Record<string, MonthUsage>;
+}
+
+interface ModelPrice {
+    prompt: number; // USD per token
+    completion: number;
+}
+
+function emptyTotals(): UsageTotals {
+    return { requests: 0, promptTokens: 0, completionTokens: 0, cost: 0 };
+}
+
+function addTo(totals: UsageTotals, add: UsageTotals): void {
+    totals.requests += add.requests;
+    totals.promptTokens += add.promptTokens;
+    totals.completionTokens += add.completionTokens;
+    totals.cost += add.cost;
+}
+
+export function monthKey(date = new Date()): string {
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+}
+
+export function formatCost(cost: number): string {
+    return `$${cost < 1 ? cost.toFixed(4) : cost.toFixed(2)}`;
+}
+
+/**
+ * Records the token usage and cost of every API request, per month and model
+ * (in `usage.json` in the plugin folder) and per PDF (in the `translation-usage`
+ * frontmatter of its translation file). Also estimates page ranges and enforces the
+ * optional monthly budget.
+ */
+export class UsageTracker {
+    private plugin: OpenRouterTranslatorPlugin;
+    private months: Record<string, MonthUsage> = {};
+    private pendingPdfTotals = new Map<string, UsageTotals>();
+    private prices = new Map<string, ModelPrice>(); // OpenRouter model id → price
+    private pricesLoaded = false;
+    private listeners = new Set<() => void>();
+    private loaded = false;
+    private requestSave: () => void;
+    private requestPdfFlush: () => void;
+
+    constructor(plugin: OpenRouterTranslatorPlugin) {
+        this.plugin = plugin;
+        this.requestSave = debounce(() => { this.save(); }, SAVE_DEBOUNCE, true);
+        this.requestPdfFlush = debounce(() => { this.flushPdfTotals(); }, PDF_FLUSH_DEBOUNCE, true);
+    }
+
+    // === Persistence ===
+
+    private getFilePath(): string {
+        return normalizePath(`${this.plugin.manifest.dir}/${USAGE_FILE_NAME}`);
+    }
+
+    async load(): Promise<void> {
+        const adapter = this.plugin.app.vault.adapter;
+        const path = this.getFilePath();
+        try {
+            if (await adapter.exists(path)) {
+                const data = JSON.parse(await adapter.read(path)) as UsageFile;
+                this.months = data.months || {};
+            }
+        } catch (error) {
+            console.error('Failed to load usage statistics:', error);
+        }
+        this.loaded = true;
+    }
+
+    async save(): Promise<void> {
+        if (!this.loaded) return;
+        const data: UsageFile = { version: USAGE_FORMAT_VERSION, months: this.months };
+        try {
+            await this.plugin.app.vault.adapter.write(this.getFilePath(), JSON.stringify(data));
+        } catch (error) {
+            console.error('Failed to save usage statistics:', error);
+        }
+    }
+
+    /**
+     * Adds the collected per-PDF totals to the translation files' frontmatter. PDFs
+     * without a translation file yet keep their totals until the next flush.
+     */
+    async flushPdfTotals(): Promise<void> {
+        for (const [pdfPath, totals] of Array.from(this.pendingPdfTotals.entries())) {
+            this.pendingPdfTotals.delete(pdfPath);
+            const pdfFile = this.plugin.app.vault.getAbstractFileByPath(pdfPath);
+            if (!(pdfFile instanceof TFile)) continue;
+            try {
+                const written = await this.plugin.storage.updateFrontmatter(pdfFile, fm => {
+                    const current = fm[FRONTMATTER_KEY] || {};
+                    fm[FRONTMATTER_KEY] = {
+                        'requests': (current['requests'] || 0) + totals.requests,
+                        'prompt-tokens': (current['prompt-tokens'] || 0) + totals.promptTokens,
+                        'completion-tokens': (current['completion-tokens'] || 0) + totals.completionTokens,
+                        'cost-usd': Math.round(((current['cost-usd'] || 0) + totals.cost) * 1e6) / 1e6,
+                    };
+                });
+                if (!written) this.addPending(pdfPath, totals);
+            } catch (error) {
+                this.plugin.logDebug(`Could not write usage for ${pdfPath}:`, error);
+                this.addPending(pdfPath, totals);
+            }
+        }
+    }
+
+    private addPending(pdfPath: string, totals: UsageTotals): void {
+        const pending = this.pendingPdfTotals.get(pdfPath) ?? emptyTotals();
+        addTo(pending, totals);
+        this.pendingPdfTotals.set(pdfPath, pending);
+    }
+
+    // === Recording ===
+
+    record(event: UsageEvent): void {
+        const cost = event.cost ?? this.estimateCost(event.provider, event.model, event.promptTokens, event.completionTokens) ?? 0;
+        const totals: UsageTotals = { requests: 1, promptTokens: event.promptTokens, completionTokens: event.completionTokens, cost };
+
+        const month = this.months[monthKey()] ??= { totals: emptyTotals(), models: {} };
+        addTo(month.totals, totals);
+        const modelKey = `${event.provider}:${event.model}`;
+        addTo(month.models[modelKey] ??= emptyTotals(), totals);
+        this.requestSave();
+
+        if (event.pdfPath) {
+            this.addPending(event.pdfPath, totals);
+            this.requestPdfFlush();
+        }
+        this.listeners.forEach(listener => listener());
+    }
+
+    /** Subscribes to new usage. Returns the unsubscribe function. */
+    onChange(listener: () => void): () => void {
+        this.listeners.add(listener);
+        return () => this.listeners.delete(listener);
+    }
+
+    getMonth(key = monthKey()): { totals: UsageTotals; models: Record<string, UsageTotals> } {
+        return this.months[key] ?? { totals: emptyTotals(), models: {} };
+    }
+
+    /** Months with usage, newest first. */
+    getMonthKeys(): string[] {
+        return Object.keys(this.months).sort().reverse();
+    }
+
+    /** Usage of each translated PDF, read from the translation files' frontmatter. */
+    getPdfTotals(): { pdfPath: string; totals: UsageTotals }[] {
+        const result: { pdfPath: string; totals: UsageTotals }[] = [];
+        for (const [pdfPath, mdPath] of this.plugin.pdfToMdMap) {
+            const mdFile = this.plugin.app.vault.getAbstractFileByPath(mdPath);
+            if (!(mdFile instanceof TFile)) continue;
+            const stored = this.plugin.app.metadataCache.getFileCache(mdFile)?.frontmatter?.[FRONTMATTER_KEY];
+            if (!stored) continue;
+            result.push({
+                pdfPath,
+                totals: {
+                    requests: stored['requests'] || 0,
+                    promptTokens: stored['prompt-tokens'] || 0,
+                    completionTokens: stored['completion-tokens'] || 0,
+                    cost: stored['cost-usd'] || 0,
+                },
+            });
+        }
+        return result.sort((a, b) => b.totals.cost - a.totals.cost || (b.totals.promptTokens + b.totals.completionTokens) - (a.totals.promptTokens + a.totals.completionTokens));
+    }
+
+    // === Budget ===
+
+    /** True when a monthly budget is set and this month's cost has reached it. */
+    isOverBudget(): boolean {
+        const budget = this.plugin.settings.monthlyBudget;
+        return budget > 0 && this.getMonth().totals.cost >= budget;
+    }
+
+    // === Pricing & Estimates ===
+
+    /**
+     * Price of a request from the model's known pricing: OpenRouter's published prices,
+     * otherwise the average price per token already recorded for the model. Null if unknown.
+     */
+    private estimateCost(provider: string, model: string, promptTokens: number, completionTokens: number): number | null {
+        const price = this.prices.get(model);
+        if (provider === 'openrouter' && price) {
+            return promptTokens * price.prompt + completionTokens * price.completion;
+        }
+        let cost = 0, tokens = 0;
+        for (const month of Object.values(this.months)) {
+            const totals = month.models[`${provider}:${model}`];
+            if (!totals) continue;
+            cost += totals.cost;
+            tokens += totals.promptTokens + totals.completionTokens;
+        }
+        return cost > 0 && tokens > 0 ? (promptTokens + completionTokens) * cost / tokens : null;
+    }
+
+    private async loadOpenRouterPrices(): Promise<void> {
+        if (this.pricesLoaded) return;
+        try {
+            const data = (await requestUrl(OPENROUTER_MODELS_URL)).json;
+            for (const model of Array.isArray(data?.data) ? data.data : []) {
+                const prompt = parseFloat(model.pricing?.prompt);
+                const completion = parseFloat(model.pricing?.completion);
+                if (!isNaN(prompt) && !isNaN(completion)) this.prices.set(model.id, { prompt, completion });
+            }
+            this.pricesLoaded = true;
+        } catch (error) {
+            this.plugin.logDebug('Could not load OpenRouter prices:', error);
+        }
+    }
+
+    /**
+     * Estimates the tokens and cost of translating a page range with the current provider.
+     * Input is the page text plus the prompt for each page, output about as long as the text.
+     * Segments already in the translation memory are not subtracted, so this is an upper bound.
+     */
+    async estimateRange(pdfFile: TFile, startPage: number, endPage: number): Promise<UsageEstimate> {
+        const session = new HeadlessPdfSession(this.plugin, pdfFile);
+        let chars: number;
+        try {
+            await session.open();
+            chars = await session.countTextCharacters(startPage, endPage);
+        } finally {
+            session.close();
+        }
+
+        const pages = endPage - startPage + 1;
+        const textTokens = Math.ceil(chars / 4);
+        const { structuredBatchOutput, jsonBatchPrompt, batchPrompt } = this.plugin.settings;
+        const promptTokens = textTokens + pages * estimateTokens(structuredBatchOutput ? jsonBatchPrompt : batchPrompt);
+        const completionTokens = textTokens;
+
+        const provider = this.plugin.settings.apiProvider;
+        const model = this.plugin.settings.providerSettings[provider]?.model || provider;
+        if (provider === 'openrouter') await this.loadOpenRouterPrices();
+        return { pages, promptTokens, completionTokens, cost: this.estimateCost(provider, model, promptTokens, completionTokens) };
+    }
+}
+
+// === Dashboard ===
+
+function formatTokens(n: number): string {
+    return n >= 1e6 ? `${(n / 1e6).toFixed(2)}M` : n >= 1e3 ? `${(n / 1e3).toFixed(1)}k` : String(n);
+}
+
+/**
+ * Side panel with this month's usage against the budget, a breakdown by model,
+ * the monthly history and the usage of each translated PDF.
+ */
+export class UsageDashboardView extends ItemView {
+    private plugin: OpenRouterTranslatorPlugin;
+    private unsubscribe: (() => void) | null = null;
+
+    constructor(leaf: WorkspaceLeaf, plugin: OpenRouterTranslatorPlugin) {
+        super(leaf);
+        this.plugin = plugin;
+    }
+
+    getViewType(): string {
+        return USAGE_VIEW_TYPE;
+    }
+
+    getDisplayText(): string {
+        return 'Translation Usage';
+    }
+
+    getIcon(): string {
+        return 'bar-chart-2';
+    }
+
+    async onOpen() {
+        const rerender = debounce(() => this.render(), 1000, true);
+        this.unsubscribe = this.plugin.usage.onChange(rerender);
+        this.render();
+    }
+
+    async onClose() {
+        this.unsubscribe?.();
+        this.unsubscribe = null;
+    }
+
+    private render() {
+        const el = this.contentEl;
+        el.empty();
+        const usage = this.plugin.usage;
+
+        const { totals, models } = usage.getMonth();
+        el.createEl('h4', { text: `This month (${monthKey()})` });
+        const budget = this.plugin.settings.monthlyBudget;
+        el.createEl('p', {
+            text: `${totals.requests} request(s), ${formatTokens(totals.promptTokens)} in / ${formatTokens(totals.completionTokens)} out, ${formatCost(totals.cost)}`
+                + (budget > 0 ? ` of ${formatCost(budget)} budget` : ''),
+        });
+
+        this.renderTable(el, 'By model', 'Model', Object.entries(models).sort((a, b) => b[1].cost - a[1].cost));
+        this.renderTable(el, 'By month', 'Month', usage.getMonthKeys().slice(0, HISTORY_MONTHS).map(key => [key, usage.getMonth(key).totals]));
+        this.renderTable(el, 'By PDF', 'PDF', usage.getPdfTotals().map(({ pdfPath, totals }) => [pdfPath.split('/').pop() || pdfPath, totals]));
+
+        new ButtonComponent(el).setButtonText('Refresh').onClick(() => this.render());
+    }
+
+    private renderTable(el: HTMLElement, title: string, label: string, rows: [string, UsageTotals][]) {
+        el.createEl('h4', { text: title });
+        if (rows.length === 0) {
+            el.createEl('p', { text: 'No usage recorded.' });
+            return;
+        }
+        const table = el.createEl('table');
+        const header = table.createEl('tr');
+        [label, 'Requests', 'Tokens in', 'Tokens out', 'Cost'].forEach(h => header.createEl('th', { text: h }));
+        for (const [name, totals] of rows) {
+            const row = table.createEl('tr');
+            row.createEl('td', { text: name });
+            row.createEl('td', { text: String(totals.requests) });
+            row.createEl('td', { text: formatTokens(totals.promptTokens) });
+            row.createEl('td', { text: formatTokens(totals.completionTokens) });
+            row.createEl('td', { text: formatCost(totals.cost) });
+        }
+    }
+}
\ No newline at end of file
@@ -0,0 +1,351 @@
+// xliff.ts
+import { App, FuzzySuggestModal, Notice, TFile, normalizePath } from 'obsidian';
+import type OpenRouterTranslatorPlugin from './main';
+import type { OverlayPositionData } from './types';
+import { containsFailedSegment } from './processing';
+import { decodeEntities, escapeHtml, htmlToPlainText } from './html-text';
+
+// Constants
+const XLIFF_NAMESPACE = 'urn:oasis:names:tc:xliff:document:2.0';
+const UNDETERMINED_LANG = 'und'; // BCP 47 code used when the source language is 'auto'
+
+// === Text Helpers ===
+
+function escapeXml(text: string): string {
+    return text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+}
+
+/**
+ * Converts an overlay's translated HTML into XLIFF 2.0 inline content:
+ * <b>/<i> become <pc> and <br> becomes <ph>, so CAT tools protect them as codes.
+ * Other tags are dropped.
+ */
+function htmlToXliffInline(html: string): string {
+    let nextId = 1;
+    const open: boolean[] = []; // Whether each open HTML tag produced a <pc>
+    let out = '';
+    for (const part of html.split(/(<[^>]+>)/g)) {
+        if (!part) continue;
+        const tag = part.match(/^<\s*(\/?)\s*([a-z]+)/i);
+        if (!tag) {
+            out += escapeXml(decodeEntities(part));
+            continue;
+        }
+        const closing = tag[1] === '/';
+        const name = tag[2].toLowerCase();
+        if (name === 'br') {
+            out += `<ph id="${nextId++}" type="fmt" subType="xlf:lb"/>`;
+        } else if (name === 'b' || name === 'strong' || name === 'i' || name === 'em') {
+            if (!closing) {
+                const subType = name === 'b' || name === 'strong' ? 'xlf:b' : 'xlf:i';
+                out += `<pc id="${nextId++}" type="fmt" subType="${subType}">`;
+                open.push(true);
+            } else if (open.pop()) {
+                out += '</pc>';
+            }
+        }
+    }
+    // Close anything the translation left open so the document stays well-formed
+    while (open.pop()) out += '</pc>';
+    return out;
+}
+
+/**
+ * Converts XLIFF inline content back into the overlay HTML format
+ * (escaped text with <b>, <i> and <br>). Unknown codes keep their text.
+ */
+function xliffInlineToHtml(node: Node): string {
+    let out = '';
+    node.childNodes.forEach(child => {
+        if (child.nodeType === Node.TEXT_NODE || child.nodeType === Node.CDATA_SECTION_NODE) {
+            out += escapeHtml(child.textContent || '');
+            return;
+        }
+        if (child.nodeType !== Node.ELEMENT_NODE) return;
+        const el = child as Element;
+        const subType = el.getAttribute('subType');
+        if (el.localName === 'ph') {
+            if (subType === 'xlf:lb') out += '<br>';
+        } else if (el.localName === 'pc' && subType === 'xlf:b') {
+            out += `<b>${xliffInlineToHtml(el)}</b>`;
+        } else if (el.localName === 'pc' && subType === 'xlf:i') {
+            out += `<i>${xliffInlineToHtml(el)}</i>`;
+        } else {
+            out += xliffInlineToHtml(el);
+        }
+    });
+    return out;
+}
+
+/**
+ * Exchanges saved translations with CAT tools: XLIFF 2.0 export/import of one PDF
+ * (one unit per overlay box, page and rect kept as notes) and a TMX 1.4 export of
+ * every translated PDF in the vault.
+ */
+export class TranslationExchange {
+    private plugin: OpenRouterTranslatorPlugin;
+
+    constructor(plugin: OpenRouterTranslatorPlugin) {
+        this.plugin = plugin;
+    }
+
+    private getSourceLang(): string {
+        const lang = this.plugin.settings.sourceLanguage;
+        return !lang || lang === 'auto' ? UNDETERMINED_LANG : lang;
+    }
+
+    /**
+     * Units are named after the stable id of their overlay entry, which survives boxes being
+     * split, merged or reordered. Only entries saved without an id fall back to their position.
+     */
+    private getUnitId(item: OverlayPositionData, page: number, index: number): string {
+        return item.id || `p${page}-u${index}`;
+    }
+
+    /**
+     * Finds the saved entry of a unit by id, or by position for units named after one.
+     */
+    private findUnitItem(pageOverlays: Record<number, OverlayPositionData[]>, unitId: string): { page: number; item: OverlayPositionData } | null {
+        for (const [page, items] of Object.entries(pageOverlays)) {
+            const item = items.find(entry => entry.id === unitId);
+            if (item) return { page: Number(page), item };
+        }
+        const match = unitId.match(/^p(\d+)-u(\d+)$/);
+        const item = match ? pageOverlays[Number(match[1])]?.[Number(match[2])] : undefined;
+        return match && item ? { page: Number(match[1]), item } : null;
+    }
+
+    // === XLIFF Export ===
+
+    async exportXliff(pdfFile: TFile): Promise<void> {
+        const saved = await this.plugin.storage.readSavedOverlayForFile(pdfFile);
+        if (!saved) {
+            new Notice('No saved translation found for this PDF.');
+            return;
+        }
+
+        const units: string[] = [];
+        const pageNumbers = Object.keys(saved.overlay.pageOverlays).map(Number).sort((a, b) => a - b);
+        for (const page of pageNumbers) {
+            saved.overlay.pageOverlays[page].forEach((item, index) => {
+                const { left, top, width, height } = item.relativeRect;
+                const hasTarget = !!item.translatedText && item.translatedText !== 'Translation missing' && !containsFailedSegment(item.translatedText);
+                units.push([
+                    `    <unit id="${escapeXml(this.getUnitId(item, page, index))}">`,
+                    '      <notes>',
+                    `        <note category="page">${page}</note>`,
+                    `        <note category="rect">${escapeXml(JSON.stringify({ left, top, width, height }))}</note>`,
+                    '      </notes>',
+                    `      <segment state="${hasTarget ? 'translated' : 'initial'}">`,
+                    `        <source>${escapeXml(item.textContent || '')}</source>`,
+                    hasTarget ? `        <target>${htmlToXliffInline(item.translatedText)}</target>` : '',
+                    '      </segment>',
+                    '    </unit>',
+                ].filter(Boolean).join('\n'));
+            });
+        }
+
+        const xml = [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            `<xliff xmlns="${XLIFF_NAMESPACE}" version="2.0" srcLang="${escapeXml(this.getSourceLang())}" trgLang="${escapeXml(this.plugin.settings.targetLanguage)}">`,
+            `  <file id="f1" original="${escapeXml(pdfFile.path)}">`,
+            ...units,
+            '  </file>',
+            '</xliff>',
+            '',
+        ].join('\n');
+
+        const dir = (this.plugin.settings.storageLocation || pdfFile.parent?.path || '').replace(/\/+$/, '');
+        const path = normalizePath(`${dir && dir !== '/' ? dir + '/' : ''}${pdfFile.basename}.xlf`);
+        try {
+            await this.plugin.storage.ensureStorageFolder();
+            await this.plugin.storage.writeTextFile(path, xml);
+            new Notice(`✅ Exported ${units.length} unit(s) to ${path}`);
+        } catch (error: any) {
+            console.error('XLIFF export failed:', error);
+            new Notice(`⚠️ XLIFF export failed: ${error.message}`);
+        }
+    }
+
+    // === XLIFF Import ===
+
+    /**
+     * Reads a reviewed XLIFF file and writes its targets back into the saved overlays
+     * of the PDF named in `<file original>`. Units are matched by overlay id; units whose
+     * source no longer matches the saved box are skipped.
+     */
+    async importXliff(xliffFile: TFile): Promise<void> {
+        try {
+            const doc = new DOMParser().parseFromString(await this.plugin.app.vault.read(xliffFile), 'application/xml');
+            if (doc.getElementsByTagName('parsererror').length > 0) throw new Error('The file is not well-formed XML.');
+            const root = doc.documentElement;
+            if (root.localName !== 'xliff' || !root.getAttribute('version')?.startsWith('2.')) {
+                throw new Error('Only XLIFF 2.x files are supported.');
+            }
+
+            let updated = 0, skipped = 0;
+            const fileEls = Array.from(root.getElementsByTagNameNS('*', 'file'));
+            for (const fileEl of fileEls) {
+                const pdfPath = fileEl.getAttribute('original') || '';
+                const pdfFile = this.plugin.app.vault.getAbstractFileByPath(pdfPath);
+                if (!(pdfFile instanceof TFile) || pdfFile.extension !== 'pdf') {
+                    new Notice(`⚠️ PDF not found in vault: ${pdfPath}`);
+                    continue;
+                }
+                const saved = await this.plugin.storage.readSavedOverlayForFile(pdfFile);
+                if (!saved) {
+                    new Notice(`⚠️ No saved translation found for ${pdfPath}`);
+                    continue;
+                }
+
+                const changedPages: Record<number, OverlayPositionData[]> = {};
+                for (const unitEl of Array.from(fileEl.getElementsByTagNameNS('*', 'unit'))) {
+                    const found = this.findUnitItem(saved.overlay.pageOverlays, unitEl.getAttribute('id') || '');
+                    const target = this.readUnitTarget(unitEl);
+                    if (!found || target === null) {
+                        skipped++;
+                        continue;
+                    }
+                    const { page, item } = found;
+                    if (this.readUnitSource(unitEl) !== (item.textContent || '').replace(/\s+/g, ' ').trim()) {
+                        this.plugin.logDebug(`XLIFF import: source of ${unitEl.getAttribute('id')} changed, skipping.`);
+                        skipped++;
+                        continue;
+                    }
+                    if (target === item.translatedText) continue;
+
+                    item.translatedText = target;
+                    item.revision = { source: 'import', timestamp: Date.now() };
+                    changedPages[page] = saved.overlay.pageOverlays[page];
+                    updated++;
+                }
+
+                if (Object.keys(changedPages).length > 0) {
+                    await this.plugin.storage.updatePageOverlaysAndWrite(pdfFile, changedPages);
+                }
+            }
+
+            new Notice(`✅ Updated ${updated} translation(s) from ${xliffFile.name}` + (skipped > 0 ? ` (${skipped} unit(s) skipped)` : ''));
+        } catch (error: any) {
+            console.error('XLIFF import failed:', error);
+            new Notice(`⚠️ XLIFF import failed: ${error.message}`);
+        }
+    }
+
+    private readUnitSource(unitEl: Element): string {
+        return Array.from(unitEl.getElementsByTagNameNS('*', 'source'))
+            .map(el => el.textContent || '')
+            .join('')
+            .replace(/\s+/g, ' ')
+            .trim();
+    }
+
+    /**
+     * Joins the targets of all segments (CAT tools may re-segment a unit).
+     * Returns null when no segment has a non-empty target.
+     */
+    private readUnitTarget(unitEl: Element): string | null {
+        let html = '';
+        let hasTarget = false;
+        for (const part of Array.from(unitEl.children)) {
+            if (part.localName !== 'segment' && part.localName !== 'ignorable') continue;
+            const target = Array.from(part.children).find(el => el.localName === 'target');
+            const source = Array.from(part.children).find(el => el.localName === 'source');
+            if (target && (target.textContent || '').trim()) hasTarget = true;
+            const content = target ?? source;
+            if (content) html += xliffInlineToHtml(content);
+        }
+        return hasTarget ? html.trim() : null;
+    }
+
+    // === TMX Export ===
+
+    /**
+     * Writes all saved translations in the vault as a TMX 1.4 memory
+     * (plain text segments, PDF path and page kept as properties).
+     */
+    async exportTmx(): Promise<void> {
+        const srcLang = this.getSourceLang();
+        const trgLang = this.plugin.settings.targetLanguage;
+        const units: string[] = [];
+        let pdfCount = 0;
+
+        new Notice('Collecting translations for TMX export...');
+        for (const pdfPath of this.plugin.pdfToMdMap.keys()) {
+            const pdfFile = this.plugin.app.vault.getAbstractFileByPath(pdfPath);
+            if (!(pdfFile instanceof TFile)) continue;
+            const saved = await this.plugin.storage.readSavedOverlayForFile(pdfFile);
+            if (!saved) continue;
+            pdfCount++;
+
+            for (const [page, items] of Object.entries(saved.overlay.pageOverlays)) {
+                for (const item of items) {
+                    const source = (item.textContent || '').replace(/\s+/g, ' ').trim();
+                    const target = item.translatedText === 'Translation missing' || containsFailedSegment(item.translatedText || '') ? '' : htmlToPlainText(item.translatedText || '');
+                    if (!source || !target) continue;
+                    units.push([
+                        '    <tu>',
+                        `      <prop type="x-pdf">${escapeXml(pdfPath)}</prop>`,
+                        `      <prop type="x-page">${page}</prop>`,
+                        `      <tuv xml:lang="${escapeXml(srcLang)}"><seg>${escapeXml(source)}</seg></tuv>`,
+                        `      <tuv xml:lang="${escapeXml(trgLang)}"><seg>${escapeXml(target)}</seg></tuv>`,
+                        '    </tu>',
+                    ].join('\n'));
+                }
+            }
+        }
+
+        if (units.length === 0) {
+            new Notice('No saved translations found to export.');
+            return;
+        }
+
+        const xml = [
+            '<?xml version="1.0" encoding="UTF-8"?>',
+            '<tmx version="1.4">',
+            `  <header creationtool="${escapeXml(this.plugin.manifest.name)}" creationtoolversion="${escapeXml(this.plugin.manifest.version)}"` +
+                ` segtype="paragraph" o-tmf="obsidian" adminlang="en" srclang="${srcLang === UNDETERMINED_LANG ? '*all*' : escapeXml(srcLang)}" datatype="plaintext"/>`,
+            '  <body>',
+            ...units,
+            '  </body>',
+            '</tmx>',
+            '',
+        ].join('\n');
+
+        const stamp = new Date().toISOString().slice(0, 10);
+        const path = this.plugin.storage.getStorageFilePath(`translations-${stamp}.tmx`);
+        try {
+            await this.plugin.storage.ensureStorageFolder();
+            await this.plugin.storage.writeTextFile(path, xml);
+            new Notice(`✅ Exported ${units.length} translation unit(s) from ${pdfCount} PDF(s) to ${path}`);
+        } catch (error: any) {
+            console.error('TMX export failed:', error);
+            new Notice(`⚠️ TMX export failed: ${error.message}`);
+        }
+    }
+}
+
+/**
+ * Lets the user pick a reviewed XLIFF file from the vault to import.
+ */
+export class XliffImportModal extends FuzzySuggestModal<TFile> {
+    private plugin: OpenRouterTranslatorPlugin;
+
+    constructor(app: App, plugin: OpenRouterTranslatorPlugin) {
+        super(app);
+        this.plugin = plugin;
+        this.setPlaceholder('Select a reviewed XLIFF file (.xlf, .xliff)...');
+    }
+
+    getItems(): TFile[] {
+        return this.app.vault.getFiles().filter(file => file.extension === 'xlf' || file.extension === 'xliff');
+    }
+
+    getItemText(file: TFile): string {
+        return file.path;
+    }
+
+    onChooseItem(file: TFile): void {
+        this.plugin.exchange.importXliff(file);
+    }
+}
\ No newline at end of file